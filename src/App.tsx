@@ -5,6 +5,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import SharedLink from "./pages/SharedLink";
+import ShareLinks from "./pages/ShareLinks";
+import Settings from "./pages/Settings";
+import EmergencyVault from "./pages/EmergencyVault";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -18,6 +22,10 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
+          <Route path="/links" element={<ShareLinks />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/emergency/:contactId" element={<EmergencyVault />} />
+          <Route path="/s/:token" element={<SharedLink />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
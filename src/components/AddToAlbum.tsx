@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { FolderPlus, Images, Loader2 } from "lucide-react";
+import { useEncryption } from "@/hooks/useEncryption";
+import { OpenedAlbum, addPhotosToAlbum } from "@/lib/albums";
+
+interface AddToAlbumProps {
+  photo: { id: string; user_id: string; wrapped_key: string | null; master_key_id: string | null } | null;
+  albums: OpenedAlbum[];
+  onOpenChange: (open: boolean) => void;
+  onAdded: (album: OpenedAlbum) => void;
+  onCreateAlbum: () => void;
+}
+
+export const AddToAlbum = ({ photo, albums, onOpenChange, onAdded, onCreateAlbum }: AddToAlbumProps) => {
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+  const { resolveMasterKey } = useEncryption();
+
+  const handleAdd = async (opened: OpenedAlbum) => {
+    if (!photo) return;
+
+    setAddingTo(opened.album.id);
+    try {
+      await addPhotosToAlbum(opened, [photo], resolveMasterKey);
+      toast.success(`Added to ${opened.metadata.name}`);
+      onAdded(opened);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Add to album error:", error);
+      toast.error("Failed to add photo to album");
+    } finally {
+      setAddingTo(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!photo} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Images className="h-5 w-5 text-primary" />
+            Add to Album
+          </DialogTitle>
+          <DialogDescription>The photo stays in your library and can be in several albums.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 mt-4">
+          {albums.map((opened) => (
+            <Button
+              key={opened.album.id}
+              variant="outline"
+              onClick={() => handleAdd(opened)}
+              disabled={addingTo !== null}
+              className="w-full justify-start border-border hover:bg-secondary/80"
+            >
+              {addingTo === opened.album.id ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Images className="h-4 w-4 mr-2" />
+              )}
+              <span className="truncate">{opened.metadata.name}</span>
+            </Button>
+          ))}
+
+          <Button
+            variant="ghost"
+            onClick={onCreateAlbum}
+            disabled={addingTo !== null}
+            className="w-full justify-start"
+          >
+            <FolderPlus className="h-4 w-4 mr-2" />
+            New album
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,62 @@
+import { FolderPlus, Images } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { OpenedAlbum } from "@/lib/albums";
+
+interface AlbumBarProps {
+  albums: OpenedAlbum[];
+  activeAlbumId: string | null;
+  coverUrl: (album: OpenedAlbum) => string | undefined;
+  onSelect: (albumId: string | null) => void;
+  onCreate: () => void;
+}
+
+export const AlbumBar = ({ albums, activeAlbumId, coverUrl, onSelect, onCreate }: AlbumBarProps) => {
+  const tile = (active: boolean) =>
+    cn(
+      "flex-shrink-0 w-28 rounded-lg border bg-card overflow-hidden text-left transition-all duration-300",
+      active ? "border-primary shadow-[var(--shadow-glow)]" : "border-border hover:border-primary/50"
+    );
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2 mb-6">
+      <button type="button" className={tile(activeAlbumId === null)} onClick={() => onSelect(null)}>
+        <div className="aspect-square flex items-center justify-center bg-secondary/20">
+          <Images className="h-8 w-8 text-primary" />
+        </div>
+        <p className="px-2 py-1.5 text-sm font-medium truncate text-foreground">All photos</p>
+      </button>
+
+      {albums.map((opened) => {
+        const url = coverUrl(opened);
+
+        return (
+          <button
+            key={opened.album.id}
+            type="button"
+            className={tile(activeAlbumId === opened.album.id)}
+            onClick={() => onSelect(opened.album.id)}
+          >
+            <div className="aspect-square flex items-center justify-center bg-secondary/20">
+              {url ? (
+                <img src={url} alt={opened.metadata.name} className="w-full h-full object-cover" />
+              ) : (
+                <Images className="h-8 w-8 text-muted-foreground" />
+              )}
+            </div>
+            <p className="px-2 py-1.5 text-sm font-medium truncate text-foreground">{opened.metadata.name}</p>
+          </button>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        onClick={onCreate}
+        className="flex-shrink-0 w-28 h-auto flex-col gap-2 border-dashed border-border hover:bg-secondary/80"
+      >
+        <FolderPlus className="h-6 w-6" />
+        New album
+      </Button>
+    </div>
+  );
+};
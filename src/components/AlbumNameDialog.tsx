@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { FolderPlus, Loader2, Pencil } from "lucide-react";
+
+interface AlbumNameDialogProps {
+  open: boolean;
+  // The current name when renaming, null when creating
+  initialName: string | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (name: string) => Promise<void>;
+}
+
+export const AlbumNameDialog = ({ open, initialName, onOpenChange, onSubmit }: AlbumNameDialogProps) => {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const renaming = initialName !== null;
+
+  useEffect(() => {
+    if (open) setName(initialName ?? "");
+  }, [open, initialName]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit(name.trim());
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Album save error:", error);
+      toast.error(renaming ? "Failed to rename album" : "Failed to create album");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            {renaming ? <Pencil className="h-5 w-5 text-primary" /> : <FolderPlus className="h-5 w-5 text-primary" />}
+            {renaming ? "Rename Album" : "New Album"}
+          </DialogTitle>
+          <DialogDescription>Album names are encrypted like your photo titles.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="album-name">Name</Label>
+            <Input
+              id="album-name"
+              placeholder="Summer 2025"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              autoFocus
+              className="bg-secondary/50 border-border"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : renaming ? (
+              "Rename"
+            ) : (
+              "Create album"
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
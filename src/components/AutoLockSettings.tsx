@@ -0,0 +1,78 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Timer } from "lucide-react";
+import { useEncryption } from "@/hooks/useEncryption";
+
+interface AutoLockSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const IDLE_OPTIONS = [
+  { value: "1", label: "After 1 minute" },
+  { value: "5", label: "After 5 minutes" },
+  { value: "15", label: "After 15 minutes" },
+  { value: "30", label: "After 30 minutes" },
+  { value: "60", label: "After 1 hour" },
+  { value: "never", label: "Never" },
+];
+
+export const AutoLockSettings = ({ open, onOpenChange }: AutoLockSettingsProps) => {
+  const { autoLock, setAutoLock } = useEncryption();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Timer className="h-5 w-5 text-primary" />
+            Auto-Lock
+          </DialogTitle>
+          <DialogDescription>
+            Locking forgets the vault key and every decrypted photo on this device.
+            Your passphrase or a passkey is needed to unlock again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="idle-timeout">Lock when idle</Label>
+            <Select
+              value={autoLock.idleMinutes ? String(autoLock.idleMinutes) : "never"}
+              onValueChange={(value) =>
+                setAutoLock({ ...autoLock, idleMinutes: value === "never" ? null : Number(value) })
+              }
+            >
+              <SelectTrigger id="idle-timeout" className="bg-secondary/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IDLE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="lock-on-hide">Lock when the tab is hidden</Label>
+              <p className="text-xs text-muted-foreground">
+                Switching tabs, minimising the window or locking the screen locks the vault.
+              </p>
+            </div>
+            <Switch
+              id="lock-on-hide"
+              checked={autoLock.lockOnHide}
+              onCheckedChange={(checked) => setAutoLock({ ...autoLock, lockOnHide: checked })}
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
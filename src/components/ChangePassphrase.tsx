@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { KeyRound, Loader2 } from "lucide-react";
+import { KdfSelector } from "@/components/KdfSelector";
+import { useEncryption } from "@/hooks/useEncryption";
+import { DEFAULT_KDF_PARAMS, KdfParams } from "@/lib/encryption";
+
+interface ChangePassphraseProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ChangePassphrase = ({ open, onOpenChange }: ChangePassphraseProps) => {
+  const [currentPassphrase, setCurrentPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [rotateMasterKey, setRotateMasterKey] = useState(true);
+  const [kdfParams, setKdfParams] = useState<KdfParams>(DEFAULT_KDF_PARAMS);
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const { rotationPending, changePassphrase, resumeRotation } = useEncryption();
+
+  const handleProgress = (done: number, total: number) => {
+    setProgress({ done, total });
+  };
+
+  const resetForm = () => {
+    setCurrentPassphrase("");
+    setNewPassphrase("");
+    setConfirmPassphrase("");
+    setProgress(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassphrase.length < 8) {
+      toast.error("Passphrase must be at least 8 characters");
+      return;
+    }
+
+    if (newPassphrase !== confirmPassphrase) {
+      toast.error("New passphrases do not match");
+      return;
+    }
+
+    setWorking(true);
+    try {
+      await changePassphrase(currentPassphrase, newPassphrase, rotateMasterKey, kdfParams, handleProgress);
+      toast.success("Passphrase changed");
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Change passphrase error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to change passphrase");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleResume = async () => {
+    setWorking(true);
+    try {
+      await resumeRotation(handleProgress);
+      toast.success("Key rotation complete");
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Resume rotation error:", error);
+      toast.error("Failed to finish key rotation");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !working && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[500px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            {rotationPending ? "Finish Key Rotation" : "Change Passphrase"}
+          </DialogTitle>
+          <DialogDescription>
+            {rotationPending
+              ? "A previous key rotation was interrupted. Resume it to re-wrap the remaining photos."
+              : "Your photos stay encrypted. Only the keys protecting them are re-wrapped."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {rotationPending ? (
+          <div className="space-y-4 mt-4">
+            {progress && (
+              <div className="space-y-2">
+                <Progress value={progress.total ? (progress.done / progress.total) * 100 : 100} />
+                <p className="text-xs text-muted-foreground">
+                  {progress.done} of {progress.total} photos and versions re-wrapped
+                </p>
+              </div>
+            )}
+            <Button
+              onClick={handleResume}
+              disabled={working}
+              className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+            >
+              {working ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Rotating keys...
+                </>
+              ) : (
+                "Resume Rotation"
+              )}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="current-passphrase">Current Passphrase</Label>
+              <Input
+                id="current-passphrase"
+                type="password"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                required
+                className="bg-secondary/50 border-border"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="new-passphrase">New Passphrase</Label>
+              <Input
+                id="new-passphrase"
+                type="password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                required
+                minLength={8}
+                className="bg-secondary/50 border-border"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirm-passphrase">Confirm New Passphrase</Label>
+              <Input
+                id="confirm-passphrase"
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                required
+                minLength={8}
+                className="bg-secondary/50 border-border"
+              />
+            </div>
+
+            <KdfSelector value={kdfParams} onChange={setKdfParams} disabled={working} />
+
+            <div className="flex items-start gap-3 bg-secondary/30 p-4 rounded-lg">
+              <Checkbox
+                id="rotate-master-key"
+                checked={rotateMasterKey}
+                onCheckedChange={(checked) => setRotateMasterKey(checked === true)}
+                disabled={working}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="rotate-master-key">Also rotate the master key</Label>
+                <p className="text-xs text-muted-foreground">
+                  Re-wraps the key of every photo, version and album. Recommended if you think your
+                  old passphrase was exposed. Safe to resume if this tab closes.
+                </p>
+              </div>
+            </div>
+
+            {progress && (
+              <div className="space-y-2">
+                <Progress value={progress.total ? (progress.done / progress.total) * 100 : 100} />
+                <p className="text-xs text-muted-foreground">
+                  {progress.done} of {progress.total} photos and versions re-wrapped
+                </p>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={working}
+              className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+            >
+              {working ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Updating keys...
+                </>
+              ) : (
+                "Change Passphrase"
+              )}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
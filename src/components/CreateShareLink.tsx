@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Copy, Link2, Loader2 } from "lucide-react";
+import { useEncryption } from "@/hooks/useEncryption";
+import { objectAad, unwrapKey } from "@/lib/encryption";
+import { createShareLink } from "@/lib/shareLinks";
+
+interface CreateShareLinkProps {
+  photo: { id: string; user_id: string; wrapped_key: string | null; master_key_id: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CreateShareLink = ({ photo, onOpenChange }: CreateShareLinkProps) => {
+  const [expiry, setExpiry] = useState("7");
+  const [maxViews, setMaxViews] = useState("");
+  const [password, setPassword] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [link, setLink] = useState<string | null>(null);
+  const { resolveMasterKey } = useEncryption();
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!photo?.wrapped_key) return;
+
+    const views = maxViews ? Number(maxViews) : null;
+    if (views !== null && (!Number.isInteger(views) || views < 1)) {
+      toast.error("View limit must be a whole number above zero");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const masterKey = resolveMasterKey(photo.master_key_id);
+      if (!masterKey) throw new Error("Unlock the vault first");
+
+      const aad = objectAad({ userId: photo.user_id, photoId: photo.id, version: 0 });
+      const dataKey = await unwrapKey(photo.wrapped_key, masterKey, { aad, requireAad: true });
+      const url = await createShareLink(photo, dataKey, {
+        expiresAt: expiry === "never" ? null : new Date(Date.now() + Number(expiry) * DAY_MS),
+        maxViews: views,
+        password: password || null,
+      });
+
+      setLink(url);
+    } catch (error) {
+      console.error("Share link error:", error);
+      toast.error("Failed to create link");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    toast.success("Link copied");
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      // The link's key is only ever shown once
+      setLink(null);
+      setMaxViews("");
+      setPassword("");
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={!!photo} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Link2 className="h-5 w-5 text-primary" />
+            Create Link
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this photo without an account. The key is part of the
+            link itself and is never sent to PhotoVault.
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="space-y-4 mt-4">
+            <div className="flex gap-2">
+              <Input readOnly value={link} onFocus={(e) => e.target.select()} className="bg-secondary/50 border-border" />
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Copy the link now. It cannot be shown again, though you can revoke it from Links.
+            </p>
+            <Button onClick={() => handleOpenChange(false)} className="w-full">
+              Done
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="link-expiry">Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="link-expiry" className="bg-secondary/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="link-views">View limit (optional)</Label>
+              <Input
+                id="link-views"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={maxViews}
+                onChange={(e) => setMaxViews(e.target.value)}
+                className="bg-secondary/50 border-border"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="link-password">Password (optional)</Label>
+              <Input
+                id="link-password"
+                type="password"
+                placeholder="Share this separately from the link"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="bg-secondary/50 border-border"
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={creating}
+              className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+            >
+              {creating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                "Create link"
+              )}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Loader2, Users } from "lucide-react";
+import { useSpaces } from "@/hooks/useSpaces";
+
+interface CreateSpaceProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const CreateSpace = ({ open, onOpenChange }: CreateSpaceProps) => {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { createSpace, setActiveSpaceId } = useSpaces();
+
+  useEffect(() => {
+    if (open) setName("");
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const created = await createSpace(name.trim());
+      setActiveSpaceId(created.space.id);
+      toast.success("Space created");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Create space error:", error);
+      toast.error("Failed to create space");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            New Space
+          </DialogTitle>
+          <DialogDescription>
+            A space is a vault you share with other accounts. Everything in it is encrypted under a key only its
+            members hold.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="space-name">Name</Label>
+            <Input
+              id="space-name"
+              placeholder="Family"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              autoFocus
+              className="bg-secondary/50 border-border"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              "Create space"
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
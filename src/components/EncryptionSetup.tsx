@@ -1,18 +1,46 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, Loader2 } from "lucide-react";
+import { Shield, Loader2, Lock, LifeBuoy, Fingerprint } from "lucide-react";
+import { KdfSelector } from "@/components/KdfSelector";
 import { useEncryption } from "@/hooks/useEncryption";
+import { DEFAULT_KDF_PARAMS, KdfParams } from "@/lib/encryption";
+import { isPasskeySupported } from "@/lib/passkey";
+import { IncorrectPassphraseError } from "@/lib/vault";
 import { toast } from "sonner";
 
+type SetupMode = "checking" | "create" | "unlock" | "recover";
+
 export const EncryptionSetup = () => {
+  const [mode, setMode] = useState<SetupMode>("checking");
   const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [mnemonic, setMnemonic] = useState("");
+  const [kdfParams, setKdfParams] = useState<KdfParams>(DEFAULT_KDF_PARAMS);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const { setupEncryption } = useEncryption();
+  const [hasPasskeys, setHasPasskeys] = useState(false);
+  const { hasVault, createVault, unlockVault, recoverVault, listPasskeys, unlockWithPasskey } = useEncryption();
+
+  useEffect(() => {
+    hasVault()
+      .then((exists) => setMode(exists ? "unlock" : "create"))
+      .catch((error) => {
+        console.error("Vault check error:", error);
+        toast.error("Failed to check encryption status");
+      });
 
-  const handleSubmit = async (e: React.FormEvent) => {
+    if (isPasskeySupported()) {
+      listPasskeys()
+        .then((passkeys) => setHasPasskeys(passkeys.length > 0))
+        .catch((error) => console.error("Passkey check error:", error));
+    }
+  }, [hasVault, listPasskeys]);
+
+  const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (passphrase.length < 8) {
@@ -20,9 +48,14 @@ export const EncryptionSetup = () => {
       return;
     }
 
+    if (passphrase !== confirmPassphrase) {
+      toast.error("Passphrases do not match");
+      return;
+    }
+
     setLoading(true);
     try {
-      await setupEncryption(passphrase);
+      await createVault(passphrase, kdfParams);
     } catch (error) {
       console.error("Setup error:", error);
     } finally {
@@ -30,6 +63,255 @@ export const EncryptionSetup = () => {
     }
   };
 
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    setUnlockError(null);
+    try {
+      await unlockVault(passphrase);
+    } catch (error) {
+      console.error("Unlock error:", error);
+      if (error instanceof IncorrectPassphraseError) {
+        setUnlockError("That passphrase doesn't match this vault. Please try again.");
+        setPassphrase("");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePasskeyUnlock = async () => {
+    setLoading(true);
+    setUnlockError(null);
+    try {
+      await unlockWithPasskey();
+    } catch (error) {
+      console.error("Passkey unlock error:", error);
+      // Dismissing the browser prompt leaves the passphrase form as it was
+      if (!(error instanceof DOMException && error.name === "NotAllowedError")) {
+        setUnlockError(error instanceof Error ? error.message : "Failed to unlock with passkey");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passphrase.length < 8) {
+      toast.error("Passphrase must be at least 8 characters");
+      return;
+    }
+
+    if (passphrase !== confirmPassphrase) {
+      toast.error("Passphrases do not match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await recoverVault(mnemonic, passphrase);
+    } catch (error) {
+      console.error("Recovery error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to recover vault");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (next: SetupMode) => {
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setMnemonic("");
+    setUnlockError(null);
+    setMode(next);
+  };
+
+  if (mode === "checking") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (mode === "unlock") {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+        <div className="absolute inset-0 bg-[var(--gradient-mesh)] opacity-50" />
+
+        <Card className="w-full max-w-md relative z-10 border-border/50 shadow-[var(--shadow-elegant)]">
+          <CardHeader className="space-y-2 text-center">
+            <div className="flex justify-center mb-4">
+              <div className="p-3 rounded-2xl bg-primary/10">
+                <Lock className="h-10 w-10 text-primary" />
+              </div>
+            </div>
+            <CardTitle className="text-3xl font-bold bg-[var(--gradient-primary)] bg-clip-text text-transparent">
+              Unlock Vault
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Enter your encryption passphrase to decrypt your photos.
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="passphrase">Encryption Passphrase</Label>
+                <Input
+                  id="passphrase"
+                  type="password"
+                  placeholder="Enter your passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  required
+                  autoFocus
+                  aria-invalid={!!unlockError}
+                  className="bg-secondary/50 border-border"
+                />
+                {unlockError && (
+                  <p className="text-sm text-destructive">{unlockError}</p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity shadow-[var(--shadow-glow)]"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Unlocking...
+                  </>
+                ) : (
+                  "Unlock"
+                )}
+              </Button>
+            </form>
+
+            {hasPasskeys && (
+              <Button
+                variant="outline"
+                onClick={handlePasskeyUnlock}
+                disabled={loading}
+                className="w-full mt-3 border-border hover:bg-secondary/80"
+              >
+                <Fingerprint className="h-4 w-4 mr-2" />
+                Unlock with passkey
+              </Button>
+            )}
+
+            <div className="mt-6 text-center">
+              <button
+                onClick={() => switchMode("recover")}
+                className="text-sm text-muted-foreground hover:text-primary transition-colors"
+              >
+                Forgot your passphrase? Use your recovery key
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (mode === "recover") {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+        <div className="absolute inset-0 bg-[var(--gradient-mesh)] opacity-50" />
+
+        <Card className="w-full max-w-md relative z-10 border-border/50 shadow-[var(--shadow-elegant)]">
+          <CardHeader className="space-y-2 text-center">
+            <div className="flex justify-center mb-4">
+              <div className="p-3 rounded-2xl bg-primary/10">
+                <LifeBuoy className="h-10 w-10 text-primary" />
+              </div>
+            </div>
+            <CardTitle className="text-3xl font-bold bg-[var(--gradient-primary)] bg-clip-text text-transparent">
+              Recover Vault
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Enter the 24 words of your recovery key and choose a new passphrase.
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <form onSubmit={handleRecover} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mnemonic">Recovery Key</Label>
+                <Textarea
+                  id="mnemonic"
+                  placeholder="word1 word2 word3 ..."
+                  value={mnemonic}
+                  onChange={(e) => setMnemonic(e.target.value)}
+                  required
+                  rows={4}
+                  autoComplete="off"
+                  spellCheck={false}
+                  className="bg-secondary/50 border-border resize-none font-mono"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="new-passphrase">New Passphrase</Label>
+                <Input
+                  id="new-passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  required
+                  minLength={8}
+                  className="bg-secondary/50 border-border"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirm-new-passphrase">Confirm New Passphrase</Label>
+                <Input
+                  id="confirm-new-passphrase"
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  required
+                  minLength={8}
+                  className="bg-secondary/50 border-border"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity shadow-[var(--shadow-glow)]"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Recovering...
+                  </>
+                ) : (
+                  "Recover and Set Passphrase"
+                )}
+              </Button>
+            </form>
+
+            <div className="mt-6 text-center">
+              <button
+                onClick={() => switchMode("unlock")}
+                className="text-sm text-muted-foreground hover:text-primary transition-colors"
+              >
+                Back to unlock
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
       <div className="absolute inset-0 bg-[var(--gradient-mesh)] opacity-50" />
@@ -50,7 +332,7 @@ export const EncryptionSetup = () => {
         </CardHeader>
         
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
+          <form onSubmit={handleCreate} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="passphrase">Encryption Passphrase</Label>
               <Input
@@ -67,6 +349,22 @@ export const EncryptionSetup = () => {
                 Minimum 8 characters. This passphrase will be used to encrypt all your photos.
               </p>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirm-passphrase">Confirm Passphrase</Label>
+              <Input
+                id="confirm-passphrase"
+                type="password"
+                placeholder="Enter it again"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                required
+                minLength={8}
+                className="bg-secondary/50 border-border"
+              />
+            </div>
+
+            <KdfSelector value={kdfParams} onChange={setKdfParams} disabled={loading} />
             
             <div className="bg-secondary/30 p-4 rounded-lg space-y-2">
               <h4 className="font-semibold text-sm flex items-center gap-2">
@@ -76,7 +374,7 @@ export const EncryptionSetup = () => {
               <ul className="text-xs text-muted-foreground space-y-1 list-disc list-inside">
                 <li>Your photos are encrypted before leaving your device</li>
                 <li>Only you can decrypt them with your passphrase</li>
-                <li>If you lose your passphrase, your photos cannot be recovered</li>
+                <li>If you lose your passphrase, only a recovery key can restore access</li>
                 <li>No one, including admins, can access your encrypted photos</li>
               </ul>
             </div>
@@ -9,7 +9,10 @@ import { toast } from "sonner";
 import { pipeline, env } from '@huggingface/transformers';
 import { supabase } from "@/integrations/supabase/client";
 import { VersionHistory } from "./VersionHistory";
-import { encryptFile, createEncryptedBlob } from "@/lib/encryption";
+import { encryptFile, objectAad } from "@/lib/encryption";
+import { MetadataPolicy, copyMetadata } from "@/lib/exif";
+import { encryptMetadata } from "@/lib/metadata";
+import { encryptThumbnails, storeThumbnails, thumbnailPaths } from "@/lib/thumbnails";
 import { useEncryption } from "@/hooks/useEncryption";
 
 // Configure transformers.js
@@ -22,6 +25,10 @@ interface ImageEditorProps {
   photoId: string;
   imageUrl: string;
   alt: string;
+  // Original filename from the encrypted file info, used to name exports
+  fileName?: string;
+  // Chosen when the original was uploaded, and applied to its versions too
+  metadataPolicy?: MetadataPolicy;
   onClose: () => void;
 }
 
@@ -66,7 +73,9 @@ const filterPresets = {
   },
 };
 
-export const ImageEditor = ({ photoId, imageUrl, alt, onClose }: ImageEditorProps) => {
+export const ImageEditor = ({ photoId, imageUrl, alt, fileName, metadataPolicy = "keep", onClose }: ImageEditorProps) => {
+  const baseName = fileName ? fileName.replace(/\.[^.]+$/, "") : null;
+
   const [selectedFilter, setSelectedFilter] = useState<keyof typeof filterPresets>("none");
   const [adjustments, setAdjustments] = useState<Adjustments>({
     exposure: 0,
@@ -81,9 +90,18 @@ export const ImageEditor = ({ photoId, imageUrl, alt, onClose }: ImageEditorProp
   const [isRemovingBackground, setIsRemovingBackground] = useState(false);
   const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const { encryptionKey } = useEncryption();
+  const { masterKey, masterKeyId } = useEncryption();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
+  // Stops saving a version if the editor closes while it is being encrypted.
+  // Locking the vault stops it too, by cancelling everything in the crypto pool.
+  const encryptAbort = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    encryptAbort.current = controller;
+    return () => controller.abort();
+  }, []);
 
   useEffect(() => {
     if (imageRef.current && canvasRef.current) {
@@ -213,7 +231,7 @@ export const ImageEditor = ({ photoId, imageUrl, alt, onClose }: ImageEditorProp
         const url = URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
-        a.download = `edited-${Date.now()}.png`;
+        a.download = baseName ? `${baseName}-edited.png` : `edited-${Date.now()}.png`;
         a.click();
         URL.revokeObjectURL(url);
         toast.success("Image downloaded");
@@ -301,7 +319,7 @@ export const ImageEditor = ({ photoId, imageUrl, alt, onClose }: ImageEditorProp
   };
 
   const saveVersion = async () => {
-    if (!canvasRef.current || !encryptionKey) {
+    if (!canvasRef.current || !masterKey) {
       toast.error("Unable to save version");
       return;
     }
@@ -324,16 +342,27 @@ export const ImageEditor = ({ photoId, imageUrl, alt, onClose }: ImageEditorProp
         : 1;
 
       // Convert canvas to blob
-      const blob = await new Promise<Blob>((resolve) => {
+      const edited = await new Promise<Blob>((resolve) => {
         canvasRef.current!.toBlob((b) => resolve(b!), "image/png");
       });
 
-      // Convert blob to file for encryption
-      const file = new File([blob], `version-${nextVersionNumber}.png`, { type: "image/png" });
+      // The canvas drops the original's EXIF; carry over what the policy keeps
+      const original = await (await fetch(imageUrl)).blob();
+      const blob = await copyMetadata(original, edited, metadataPolicy);
 
-      // Encrypt the file
-      const { encryptedData, iv } = await encryptFile(file, encryptionKey);
-      const encryptedBlob = createEncryptedBlob(encryptedData, iv);
+      // Convert blob to file for encryption
+      const versionName = baseName
+        ? `${baseName}-v${nextVersionNumber}.png`
+        : `version-${nextVersionNumber}.png`;
+      const file = new File([blob], versionName, { type: "image/png" });
+
+      // Encrypt the file, bound to this photo and version number
+      const binding = { userId: user.id, photoId, version: nextVersionNumber };
+      const aad = objectAad(binding);
+      const { encryptedBlob, wrappedKey, dataKey } = await encryptFile(file, masterKey, {
+        aad,
+        signal: encryptAbort.current?.signal,
+      });
 
       // Upload to storage
       const storagePath = `${user.id}/versions/${photoId}-v${nextVersionNumber}-${Date.now()}.enc`;
@@ -343,10 +372,9 @@ export const ImageEditor = ({ photoId, imageUrl, alt, onClose }: ImageEditorProp
 
       if (uploadError) throw uploadError;
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from("photos")
-        .getPublicUrl(storagePath);
+      // Thumbnails for the version list, under the version's own data key
+      const thumbnails = await encryptThumbnails(blob, dataKey, binding);
+      await storeThumbnails(thumbnails);
 
       // Save version record
       const { error: dbError } = await supabase
@@ -356,17 +384,23 @@ export const ImageEditor = ({ photoId, imageUrl, alt, onClose }: ImageEditorProp
           user_id: user.id,
           version_number: nextVersionNumber,
           storage_path: storagePath,
-          url: publicUrl,
-          edit_metadata: {
-            filter: selectedFilter,
-            adjustments
-          }
-        } as any);
+          thumbnail_paths: thumbnailPaths(thumbnails),
+          wrapped_key: wrappedKey,
+          master_key_id: masterKeyId,
+          encrypted_metadata: await encryptMetadata(
+            { filter: selectedFilter, adjustments: { ...adjustments } },
+            dataKey,
+            aad
+          ),
+          aad_bound: true,
+        });
 
       if (dbError) throw dbError;
 
       toast.success("Version saved successfully!");
     } catch (error: any) {
+      // Cancelled because the component went away
+      if (error?.name === "AbortError") return;
       console.error("Save version error:", error);
       toast.error("Failed to save version");
     } finally {
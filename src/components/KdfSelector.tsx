@@ -0,0 +1,49 @@
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ARGON2ID_KDF_PARAMS, KdfParams, PBKDF2_KDF_PARAMS } from "@/lib/encryption";
+
+interface KdfSelectorProps {
+  value: KdfParams;
+  onChange: (params: KdfParams) => void;
+  disabled?: boolean;
+}
+
+const KDF_OPTIONS: { params: KdfParams; label: string; description: string }[] = [
+  {
+    params: ARGON2ID_KDF_PARAMS,
+    label: "Argon2id (recommended)",
+    description: `Memory-hard, uses ${ARGON2ID_KDF_PARAMS.memoryKiB / 1024} MiB per unlock. Much harder to crack on GPUs.`,
+  },
+  {
+    params: PBKDF2_KDF_PARAMS,
+    label: "PBKDF2-SHA256",
+    description: "Lighter on memory for older devices, but weaker against GPU cracking.",
+  },
+];
+
+export const KdfSelector = ({ value, onChange, disabled }: KdfSelectorProps) => {
+  return (
+    <div className="space-y-2">
+      <Label>Key Derivation</Label>
+      <RadioGroup
+        value={value.algorithm}
+        onValueChange={(algorithm) => {
+          const option = KDF_OPTIONS.find((o) => o.params.algorithm === algorithm);
+          if (option) onChange(option.params);
+        }}
+        disabled={disabled}
+        className="gap-3"
+      >
+        {KDF_OPTIONS.map(({ params, label, description }) => (
+          <div key={params.algorithm} className="flex items-start gap-3">
+            <RadioGroupItem value={params.algorithm} id={`kdf-${params.algorithm}`} className="mt-0.5" />
+            <div className="space-y-1">
+              <Label htmlFor={`kdf-${params.algorithm}`}>{label}</Label>
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Fingerprint, Loader2, Trash2 } from "lucide-react";
+import { useEncryption } from "@/hooks/useEncryption";
+import { isPasskeySupported } from "@/lib/passkey";
+import type { DeviceKey } from "@/lib/vault";
+
+interface PasskeysProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const Passkeys = ({ open, onOpenChange }: PasskeysProps) => {
+  const [passkeys, setPasskeys] = useState<DeviceKey[]>([]);
+  const [label, setLabel] = useState("");
+  const [registering, setRegistering] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const { listPasskeys, registerPasskey, removePasskey } = useEncryption();
+  const supported = isPasskeySupported();
+
+  const loadPasskeys = useCallback(() => {
+    listPasskeys()
+      .then(setPasskeys)
+      .catch((error) => console.error("Passkey list error:", error));
+  }, [listPasskeys]);
+
+  useEffect(() => {
+    if (open) loadPasskeys();
+  }, [open, loadPasskeys]);
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setRegistering(true);
+    try {
+      await registerPasskey(label.trim() || "Passkey");
+      toast.success("Passkey added");
+      setLabel("");
+      loadPasskeys();
+    } catch (error) {
+      console.error("Passkey registration error:", error);
+      // Dismissing the browser prompt is not an error worth reporting
+      if (!(error instanceof DOMException && error.name === "NotAllowedError")) {
+        toast.error(error instanceof Error ? error.message : "Failed to add passkey");
+      }
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setRemovingId(id);
+    try {
+      await removePasskey(id);
+      setPasskeys((prev) => prev.filter((passkey) => passkey.id !== id));
+      toast.success("Passkey removed");
+    } catch (error) {
+      console.error("Passkey removal error:", error);
+      toast.error("Failed to remove passkey");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Fingerprint className="h-5 w-5 text-primary" />
+            Passkeys
+          </DialogTitle>
+          <DialogDescription>
+            Unlock with Touch ID, Windows Hello or a security key instead of typing your
+            passphrase. Your passphrase keeps working as a fallback.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-4">
+          {passkeys.length > 0 ? (
+            <ul className="space-y-2">
+              {passkeys.map((passkey) => (
+                <li
+                  key={passkey.id}
+                  className="flex items-center justify-between gap-3 bg-secondary/30 p-3 rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{passkey.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Added {new Date(passkey.createdAt).toLocaleDateString()}
+                      {passkey.lastUsedAt &&
+                        ` · Last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(passkey.id)}
+                    disabled={removingId === passkey.id}
+                    title="Remove passkey"
+                  >
+                    {removingId === passkey.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="bg-secondary/30 p-4 rounded-lg text-sm text-muted-foreground">
+              No passkeys yet. Each passkey you add can unlock the vault on its own.
+            </p>
+          )}
+
+          {supported ? (
+            <form onSubmit={handleRegister} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="passkey-label">Name</Label>
+                <Input
+                  id="passkey-label"
+                  placeholder="e.g. MacBook Touch ID"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  maxLength={64}
+                  className="bg-secondary/50 border-border"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                disabled={registering}
+                className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+              >
+                {registering ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Waiting for passkey...
+                  </>
+                ) : (
+                  "Add Passkey"
+                )}
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,24 +1,85 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
-import { Loader2, Trash2, Shield, Pencil } from "lucide-react";
+import {
+  Loader2,
+  Trash2,
+  Shield,
+  Pencil,
+  Download,
+  Share2,
+  Link2,
+  FolderPlus,
+  FolderMinus,
+  Star,
+  ChevronLeft,
+  ChevronRight,
+  Camera,
+  MapPin,
+} from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "./ui/button";
 import { useEncryption } from "@/hooks/useEncryption";
-import { extractFromBlob, decryptData } from "@/lib/encryption";
+import { useSpaces } from "@/hooks/useSpaces";
+import { FileInfo, TamperError, decryptFile, objectAad } from "@/lib/encryption";
+import { formatExposure } from "@/lib/exif";
+import { PhotoMetadata, decryptMetadata } from "@/lib/metadata";
+import { openObjectStream } from "@/lib/storage";
+import { listThumbnailPaths, openThumbnail } from "@/lib/thumbnails";
+import {
+  AlbumPhoto,
+  OpenedAlbum,
+  addPhotosToAlbum,
+  createAlbum,
+  deleteAlbum,
+  listAlbumPhotos,
+  listAlbums,
+  openAlbum,
+  removePhotoFromAlbum,
+  reorderAlbumPhotos,
+  updateAlbumMetadata,
+} from "@/lib/albums";
+import { formatBytes } from "@/lib/utils";
 import { PhotoViewer } from "./PhotoViewer";
 import { ImageEditor } from "./ImageEditor";
+import { SharePhoto } from "./SharePhoto";
+import { CreateShareLink } from "./CreateShareLink";
+import { AlbumBar } from "./AlbumBar";
+import { AlbumNameDialog } from "./AlbumNameDialog";
+import { AddToAlbum } from "./AddToAlbum";
 
 interface Photo {
   id: string;
-  title: string | null;
-  description: string | null;
-  url: string;
+  user_id: string;
+  encrypted_metadata: string | null;
   storage_path: string;
+  thumbnail_paths: Json | null;
+  wrapped_key: string | null;
+  master_key_id: string | null;
+  space_id: string | null;
+  space_key_version: number | null;
   created_at: string;
 }
 
+// Tiles are a few hundred pixels across, so this picks a size that stays
+// sharp on high density screens
+const TILE_PIXELS = 512;
+
+const photoBinding = (photo: Photo) => ({ userId: photo.user_id, photoId: photo.id, version: 0 });
+
+const reportDecryptError = (error: unknown) => {
+  if (error instanceof DOMException && error.name === "AbortError") return;
+  console.error("Decryption error:", error);
+  // One toast for the whole grid rather than one per photo
+  if (error instanceof TamperError) {
+    toast.error("A photo failed its integrity check and was not shown", { id: "tamper-error" });
+  } else {
+    toast.error("Failed to decrypt photo", { id: "decrypt-error" });
+  }
+};
+
 interface PhotoGalleryProps {
   refreshTrigger: number;
 }
@@ -28,32 +89,99 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
   const [loading, setLoading] = useState(true);
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const [editingPhoto, setEditingPhoto] = useState<Photo | null>(null);
+  const [sharingPhoto, setSharingPhoto] = useState<Photo | null>(null);
+  const [linkingPhoto, setLinkingPhoto] = useState<Photo | null>(null);
+  const [addingToAlbum, setAddingToAlbum] = useState<Photo | null>(null);
+  // Added to the album once the New Album dialog it was opened from saves
+  const [pendingAlbumPhoto, setPendingAlbumPhoto] = useState<Photo | null>(null);
+  const [albums, setAlbums] = useState<OpenedAlbum[]>([]);
+  const [activeAlbumId, setActiveAlbumId] = useState<string | null>(null);
+  const [albumPhotos, setAlbumPhotos] = useState<AlbumPhoto[]>([]);
+  const [albumNameDialog, setAlbumNameDialog] = useState<"create" | "rename" | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  // Originals, decrypted once a photo is opened, and the thumbnails tiles show
   const [decryptedImages, setDecryptedImages] = useState<Map<string, string>>(new Map());
+  const [thumbnailUrls, setThumbnailUrls] = useState<Map<string, string>>(new Map());
   const [decrypting, setDecrypting] = useState<Set<string>>(new Set());
-  const { encryptionKey } = useEncryption();
+  const [photoMetadata, setPhotoMetadata] = useState<Map<string, PhotoMetadata>>(new Map());
+  const [fileInfo, setFileInfo] = useState<Map<string, FileInfo>>(new Map());
+  const { masterKey, masterKeyId, resolveMasterKey, createObjectUrl } = useEncryption();
+  const { activeSpace } = useSpaces();
+  const activeSpaceId = activeSpace?.space.id ?? null;
+  // Cancels queued and running decryptions when the gallery goes away
+  const decryptAbort = useRef<AbortController | null>(null);
+  const openingOriginals = useRef<Set<string>>(new Set());
+
+  // Space photos are wrapped under a space key version, the rest under a master key
+  const wrappingKeyFor = useCallback(
+    (photo: Photo) =>
+      photo.space_id
+        ? activeSpace?.keys.get(photo.space_key_version ?? 0) ?? null
+        : resolveMasterKey(photo.master_key_id),
+    [activeSpace, resolveMasterKey]
+  );
+
+  const decryptOriginal = useCallback(async (photo: Photo, wrappingKey: CryptoKey) => {
+    const stream = await openObjectStream(photo.storage_path);
 
+    // The download is handed to a crypto worker once one is free and
+    // decrypted there as it arrives; only the plaintext Blob comes back
+    const { blob, info } = await decryptFile(stream, photo.wrapped_key, wrappingKey, {
+      aad: objectAad(photoBinding(photo)),
+      signal: decryptAbort.current?.signal,
+    });
+    const objectUrl = createObjectUrl(blob);
+
+    setDecryptedImages(prev => new Map(prev).set(photo.id, objectUrl));
+    if (info) {
+      setFileInfo(prev => new Map(prev).set(photo.id, info));
+    }
+  }, [createObjectUrl]);
+
+  // Decrypts what a tile shows: the metadata and a thumbnail, or the original
+  // for photos that have no thumbnails
   const decryptPhoto = async (photo: Photo) => {
-    if (!encryptionKey || decryptedImages.has(photo.id) || decrypting.has(photo.id)) {
+    const wrappingKey = wrappingKeyFor(photo);
+    if (
+      !masterKey ||
+      !wrappingKey ||
+      thumbnailUrls.has(photo.id) ||
+      decryptedImages.has(photo.id) ||
+      decrypting.has(photo.id)
+    ) {
       return;
     }
 
     setDecrypting(prev => new Set(prev).add(photo.id));
 
     try {
-      const response = await fetch(photo.url);
-      const blob = await response.blob();
-      
-      const { iv, encryptedData } = await extractFromBlob(blob);
-      const decryptedData = await decryptData(encryptedData, iv, encryptionKey);
-      
-      const decryptedBlob = new Blob([decryptedData]);
-      const objectUrl = URL.createObjectURL(decryptedBlob);
-      
-      setDecryptedImages(prev => new Map(prev).set(photo.id, objectUrl));
+      const binding = photoBinding(photo);
+      if (photo.encrypted_metadata) {
+        const metadata = await decryptMetadata<PhotoMetadata>(
+          photo.encrypted_metadata,
+          photo.wrapped_key,
+          wrappingKey,
+          objectAad(binding)
+        );
+        setPhotoMetadata(prev => new Map(prev).set(photo.id, metadata));
+      }
+
+      const thumbnail = await openThumbnail(
+        photo.thumbnail_paths,
+        TILE_PIXELS,
+        photo.wrapped_key,
+        wrappingKey,
+        binding
+      );
+      if (thumbnail) {
+        const objectUrl = createObjectUrl(thumbnail);
+        setThumbnailUrls(prev => new Map(prev).set(photo.id, objectUrl));
+      } else {
+        await decryptOriginal(photo, wrappingKey);
+      }
     } catch (error) {
-      console.error("Decryption error:", error);
-      toast.error("Failed to decrypt photo");
+      reportDecryptError(error);
     } finally {
       setDecrypting(prev => {
         const next = new Set(prev);
@@ -63,22 +191,39 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
     }
   };
 
+  // The original is only downloaded once a photo is opened
+  const openOriginal = useCallback(async (photo: Photo) => {
+    const wrappingKey = wrappingKeyFor(photo);
+    if (!wrappingKey || decryptedImages.has(photo.id) || openingOriginals.current.has(photo.id)) return;
+
+    openingOriginals.current.add(photo.id);
+    try {
+      await decryptOriginal(photo, wrappingKey);
+    } catch (error) {
+      reportDecryptError(error);
+    } finally {
+      openingOriginals.current.delete(photo.id);
+    }
+  }, [wrappingKeyFor, decryptedImages, decryptOriginal]);
+
   const fetchPhotos = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setUserId(user.id);
 
-      const { data, error } = await supabase
-        .from("photos")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
+      // A space shows everyone's uploads; the personal vault only this account's
+      const query = supabase.from("photos").select("*");
+      const { data, error } = await (activeSpaceId
+        ? query.eq("space_id", activeSpaceId)
+        : query.eq("user_id", user.id).is("space_id", null)
+      ).order("created_at", { ascending: false });
 
       if (error) throw error;
       setPhotos(data || []);
       
       // Start decrypting photos
-      if (encryptionKey && data) {
+      if (masterKey && data) {
         data.forEach(photo => decryptPhoto(photo));
       }
     } catch (error: any) {
@@ -89,6 +234,16 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
     }
   };
 
+  const handleDownload = (photo: Photo) => {
+    const objectUrl = decryptedImages.get(photo.id);
+    if (!objectUrl) return;
+
+    const a = document.createElement("a");
+    a.href = objectUrl;
+    a.download = fileInfo.get(photo.id)?.name || photoMetadata.get(photo.id)?.title || "photo";
+    a.click();
+  };
+
   const handleDelete = async () => {
     if (!selectedPhoto) return;
     
@@ -96,7 +251,7 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
     try {
       const { error: storageError } = await supabase.storage
         .from("photos")
-        .remove([selectedPhoto.storage_path]);
+        .remove([selectedPhoto.storage_path, ...listThumbnailPaths(selectedPhoto.thumbnail_paths)]);
 
       if (storageError) throw storageError;
 
@@ -118,40 +273,203 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
     }
   };
 
+  const fetchAlbums = useCallback(async () => {
+    if (!masterKey) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const opened = await Promise.all(
+        (await listAlbums(user.id)).map((album) =>
+          openAlbum(album, resolveMasterKey).catch((error) => {
+            console.error("Album decryption error:", error);
+            return null;
+          })
+        )
+      );
+      setAlbums(opened.filter((album): album is OpenedAlbum => album !== null));
+    } catch (error) {
+      console.error("Error fetching albums:", error);
+      toast.error("Failed to load albums");
+    }
+  }, [masterKey, resolveMasterKey]);
+
+  const fetchAlbumPhotos = async (albumId: string) => {
+    try {
+      setAlbumPhotos(await listAlbumPhotos(albumId));
+    } catch (error) {
+      console.error("Error fetching album photos:", error);
+      toast.error("Failed to load album");
+    }
+  };
+
+  const activeAlbum = albums.find((opened) => opened.album.id === activeAlbumId) ?? null;
+
+  const replaceAlbum = (updated: OpenedAlbum) => {
+    setAlbums(prev => prev.map((opened) => (opened.album.id === updated.album.id ? updated : opened)));
+  };
+
+  const handleSelectAlbum = (albumId: string | null) => {
+    setAlbumPhotos([]);
+    setActiveAlbumId(albumId);
+  };
+
+  const handleSaveAlbumName = async (name: string) => {
+    if (albumNameDialog === "rename" && activeAlbum) {
+      replaceAlbum(await updateAlbumMetadata(activeAlbum, { ...activeAlbum.metadata, name }));
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !masterKey || !masterKeyId) throw new Error("Unlock the vault first");
+
+    const created = await createAlbum(user.id, { id: masterKeyId, key: masterKey }, name);
+    setAlbums(prev => [...prev, created]);
+
+    if (pendingAlbumPhoto) {
+      await addPhotosToAlbum(created, [pendingAlbumPhoto], resolveMasterKey);
+      setPendingAlbumPhoto(null);
+      toast.success(`Added to ${name}`);
+    } else {
+      toast.success("Album created");
+    }
+  };
+
+  const handleDeleteAlbum = async () => {
+    if (!activeAlbum) return;
+
+    try {
+      await deleteAlbum(activeAlbum.album.id);
+      setAlbums(prev => prev.filter((opened) => opened.album.id !== activeAlbum.album.id));
+      handleSelectAlbum(null);
+      toast.success("Album deleted. Its photos are still in your library.");
+    } catch (error) {
+      console.error("Delete album error:", error);
+      toast.error("Failed to delete album");
+    }
+  };
+
+  const handleSetCover = async (photo: Photo) => {
+    if (!activeAlbum) return;
+
+    try {
+      replaceAlbum(await updateAlbumMetadata(activeAlbum, { ...activeAlbum.metadata, coverPhotoId: photo.id }));
+      toast.success("Album cover updated");
+    } catch (error) {
+      console.error("Album cover error:", error);
+      toast.error("Failed to update album cover");
+    }
+  };
+
+  const handleRemoveFromAlbum = async (photo: Photo) => {
+    if (!activeAlbum) return;
+
+    try {
+      await removePhotoFromAlbum(activeAlbum.album.id, photo.id);
+      setAlbumPhotos(prev => prev.filter((row) => row.photo_id !== photo.id));
+      if (activeAlbum.metadata.coverPhotoId === photo.id) {
+        replaceAlbum(await updateAlbumMetadata(activeAlbum, { ...activeAlbum.metadata, coverPhotoId: null }));
+      }
+      setSelectedPhoto(null);
+      toast.success(`Removed from ${activeAlbum.metadata.name}`);
+    } catch (error) {
+      console.error("Remove from album error:", error);
+      toast.error("Failed to remove photo from album");
+    }
+  };
+
+  const handleMove = async (photoId: string, offset: number) => {
+    if (!activeAlbum) return;
+
+    const from = albumPhotos.findIndex((row) => row.photo_id === photoId);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= albumPhotos.length) return;
+
+    const next = [...albumPhotos];
+    [next[from], next[to]] = [next[to], next[from]];
+    // Only rows whose position changed are written
+    const moves = next.flatMap((row, position) =>
+      row.position === position ? [] : [{ photoId: row.photo_id, position }]
+    );
+    setAlbumPhotos(next.map((row, position) => ({ ...row, position })));
+
+    try {
+      await reorderAlbumPhotos(activeAlbum.album.id, moves);
+    } catch (error) {
+      console.error("Reorder error:", error);
+      toast.error("Failed to save the new order");
+      fetchAlbumPhotos(activeAlbum.album.id);
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    decryptAbort.current = controller;
+    return () => controller.abort();
+  }, []);
+
   useEffect(() => {
     fetchPhotos();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, activeSpaceId]);
+
+  useEffect(() => {
+    // Albums belong to the personal vault
+    setSelectedPhoto(null);
+    handleSelectAlbum(null);
+  }, [activeSpaceId]);
+
+  useEffect(() => {
+    fetchAlbums();
+  }, [fetchAlbums, refreshTrigger]);
+
+  useEffect(() => {
+    if (activeAlbumId) fetchAlbumPhotos(activeAlbumId);
+  }, [activeAlbumId, refreshTrigger]);
 
-  // Real-time synchronization across devices
+  // Real-time synchronization across devices, and with fellow space members
   useEffect(() => {
-    const channel = supabase
-      .channel('photos-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'photos'
-        },
-        (payload) => {
-          console.log('Photo change detected:', payload);
-          // Refresh photos when any change occurs
-          fetchPhotos();
-        }
-      )
-      .subscribe();
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let cancelled = false;
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || cancelled) return;
+
+      channel = supabase
+        .channel(`photos-changes-${activeSpaceId ?? user.id}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'photos',
+            filter: activeSpaceId ? `space_id=eq.${activeSpaceId}` : `user_id=eq.${user.id}`
+          },
+          (payload) => {
+            console.log('Photo change detected:', payload);
+            // Refresh photos when any change occurs
+            fetchPhotos();
+          }
+        )
+        .subscribe();
+    });
 
     return () => {
-      supabase.removeChannel(channel);
+      cancelled = true;
+      if (channel) supabase.removeChannel(channel);
     };
-  }, []);
+  }, [activeSpaceId]);
 
   useEffect(() => {
     // Decrypt photos when encryption key becomes available
-    if (encryptionKey && photos.length > 0) {
+    if (masterKey && photos.length > 0) {
       photos.forEach(photo => decryptPhoto(photo));
     }
-  }, [encryptionKey, photos]);
+  }, [masterKey, activeSpace, photos]);
+
+  useEffect(() => {
+    if (selectedPhoto) openOriginal(selectedPhoto);
+  }, [selectedPhoto, openOriginal]);
 
   if (loading) {
     return (
@@ -164,17 +482,81 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
   if (photos.length === 0) {
     return (
       <div className="text-center py-20">
-        <p className="text-muted-foreground text-lg">No photos yet. Upload your first photo to get started!</p>
+        <p className="text-muted-foreground text-lg">
+          {activeSpace
+            ? `Nothing in ${activeSpace.name} yet.`
+            : "No photos yet. Upload your first photo to get started!"}
+        </p>
       </div>
     );
   }
 
+  const selectedMetadata = selectedPhoto ? photoMetadata.get(selectedPhoto.id) : undefined;
+  const selectedFileInfo = selectedPhoto ? fileInfo.get(selectedPhoto.id) : undefined;
+  const selectedExif = selectedMetadata?.exif ?? null;
+  // Sharing, albums and edits work on master-key photos; owners may delete anything in a space
+  const selectedInSpace = !!selectedPhoto?.space_id;
+  const canDeleteSelected = selectedPhoto?.user_id === userId || activeSpace?.role === "owner";
+
+  // Albums list their photos in album order
+  const photosById = new Map(photos.map((photo) => [photo.id, photo]));
+  const visiblePhotos = activeAlbum
+    ? albumPhotos.flatMap((row) => photosById.get(row.photo_id) ?? [])
+    : photos;
+
   return (
     <>
+      {!activeSpace && (
+        <AlbumBar
+          albums={albums}
+          activeAlbumId={activeAlbum?.album.id ?? null}
+          coverUrl={(opened) =>
+            opened.metadata.coverPhotoId
+              ? thumbnailUrls.get(opened.metadata.coverPhotoId) ?? decryptedImages.get(opened.metadata.coverPhotoId)
+              : undefined
+          }
+          onSelect={handleSelectAlbum}
+          onCreate={() => setAlbumNameDialog("create")}
+        />
+      )}
+
+      {activeAlbum && (
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-foreground truncate">{activeAlbum.metadata.name}</h2>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAlbumNameDialog("rename")}
+              className="border-border hover:bg-secondary/80"
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Rename
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDeleteAlbum}
+              className="border-border hover:bg-secondary/80"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete album
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {activeAlbum && visiblePhotos.length === 0 && (
+        <div className="text-center py-20">
+          <p className="text-muted-foreground text-lg">This album is empty. Add photos from their detail view.</p>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-        {photos.map((photo) => {
-          const decryptedUrl = decryptedImages.get(photo.id);
+        {visiblePhotos.map((photo, index) => {
+          const decryptedUrl = thumbnailUrls.get(photo.id) ?? decryptedImages.get(photo.id);
           const isDecrypting = decrypting.has(photo.id);
+          const metadata = photoMetadata.get(photo.id);
           
           return (
             <Card
@@ -190,7 +572,7 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
                 ) : decryptedUrl ? (
                   <img
                     src={decryptedUrl}
-                    alt={photo.title || "Photo"}
+                    alt={metadata?.title || "Photo"}
                     className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500"
                   />
                 ) : (
@@ -199,9 +581,39 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
                   </div>
                 )}
               </div>
-              {photo.title && (
+              {activeAlbum && (
+                <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    title="Move earlier"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleMove(photo.id, -1);
+                    }}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === visiblePhotos.length - 1}
+                    title="Move later"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleMove(photo.id, 1);
+                    }}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              {metadata?.title && (
                 <div className="p-3 bg-card/95 backdrop-blur-sm">
-                  <h3 className="font-medium truncate text-foreground">{photo.title}</h3>
+                  <h3 className="font-medium truncate text-foreground">{metadata.title}</h3>
                 </div>
               )}
             </Card>
@@ -216,7 +628,7 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
               {decryptedImages.get(selectedPhoto.id) ? (
                 <PhotoViewer
                   imageUrl={decryptedImages.get(selectedPhoto.id)!}
-                  alt={selectedPhoto.title || "Photo"}
+                  alt={selectedMetadata?.title || "Photo"}
                   onClose={() => setSelectedPhoto(null)}
                 />
               ) : (
@@ -230,41 +642,131 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
                 <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-background via-background/80 to-transparent">
                   <div className="flex items-start justify-between gap-4">
                     <div className="flex-1">
-                      {selectedPhoto.title && (
-                        <h2 className="text-2xl font-bold mb-2 text-foreground">{selectedPhoto.title}</h2>
+                      {selectedMetadata?.title && (
+                        <h2 className="text-2xl font-bold mb-2 text-foreground">{selectedMetadata.title}</h2>
                       )}
-                      {selectedPhoto.description && (
-                        <p className="text-muted-foreground">{selectedPhoto.description}</p>
+                      {selectedMetadata?.description && (
+                        <p className="text-muted-foreground">{selectedMetadata.description}</p>
                       )}
                       <p className="text-sm text-muted-foreground mt-2">
-                        {new Date(selectedPhoto.created_at).toLocaleDateString()}
+                        {new Date(
+                          selectedExif?.capturedAt ?? selectedFileInfo?.capturedAt ?? selectedPhoto.created_at
+                        ).toLocaleDateString()}
                       </p>
+                      {selectedExif && (selectedExif.camera || formatExposure(selectedExif)) && (
+                        <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                          <Camera className="h-3 w-3 shrink-0" />
+                          {[selectedExif.camera, selectedExif.lens, formatExposure(selectedExif)]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      )}
+                      {selectedExif?.location && (
+                        <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                          <MapPin className="h-3 w-3 shrink-0" />
+                          {selectedExif.location.latitude.toFixed(5)}, {selectedExif.location.longitude.toFixed(5)}
+                        </p>
+                      )}
+                      {selectedFileInfo && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {selectedFileInfo.name} · {formatBytes(selectedFileInfo.size)}
+                        </p>
+                      )}
                     </div>
                     <div className="flex gap-2">
                       <Button
-                        variant="default"
-                        size="icon"
-                        onClick={() => {
-                          setEditingPhoto(selectedPhoto);
-                          setSelectedPhoto(null);
-                        }}
-                        className="shadow-lg"
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="destructive"
+                        variant="secondary"
                         size="icon"
-                        onClick={handleDelete}
-                        disabled={deleting}
+                        onClick={() => handleDownload(selectedPhoto)}
                         className="shadow-lg"
                       >
-                        {deleting ? (
-                          <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="h-4 w-4" />
-                        )}
+                        <Download className="h-4 w-4" />
                       </Button>
+                      {!selectedInSpace && (
+                        <>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            onClick={() => setSharingPhoto(selectedPhoto)}
+                            title="Share"
+                            className="shadow-lg"
+                          >
+                            <Share2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            onClick={() => setLinkingPhoto(selectedPhoto)}
+                            title="Create link"
+                            className="shadow-lg"
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            onClick={() => setAddingToAlbum(selectedPhoto)}
+                            title="Add to album"
+                            className="shadow-lg"
+                          >
+                            <FolderPlus className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {activeAlbum && (
+                        <>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            onClick={() => handleSetCover(selectedPhoto)}
+                            title="Use as album cover"
+                            className="shadow-lg"
+                          >
+                            <Star
+                              className={
+                                activeAlbum.metadata.coverPhotoId === selectedPhoto.id ? "h-4 w-4 fill-current" : "h-4 w-4"
+                              }
+                            />
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            onClick={() => handleRemoveFromAlbum(selectedPhoto)}
+                            title="Remove from album"
+                            className="shadow-lg"
+                          >
+                            <FolderMinus className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {!selectedInSpace && (
+                        <Button
+                          variant="default"
+                          size="icon"
+                          onClick={() => {
+                            setEditingPhoto(selectedPhoto);
+                            setSelectedPhoto(null);
+                          }}
+                          className="shadow-lg"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canDeleteSelected && (
+                        <Button
+                          variant="destructive"
+                          size="icon"
+                          onClick={handleDelete}
+                          disabled={deleting}
+                          className="shadow-lg"
+                        >
+                          {deleting ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -274,6 +776,34 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
         </DialogContent>
       </Dialog>
 
+      <SharePhoto photo={sharingPhoto} onOpenChange={() => setSharingPhoto(null)} />
+      <CreateShareLink photo={linkingPhoto} onOpenChange={() => setLinkingPhoto(null)} />
+
+      <AddToAlbum
+        photo={addingToAlbum}
+        albums={albums}
+        onOpenChange={() => setAddingToAlbum(null)}
+        onAdded={(opened) => {
+          if (opened.album.id === activeAlbumId) fetchAlbumPhotos(opened.album.id);
+        }}
+        onCreateAlbum={() => {
+          setPendingAlbumPhoto(addingToAlbum);
+          setAddingToAlbum(null);
+          setAlbumNameDialog("create");
+        }}
+      />
+
+      <AlbumNameDialog
+        open={albumNameDialog !== null}
+        initialName={albumNameDialog === "rename" ? activeAlbum?.metadata.name ?? null : null}
+        onOpenChange={(open) => {
+          if (open) return;
+          setAlbumNameDialog(null);
+          setPendingAlbumPhoto(null);
+        }}
+        onSubmit={handleSaveAlbumName}
+      />
+
       {/* Image Editor Dialog */}
       <Dialog open={!!editingPhoto} onOpenChange={() => setEditingPhoto(null)}>
         <DialogContent className="max-w-full h-screen p-0 bg-background border-0 m-0">
@@ -281,7 +811,9 @@ export const PhotoGallery = ({ refreshTrigger }: PhotoGalleryProps) => {
             <ImageEditor
               photoId={editingPhoto.id}
               imageUrl={decryptedImages.get(editingPhoto.id)!}
-              alt={editingPhoto.title || "Photo"}
+              alt={photoMetadata.get(editingPhoto.id)?.title || "Photo"}
+              fileName={fileInfo.get(editingPhoto.id)?.name}
+              metadataPolicy={photoMetadata.get(editingPhoto.id)?.metadataPolicy}
               onClose={() => setEditingPhoto(null)}
             />
           )}
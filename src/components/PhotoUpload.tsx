@@ -1,104 +1,135 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { Upload, X, Loader2, Shield } from "lucide-react";
+import { Upload, X, Loader2, Shield, FolderOpen, Images } from "lucide-react";
 import { useEncryption } from "@/hooks/useEncryption";
-import { encryptFile, createEncryptedBlob } from "@/lib/encryption";
+import { useSpaces } from "@/hooks/useSpaces";
+import { useUploadQueue } from "@/hooks/useUploadQueue";
+import { OpenedAlbum, createAlbum } from "@/lib/albums";
+import { METADATA_POLICY_LABELS, MetadataPolicy, loadMetadataPolicy, saveMetadataPolicy } from "@/lib/exif";
+import { ImportedFile, filesFromDataTransfer, filesFromInput, folderOf, splitImages } from "@/lib/folderImport";
 
 interface PhotoUploadProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUploadComplete: () => void;
 }
 
-export const PhotoUpload = ({ open, onOpenChange, onUploadComplete }: PhotoUploadProps) => {
+// Skipped files listed by name before the rest are summed up
+const SKIPPED_SHOWN = 5;
+
+export const PhotoUpload = ({ open, onOpenChange }: PhotoUploadProps) => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<ImportedFile[]>([]);
+  const [skipped, setSkipped] = useState<ImportedFile[]>([]);
   const [preview, setPreview] = useState<string | null>(null);
+  const [albumPerFolder, setAlbumPerFolder] = useState(true);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>(loadMetadataPolicy);
+  const [dragging, setDragging] = useState(false);
   const [uploading, setUploading] = useState(false);
-  const { encryptionKey, isEncryptionReady } = useEncryption();
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      if (!selectedFile.type.startsWith("image/")) {
-        toast.error("Please select an image file");
-        return;
-      }
-      
-      setFile(selectedFile);
+  const { masterKey, masterKeyId } = useEncryption();
+  const { activeSpace } = useSpaces();
+  const { enqueue } = useUploadQueue();
+
+  // Folders in the selection, each of which can become an album
+  const folders = [...new Set(files.map(({ path }) => folderOf(path)).filter((folder): folder is string => !!folder))];
+
+  const reset = () => {
+    setTitle("");
+    setDescription("");
+    setFiles([]);
+    setSkipped([]);
+    setPreview(null);
+  };
+
+  const handleSelection = (selected: ImportedFile[]) => {
+    if (selected.length === 0) return;
+
+    const { images, skipped } = splitImages(selected);
+    setSkipped(skipped);
+    setFiles(images);
+    setPreview(null);
+    if (images.length === 0) {
+      toast.error("None of the selected files are images");
+      return;
+    }
+
+    // Only a single photo is previewed
+    if (images.length === 1) {
       const reader = new FileReader();
       reader.onloadend = () => {
         setPreview(reader.result as string);
       };
-      reader.readAsDataURL(selectedFile);
+      reader.readAsDataURL(images[0].file);
     }
   };
 
-  const handleUpload = async () => {
-    if (!file) {
-      toast.error("Please select a photo");
-      return;
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleSelection(filesFromInput(e.target.files));
+    // Picking the same files again should still register
+    e.target.value = "";
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragging(false);
+    handleSelection(await filesFromDataTransfer(e.dataTransfer));
+  };
+
+  // One album per folder, named after its path in the selection
+  const createFolderAlbums = async (): Promise<Map<string, OpenedAlbum>> => {
+    const albums = new Map<string, OpenedAlbum>();
+    if (activeSpace || !albumPerFolder || folders.length === 0) return albums;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !masterKey || !masterKeyId) throw new Error("Unlock the vault first");
+
+    for (const folder of folders) {
+      albums.set(folder, await createAlbum(user.id, { id: masterKeyId, key: masterKey }, folder));
     }
+    return albums;
+  };
 
-    if (!encryptionKey) {
-      toast.error("Encryption not set up");
+  const handleUpload = async () => {
+    if (files.length === 0) {
+      toast.error("Please select a photo");
       return;
     }
 
     setUploading(true);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      // Encrypt the file before upload
-      const { encryptedData, iv } = await encryptFile(file, encryptionKey);
-      const encryptedBlob = createEncryptedBlob(encryptedData, iv);
-
-      const fileExt = "encrypted";
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from("photos")
-        .upload(fileName, encryptedBlob);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from("photos")
-        .getPublicUrl(fileName);
+      const albums = await createFolderAlbums();
+      const queued = await enqueue(
+        files.map(({ file, path }) => {
+          const folder = folderOf(path);
+          // Title and description only describe a single photo; a batch keeps file names
+          const details = files.length === 1 ? { title, description } : {};
+          return {
+            file,
+            metadata: { ...details, path: folder ? path : null, metadataPolicy },
+            album: folder ? albums.get(folder) ?? null : null,
+          };
+        })
+      );
+      if (queued === 0) return;
 
-      const { error: dbError } = await supabase
-        .from("photos")
-        .insert({
-          user_id: user.id,
-          title: title || file.name,
-          description,
-          storage_path: fileName,
-          url: publicUrl,
-        });
-
-      if (dbError) throw dbError;
-
-      toast.success("Photo encrypted and uploaded successfully!");
-      onUploadComplete();
+      if (albums.size > 0) {
+        toast.success(`Created ${albums.size} ${albums.size === 1 ? "album" : "albums"} for the imported folders`);
+      }
       onOpenChange(false);
-      
-      // Reset form
-      setTitle("");
-      setDescription("");
-      setFile(null);
-      setPreview(null);
-    } catch (error: any) {
-      console.error("Upload error:", error);
-      toast.error(error.message || "Failed to upload photo");
+      reset();
+    } catch (error) {
+      console.error("Import error:", error);
+      toast.error("Failed to create albums for the imported folders");
     } finally {
       setUploading(false);
     }
@@ -110,88 +141,188 @@ export const PhotoUpload = ({ open, onOpenChange, onUploadComplete }: PhotoUploa
         <DialogHeader>
           <DialogTitle className="text-2xl flex items-center gap-2">
             <Shield className="h-5 w-5 text-primary" />
-            Upload Photo
+            Upload Photos
           </DialogTitle>
           <DialogDescription>
-            Your photo will be encrypted before upload
+            {activeSpace
+              ? `Your photos will be encrypted before upload and shared with everyone in ${activeSpace.name}`
+              : "Your photos will be encrypted before upload"}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 mt-4">
           <div className="space-y-2">
-            <Label htmlFor="photo-file">Photo</Label>
-            <div className="relative">
-              {preview ? (
+            <Label htmlFor="photo-file">Photos</Label>
+            <div
+              className="relative"
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setDragging(true);
+              }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={handleDrop}
+            >
+              {files.length > 0 ? (
                 <div className="relative rounded-lg overflow-hidden border-2 border-border">
-                  <img
-                    src={preview}
-                    alt="Preview"
-                    className="w-full h-64 object-cover"
-                  />
+                  {preview ? (
+                    <img
+                      src={preview}
+                      alt="Preview"
+                      className="w-full h-64 object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-64 flex flex-col items-center justify-center bg-secondary/20">
+                      <Images className="h-12 w-12 text-muted-foreground mb-2" />
+                      <span className="text-sm text-foreground">
+                        {files.length} {files.length === 1 ? "photo" : "photos"} selected
+                        {folders.length > 0 && ` in ${folders.length} ${folders.length === 1 ? "folder" : "folders"}`}
+                      </span>
+                    </div>
+                  )}
                   <button
-                    onClick={() => {
-                      setFile(null);
-                      setPreview(null);
-                    }}
+                    onClick={reset}
                     className="absolute top-2 right-2 p-2 bg-destructive/90 rounded-full hover:bg-destructive transition-colors"
                   >
                     <X className="h-4 w-4 text-destructive-foreground" />
                   </button>
                 </div>
               ) : (
-                <label
-                  htmlFor="photo-file"
-                  className="flex flex-col items-center justify-center h-64 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-secondary/50 transition-colors"
+                <div
+                  className={`flex flex-col items-center justify-center gap-3 h-64 border-2 border-dashed rounded-lg transition-colors ${
+                    dragging ? "border-primary bg-secondary/50" : "border-border"
+                  }`}
                 >
-                  <Upload className="h-12 w-12 text-muted-foreground mb-2" />
+                  <Upload className="h-12 w-12 text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">
-                    Click to select a photo
+                    Drop photos or folders here, or
                   </span>
-                </label>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" asChild>
+                      <label htmlFor="photo-file" className="cursor-pointer">
+                        <Images className="h-4 w-4 mr-2" />
+                        Select photos
+                      </label>
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                      <label htmlFor="photo-folder" className="cursor-pointer">
+                        <FolderOpen className="h-4 w-4 mr-2" />
+                        Select folder
+                      </label>
+                    </Button>
+                  </div>
+                </div>
               )}
               <Input
                 id="photo-file"
                 type="file"
                 accept="image/*"
-                onChange={handleFileChange}
+                multiple
+                onChange={handleInputChange}
+                className="hidden"
+              />
+              <Input
+                id="photo-folder"
+                type="file"
+                // Not in React's input attributes, so it is set on the element
+                ref={(input) => input?.setAttribute("webkitdirectory", "")}
+                onChange={handleInputChange}
                 className="hidden"
               />
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="title">Title (optional)</Label>
-            <Input
-              id="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="Give your photo a title"
-              className="bg-secondary/50 border-border"
-            />
-          </div>
+          {skipped.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Skipped {skipped.length} {skipped.length === 1 ? "file that is not an image" : "files that are not images"}:{" "}
+              {skipped.slice(0, SKIPPED_SHOWN).map(({ path }) => path).join(", ")}
+              {skipped.length > SKIPPED_SHOWN && ` and ${skipped.length - SKIPPED_SHOWN} more`}
+            </p>
+          )}
+
+          {folders.length > 0 && !activeSpace && (
+            <div className="flex items-start gap-3 bg-secondary/30 p-4 rounded-lg">
+              <Checkbox
+                id="album-per-folder"
+                checked={albumPerFolder}
+                onCheckedChange={(checked) => setAlbumPerFolder(checked === true)}
+                disabled={uploading}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="album-per-folder">Create an album for each folder</Label>
+                <p className="text-xs text-muted-foreground">
+                  Albums are named after the folder's path. Each photo's path is kept with its encrypted details.
+                </p>
+              </div>
+            </div>
+          )}
 
           <div className="space-y-2">
-            <Label htmlFor="description">Description (optional)</Label>
-            <Textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Add a description..."
-              className="bg-secondary/50 border-border resize-none"
-              rows={3}
-            />
+            <Label htmlFor="metadata-policy">Camera metadata</Label>
+            <Select
+              value={metadataPolicy}
+              onValueChange={(value: MetadataPolicy) => {
+                setMetadataPolicy(value);
+                saveMetadataPolicy(value);
+              }}
+              disabled={uploading}
+            >
+              <SelectTrigger id="metadata-policy" className="bg-secondary/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METADATA_POLICY_LABELS) as MetadataPolicy[]).map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {METADATA_POLICY_LABELS[policy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Capture time, camera and exposure are kept with each photo's encrypted details either way. Removing
+              metadata also removes it from the stored photo and from versions saved in the editor.
+            </p>
           </div>
 
+          {files.length <= 1 && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="title">Title (optional)</Label>
+                <Input
+                  id="title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Give your photo a title"
+                  className="bg-secondary/50 border-border"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description (optional)</Label>
+                <Textarea
+                  id="description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Add a description..."
+                  className="bg-secondary/50 border-border resize-none"
+                  rows={3}
+                />
+              </div>
+            </>
+          )}
+
           <Button
             onClick={handleUpload}
-            disabled={!file || uploading}
+            disabled={files.length === 0 || uploading}
             className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
           >
             {uploading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Uploading...
+                Adding...
               </>
+            ) : files.length > 1 ? (
+              `Upload ${files.length} Photos`
             ) : (
               "Upload Photo"
             )}
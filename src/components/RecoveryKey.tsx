@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { LifeBuoy, Loader2, Printer, Copy } from "lucide-react";
+import { useEncryption } from "@/hooks/useEncryption";
+
+interface RecoveryKeyProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const printRecoverySheet = (words: string[]) => {
+  const printWindow = window.open("", "_blank", "width=720,height=900");
+  if (!printWindow) {
+    toast.error("Allow pop-ups to print the recovery sheet");
+    return;
+  }
+
+  const doc = printWindow.document;
+  doc.title = "PhotoVault Recovery Key";
+
+  const style = doc.createElement("style");
+  style.textContent = `
+    body { font-family: system-ui, sans-serif; padding: 40px; color: #111; }
+    h1 { font-size: 22px; margin-bottom: 4px; }
+    p { font-size: 13px; color: #444; }
+    ol { columns: 3; font-family: ui-monospace, monospace; font-size: 15px; margin-top: 24px; }
+    li { padding: 6px 0; }
+  `;
+  doc.head.appendChild(style);
+
+  const heading = doc.createElement("h1");
+  heading.textContent = "PhotoVault Recovery Key";
+  const created = doc.createElement("p");
+  created.textContent = `Created ${new Date().toLocaleString()}`;
+  const note = doc.createElement("p");
+  note.textContent =
+    "Anyone with these words can decrypt your photos. Store this sheet somewhere safe and offline.";
+  const list = doc.createElement("ol");
+  words.forEach((word) => {
+    const item = doc.createElement("li");
+    item.textContent = word;
+    list.appendChild(item);
+  });
+
+  doc.body.append(heading, created, note, list);
+  printWindow.focus();
+  printWindow.print();
+};
+
+export const RecoveryKey = ({ open, onOpenChange }: RecoveryKeyProps) => {
+  const [createdAt, setCreatedAt] = useState<string | null>(null);
+  const [mnemonic, setMnemonic] = useState<string | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const { getRecoveryKeyCreatedAt, createRecoveryKey } = useEncryption();
+
+  useEffect(() => {
+    if (open) {
+      getRecoveryKeyCreatedAt()
+        .then(setCreatedAt)
+        .catch((error) => console.error("Recovery status error:", error));
+    }
+  }, [open, getRecoveryKeyCreatedAt]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      setMnemonic(await createRecoveryKey());
+      setCreatedAt(new Date().toISOString());
+    } catch (error) {
+      console.error("Recovery key error:", error);
+      toast.error("Failed to create recovery key");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!mnemonic) return;
+    await navigator.clipboard.writeText(mnemonic);
+    toast.success("Recovery key copied");
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      // The words are only ever shown once
+      setMnemonic(null);
+      setConfirmed(false);
+    }
+    onOpenChange(next);
+  };
+
+  const words = mnemonic?.split(" ") ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <LifeBuoy className="h-5 w-5 text-primary" />
+            Recovery Key
+          </DialogTitle>
+          <DialogDescription>
+            A recovery key lets you set a new passphrase if you forget yours.
+          </DialogDescription>
+        </DialogHeader>
+
+        {mnemonic ? (
+          <div className="space-y-4 mt-4">
+            <ol className="grid grid-cols-3 gap-2 bg-secondary/30 p-4 rounded-lg font-mono text-sm">
+              {words.map((word, i) => (
+                <li key={i} className="flex gap-2">
+                  <span className="text-muted-foreground w-6 text-right">{i + 1}.</span>
+                  <span className="text-foreground">{word}</span>
+                </li>
+              ))}
+            </ol>
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => printRecoverySheet(words)}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print Sheet
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="recovery-saved"
+                checked={confirmed}
+                onCheckedChange={(checked) => setConfirmed(checked === true)}
+              />
+              <Label htmlFor="recovery-saved" className="text-sm leading-snug">
+                I have written down or printed these words. They will not be shown again.
+              </Label>
+            </div>
+
+            <Button
+              onClick={() => handleOpenChange(false)}
+              disabled={!confirmed}
+              className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+            >
+              Done
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4 mt-4">
+            <div className="bg-secondary/30 p-4 rounded-lg space-y-2 text-sm text-muted-foreground">
+              {createdAt ? (
+                <p>
+                  A recovery key was created on {new Date(createdAt).toLocaleDateString()}.
+                  Generating a new one replaces it.
+                </p>
+              ) : (
+                <p>You have no recovery key. Without one, a lost passphrase means lost photos.</p>
+              )}
+              <p>The key is shown once as 24 words. Anyone holding them can decrypt your vault.</p>
+            </div>
+
+            <Button
+              onClick={handleGenerate}
+              disabled={generating}
+              className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+            >
+              {generating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating...
+                </>
+              ) : createdAt ? (
+                "Replace Recovery Key"
+              ) : (
+                "Generate Recovery Key"
+              )}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
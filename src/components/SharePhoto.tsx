@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Loader2, Share2, UserMinus } from "lucide-react";
+import { useEncryption } from "@/hooks/useEncryption";
+import { objectAad, unwrapKey } from "@/lib/encryption";
+import { Share, findRecipient, listPhotoShares, revokeShare, sharePhoto } from "@/lib/sharing";
+
+interface SharePhotoProps {
+  photo: { id: string; user_id: string; wrapped_key: string | null; master_key_id: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const SharePhoto = ({ photo, onOpenChange }: SharePhotoProps) => {
+  const [shares, setShares] = useState<Share[]>([]);
+  const [email, setEmail] = useState("");
+  const [sharing, setSharing] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { resolveMasterKey } = useEncryption();
+
+  const photoId = photo?.id;
+
+  const loadShares = useCallback((id: string) => {
+    listPhotoShares(id)
+      .then(setShares)
+      .catch((error) => console.error("Share list error:", error));
+  }, []);
+
+  useEffect(() => {
+    if (photoId) loadShares(photoId);
+  }, [photoId, loadShares]);
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!photo?.wrapped_key) return;
+
+    setSharing(true);
+    try {
+      const recipient = await findRecipient(email);
+      if (!recipient) {
+        toast.error("No PhotoVault account with that email can receive shares yet");
+        return;
+      }
+      if (recipient.id === photo.user_id) {
+        toast.error("You already own this photo");
+        return;
+      }
+
+      const masterKey = resolveMasterKey(photo.master_key_id);
+      if (!masterKey) throw new Error("Unlock the vault first");
+
+      const aad = objectAad({ userId: photo.user_id, photoId: photo.id, version: 0 });
+      const dataKey = await unwrapKey(photo.wrapped_key, masterKey, { aad, requireAad: true });
+      await sharePhoto(photo, dataKey, recipient);
+
+      toast.success(`Shared with ${email.trim()}`);
+      setEmail("");
+      loadShares(photo.id);
+    } catch (error) {
+      console.error("Share error:", error);
+      toast.error("Failed to share photo");
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setRevokingId(id);
+    try {
+      await revokeShare(id);
+      setShares((prev) => prev.filter((share) => share.id !== id));
+      toast.success("Access revoked");
+    } catch (error) {
+      console.error("Revoke error:", error);
+      toast.error("Failed to revoke access");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!photo} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-primary" />
+            Share Photo
+          </DialogTitle>
+          <DialogDescription>
+            The photo stays end-to-end encrypted. Only the people you add can decrypt it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleShare} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-email">Email</Label>
+            <Input
+              id="share-email"
+              type="email"
+              placeholder="friend@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="bg-secondary/50 border-border"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            disabled={sharing}
+            className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+          >
+            {sharing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sharing...
+              </>
+            ) : (
+              "Share"
+            )}
+          </Button>
+        </form>
+
+        {shares.length > 0 && (
+          <div className="space-y-2 mt-2">
+            <p className="text-sm font-medium text-foreground">Shared with</p>
+            <ul className="space-y-2">
+              {shares.map((share) => (
+                <li
+                  key={share.id}
+                  className="flex items-center justify-between gap-3 bg-secondary/30 p-3 rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-foreground truncate">{share.recipient_email ?? "Unknown account"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Since {new Date(share.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRevoke(share.id)}
+                    disabled={revokingId === share.id}
+                    title="Revoke access"
+                  >
+                    {revokingId === share.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <UserMinus className="h-4 w-4" />
+                    )}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-muted-foreground">
+              Revoking stops future access. Copies already downloaded cannot be recalled.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
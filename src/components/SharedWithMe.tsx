@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Download, Loader2, Shield, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { useEncryption } from "@/hooks/useEncryption";
+import { FileInfo, TamperError, decryptFile, objectAad } from "@/lib/encryption";
+import { PhotoMetadata, decryptMetadata } from "@/lib/metadata";
+import { Share, listSharedWithMe, openShareKey, revokeShare } from "@/lib/sharing";
+import { openObjectStream } from "@/lib/storage";
+import { PhotoViewer } from "./PhotoViewer";
+
+interface SharedPhoto {
+  share: Share;
+  storage_path: string;
+  encrypted_metadata: string | null;
+}
+
+interface DecryptedShare {
+  url: string;
+  info: FileInfo | null;
+  metadata: PhotoMetadata | null;
+}
+
+export const SharedWithMe = () => {
+  const [items, setItems] = useState<SharedPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [decrypted, setDecrypted] = useState<Map<string, DecryptedShare>>(new Map());
+  const [failed, setFailed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<SharedPhoto | null>(null);
+  const [removing, setRemoving] = useState(false);
+  const { sharingKey, createObjectUrl } = useEncryption();
+  // Cancels queued and running decryptions when the view goes away
+  const decryptAbort = useRef<AbortController | null>(null);
+
+  const decryptShare = useCallback(async ({ share, storage_path, encrypted_metadata }: SharedPhoto) => {
+    if (!sharingKey) return;
+
+    try {
+      const shareKey = await openShareKey(share, sharingKey);
+      const aad = objectAad({ userId: share.owner_id, photoId: share.photo_id, version: 0 });
+
+      const stream = await openObjectStream(storage_path);
+      const { blob, info } = await decryptFile(stream, share.wrapped_key, shareKey, {
+        aad,
+        signal: decryptAbort.current?.signal,
+      });
+      const metadata = encrypted_metadata
+        ? await decryptMetadata<PhotoMetadata>(encrypted_metadata, share.wrapped_key, shareKey, aad)
+        : null;
+
+      setDecrypted((prev) => new Map(prev).set(share.id, { url: createObjectUrl(blob), info, metadata }));
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      console.error("Shared photo decryption error:", error);
+      setFailed((prev) => new Set(prev).add(share.id));
+      if (error instanceof TamperError) {
+        toast.error("A shared photo failed its integrity check and was not shown", { id: "tamper-error" });
+      } else {
+        toast.error("Failed to decrypt a shared photo", { id: "decrypt-error" });
+      }
+    }
+  }, [sharingKey, createObjectUrl]);
+
+  const fetchShares = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const shares = await listSharedWithMe(user.id);
+      if (shares.length === 0) {
+        setItems([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("photos")
+        .select("id, storage_path, encrypted_metadata")
+        .in("id", shares.map((share) => share.photo_id));
+
+      if (error) throw error;
+
+      const photos = new Map((data || []).map((photo) => [photo.id, photo]));
+      const next = shares.flatMap((share) => {
+        const photo = photos.get(share.photo_id);
+        return photo
+          ? [{ share, storage_path: photo.storage_path, encrypted_metadata: photo.encrypted_metadata }]
+          : [];
+      });
+
+      setItems(next);
+      next.forEach((item) => decryptShare(item));
+    } catch (error) {
+      console.error("Error fetching shared photos:", error);
+      toast.error("Failed to load shared photos");
+    } finally {
+      setLoading(false);
+    }
+  }, [decryptShare]);
+
+  const handleDownload = (item: SharedPhoto) => {
+    const entry = decrypted.get(item.share.id);
+    if (!entry) return;
+
+    const a = document.createElement("a");
+    a.href = entry.url;
+    a.download = entry.info?.name || entry.metadata?.title || "photo";
+    a.click();
+  };
+
+  const handleRemove = async (item: SharedPhoto) => {
+    setRemoving(true);
+    try {
+      await revokeShare(item.share.id);
+      setItems((prev) => prev.filter((other) => other.share.id !== item.share.id));
+      setSelected(null);
+      toast.success("Removed from Shared with me");
+    } catch (error) {
+      console.error("Remove share error:", error);
+      toast.error("Failed to remove shared photo");
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    decryptAbort.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    fetchShares();
+  }, [fetchShares]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-20">
+        <p className="text-muted-foreground text-lg">Nothing has been shared with you yet.</p>
+      </div>
+    );
+  }
+
+  const selectedEntry = selected ? decrypted.get(selected.share.id) : undefined;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+        {items.map((item) => {
+          const entry = decrypted.get(item.share.id);
+
+          return (
+            <Card
+              key={item.share.id}
+              className="group overflow-hidden cursor-pointer bg-card border-border hover:shadow-[var(--shadow-elegant)] transition-all duration-300 hover:scale-[1.02]"
+              onClick={() => setSelected(item)}
+            >
+              <div className="aspect-square overflow-hidden relative">
+                {entry ? (
+                  <img
+                    src={entry.url}
+                    alt={entry.metadata?.title || "Shared photo"}
+                    className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500"
+                  />
+                ) : failed.has(item.share.id) ? (
+                  <div className="w-full h-full flex items-center justify-center bg-secondary/20">
+                    <Shield className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center bg-secondary/20">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                )}
+              </div>
+              <div className="p-3 bg-card/95 backdrop-blur-sm">
+                {entry?.metadata?.title && (
+                  <h3 className="font-medium truncate text-foreground">{entry.metadata.title}</h3>
+                )}
+                <p className="text-xs text-muted-foreground truncate">
+                  From {item.share.owner_email ?? "another account"}
+                </p>
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={() => setSelected(null)}>
+        <DialogContent className="max-w-7xl bg-background border-border p-0 overflow-hidden">
+          {selected && (
+            <>
+              {selectedEntry ? (
+                <PhotoViewer
+                  imageUrl={selectedEntry.url}
+                  alt={selectedEntry.metadata?.title || "Shared photo"}
+                  onClose={() => setSelected(null)}
+                />
+              ) : (
+                <div className="w-full h-[60vh] flex items-center justify-center bg-secondary/20">
+                  <Loader2 className="h-12 w-12 animate-spin text-primary" />
+                </div>
+              )}
+
+              {selectedEntry && (
+                <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-background via-background/80 to-transparent">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      {selectedEntry.metadata?.title && (
+                        <h2 className="text-2xl font-bold mb-2 text-foreground">{selectedEntry.metadata.title}</h2>
+                      )}
+                      {selectedEntry.metadata?.description && (
+                        <p className="text-muted-foreground">{selectedEntry.metadata.description}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground mt-2">
+                        Shared by {selected.share.owner_email ?? "another account"} on{" "}
+                        {new Date(selected.share.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="secondary"
+                        size="icon"
+                        onClick={() => handleDownload(selected)}
+                        className="shadow-lg"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => handleRemove(selected)}
+                        disabled={removing}
+                        title="Remove from Shared with me"
+                        className="shadow-lg"
+                      >
+                        {removing ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
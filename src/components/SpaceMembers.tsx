@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { KeyRound, Loader2, UserMinus, Users } from "lucide-react";
+import { useSpaces } from "@/hooks/useSpaces";
+import {
+  SpaceMember,
+  SpaceRole,
+  addSpaceMember,
+  finishSpaceRotation,
+  isRotationPending,
+  listSpaceMembers,
+  removeSpaceMember,
+  updateSpaceMemberRole,
+} from "@/lib/spaces";
+
+const ROLE_LABELS: Record<SpaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+interface SpaceMembersProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const SpaceMembers = ({ open, onOpenChange }: SpaceMembersProps) => {
+  const [members, setMembers] = useState<SpaceMember[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<SpaceRole>("editor");
+  const [adding, setAdding] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rotating, setRotating] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const { activeSpace, updateSpace, refreshSpaces } = useSpaces();
+  const activeSpaceId = activeSpace?.space.id;
+  const isOwner = activeSpace?.role === "owner";
+
+  const loadMembers = useCallback((spaceId: string) => {
+    listSpaceMembers(spaceId)
+      .then(setMembers)
+      .catch((error) => console.error("Member list error:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!open || !activeSpaceId) return;
+    loadMembers(activeSpaceId);
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, [open, activeSpaceId, loadMembers]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeSpace) return;
+
+    setAdding(true);
+    try {
+      if (!(await addSpaceMember(activeSpace, email, role))) {
+        toast.error("No PhotoVault account with that email can receive shares yet");
+        return;
+      }
+
+      toast.success(`Added ${email.trim()}`);
+      setEmail("");
+      loadMembers(activeSpace.space.id);
+    } catch (error) {
+      console.error("Add member error:", error);
+      toast.error("Failed to add member");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (member: SpaceMember, next: SpaceRole) => {
+    if (!activeSpace) return;
+
+    // The server refuses this too; saying why beats a generic failure
+    const otherOwners = members.filter((m) => m.role === "owner" && m.user_id !== member.user_id);
+    if (member.role === "owner" && next !== "owner" && otherOwners.length === 0) {
+      toast.error("A space needs at least one owner");
+      return;
+    }
+
+    setBusyId(member.user_id);
+    try {
+      await updateSpaceMemberRole(activeSpace.space.id, member.user_id, next);
+      setMembers((prev) => prev.map((m) => (m.user_id === member.user_id ? { ...m, role: next } : m)));
+    } catch (error) {
+      console.error("Role change error:", error);
+      toast.error("Failed to change role");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (member: SpaceMember) => {
+    if (!activeSpace) return;
+
+    setBusyId(member.user_id);
+    try {
+      updateSpace(await removeSpaceMember(activeSpace, member.user_id));
+      setMembers((prev) => prev.filter((m) => m.user_id !== member.user_id));
+      toast.success("Member removed. New uploads use a fresh key they do not have.");
+    } catch (error) {
+      console.error("Remove member error:", error);
+      toast.error("Failed to remove member");
+      // Picks up the pending rotation so it can be resumed here
+      refreshSpaces().catch((refreshError) => console.error("Error loading spaces:", refreshError));
+      loadMembers(activeSpace.space.id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleFinishRotation = async () => {
+    if (!activeSpace) return;
+
+    setRotating(true);
+    try {
+      updateSpace(await finishSpaceRotation(activeSpace));
+      toast.success("Key rotation finished. Uploads use the new key.");
+    } catch (error) {
+      console.error("Space key rotation error:", error);
+      toast.error("Failed to finish key rotation");
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open && !!activeSpace} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            {activeSpace?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Editors can upload, viewers can only look. Owners manage members and can delete any photo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && isRotationPending(activeSpace) && (
+          <div className="mt-4 flex items-center justify-between gap-4 rounded-lg border border-border bg-secondary/30 p-3">
+            <p className="text-sm text-muted-foreground">
+              A member was removed but the space key was not rotated. Uploads are paused until it is.
+            </p>
+            <Button variant="outline" size="sm" onClick={handleFinishRotation} disabled={rotating}>
+              {rotating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+              Rotate key
+            </Button>
+          </div>
+        )}
+
+        {isOwner && (
+          <form onSubmit={handleAdd} className="space-y-4 mt-4">
+            <div className="flex gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="member-email">Email</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  placeholder="friend@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="bg-secondary/50 border-border"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="member-role">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as SpaceRole)}>
+                  <SelectTrigger id="member-role" className="w-[120px] bg-secondary/50 border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ROLE_LABELS) as SpaceRole[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ROLE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              disabled={adding}
+              className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+            >
+              {adding ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                "Add member"
+              )}
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-2 mt-2">
+          <p className="text-sm font-medium text-foreground">Members</p>
+          <ul className="space-y-2">
+            {members.map((member) => {
+              const isSelf = member.user_id === userId;
+              return (
+                <li
+                  key={member.user_id}
+                  className="flex items-center justify-between gap-3 bg-secondary/30 p-3 rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-foreground truncate">
+                      {member.email ?? "Unknown account"}
+                      {isSelf && " (you)"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Since {new Date(member.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {isOwner && !isSelf ? (
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member, value as SpaceRole)}
+                        disabled={busyId === member.user_id}
+                      >
+                        <SelectTrigger className="w-[110px] h-8 bg-secondary/50 border-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROLE_LABELS) as SpaceRole[]).map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {ROLE_LABELS[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemove(member)}
+                        disabled={busyId === member.user_id}
+                        title="Remove member"
+                      >
+                        {busyId === member.user_id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <UserMinus className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role as SpaceRole]}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {isOwner && (
+            <p className="text-xs text-muted-foreground">
+              Removing a member rotates the space key. They keep access to photos they could already see.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
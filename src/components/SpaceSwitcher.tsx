@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSpaces } from "@/hooks/useSpaces";
+import { CreateSpace } from "./CreateSpace";
+
+// Select values for the entries that are not spaces
+const PERSONAL = "personal";
+const NEW_SPACE = "new";
+
+export const SpaceSwitcher = () => {
+  const [createOpen, setCreateOpen] = useState(false);
+  const { spaces, activeSpace, setActiveSpaceId } = useSpaces();
+
+  const handleChange = (value: string) => {
+    if (value === NEW_SPACE) {
+      setCreateOpen(true);
+      return;
+    }
+    setActiveSpaceId(value === PERSONAL ? null : value);
+  };
+
+  return (
+    <>
+      <Select value={activeSpace?.space.id ?? PERSONAL} onValueChange={handleChange}>
+        <SelectTrigger className="w-[180px] bg-secondary/50 border-border" aria-label="Space">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL}>Personal vault</SelectItem>
+          {spaces.map((opened) => (
+            <SelectItem key={opened.space.id} value={opened.space.id}>
+              {opened.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_SPACE}>New space…</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <CreateSpace open={createOpen} onOpenChange={setCreateOpen} />
+    </>
+  );
+};
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronUp, Pause, Play, RotateCcw, X } from "lucide-react";
+import { UploadItem, UploadStatus, useUploadQueue } from "@/hooks/useUploadQueue";
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: "Waiting",
+  encrypting: "Encrypting",
+  uploading: "Uploading",
+  saving: "Saving",
+  retrying: "Retrying soon",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const isActive = (item: UploadItem) => ["encrypting", "uploading"].includes(item.status);
+
+const isFinished = (item: UploadItem) => ["done", "failed", "cancelled"].includes(item.status);
+
+export const UploadQueue = () => {
+  const [collapsed, setCollapsed] = useState(false);
+  const { items, paused, pause, resume, cancel, cancelAll, retry, retryFailed, clearFinished } = useUploadQueue();
+
+  if (items.length === 0) return null;
+
+  const done = items.filter((item) => item.status === "done").length;
+  const failed = items.filter((item) => item.status === "failed");
+  const pending = items.filter((item) => !isFinished(item)).length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-[360px] max-w-[calc(100vw-2rem)] rounded-lg border border-border bg-card/95 backdrop-blur-xl shadow-[var(--shadow-elegant)]">
+      <div className="flex items-center justify-between gap-2 p-3 border-b border-border/50">
+        <p className="text-sm font-medium text-foreground">
+          {pending > 0
+            ? `Uploading ${done} of ${items.filter((item) => item.status !== "cancelled").length}${paused ? " (paused)" : ""}`
+            : `${done} uploaded${failed.length > 0 ? `, ${failed.length} failed` : ""}`}
+        </p>
+        <div className="flex items-center">
+          {pending > 0 && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={paused ? resume : pause}
+              title={paused ? "Resume uploads" : "Pause uploads"}
+            >
+              {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setCollapsed((value) => !value)}
+            title={collapsed ? "Show uploads" : "Hide uploads"}
+          >
+            {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={pending > 0 ? cancelAll : clearFinished}
+            title={pending > 0 ? "Cancel all uploads" : "Close"}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <>
+          <ul className="max-h-72 overflow-y-auto p-2 space-y-1">
+            {items.map((item) => (
+              <li key={item.id} className="p-2 rounded-md hover:bg-secondary/30">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-foreground truncate">{item.name}</p>
+                    <p className="text-xs text-muted-foreground truncate" title={item.error ?? undefined}>
+                      {STATUS_LABELS[item.status]}
+                      {isActive(item) && ` ${Math.floor(item.progress * 100)}%`}
+                      {item.attempts > 1 && !isFinished(item) && ` (attempt ${item.attempts})`}
+                      {item.error && (item.status === "failed" || item.status === "retrying") && ` · ${item.error}`}
+                    </p>
+                  </div>
+                  {item.status === "done" ? (
+                    <CheckCircle2 className="h-4 w-4 text-primary shrink-0" />
+                  ) : item.status === "failed" ? (
+                    <div className="flex items-center shrink-0">
+                      <AlertCircle className="h-4 w-4 text-destructive" />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => retry(item.id)}
+                        title="Retry upload"
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ) : !isFinished(item) ? (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => cancel(item.id)}
+                      title="Cancel upload"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  ) : null}
+                </div>
+                {isActive(item) && <Progress value={item.progress * 100} className="h-1 mt-2" />}
+              </li>
+            ))}
+          </ul>
+
+          {(failed.length > 0 || pending === 0) && (
+            <div className="flex items-center justify-between gap-2 p-3 border-t border-border/50">
+              <p className="text-xs text-muted-foreground">
+                {failed.length > 0
+                  ? `${failed.length} ${failed.length === 1 ? "upload" : "uploads"} failed`
+                  : "All uploads finished"}
+              </p>
+              <div className="flex gap-2">
+                {failed.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={retryFailed}>
+                    <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                    Retry failed
+                  </Button>
+                )}
+                {pending === 0 && (
+                  <Button variant="ghost" size="sm" onClick={clearFinished}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
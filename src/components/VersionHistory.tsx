@@ -1,19 +1,32 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { ScrollArea } from "./ui/scroll-area";
-import { Loader2, RotateCw, Trash2 } from "lucide-react";
+import { ImageIcon, Loader2, RotateCw, ShieldAlert, Trash2 } from "lucide-react";
 import { toast } from "sonner";
+import { useEncryption } from "@/hooks/useEncryption";
+import { TamperError, objectAad } from "@/lib/encryption";
+import { EditMetadata, decryptMetadata } from "@/lib/metadata";
+import { listThumbnailPaths, openThumbnail } from "@/lib/thumbnails";
 
 interface Version {
   id: string;
   version_number: number;
-  url: string;
-  edit_metadata: any;
+  storage_path: string;
+  thumbnail_paths: Json | null;
+  // Decrypted thumbnail, when the version has one
+  thumbnail_url: string | null;
+  edit_metadata: EditMetadata | null;
+  // Set when the version's key or settings fail their integrity check
+  tampered: boolean;
   created_at: string;
 }
 
+// Thumbnails are shown at 48px, so the smallest size covers high density screens
+const THUMBNAIL_PIXELS = 96;
+
 interface VersionHistoryProps {
   photoId: string;
   onRestore: (version: Version) => void;
@@ -23,6 +36,7 @@ export const VersionHistory = ({ photoId, onRestore }: VersionHistoryProps) => {
   const [versions, setVersions] = useState<Version[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const { resolveMasterKey, createObjectUrl } = useEncryption();
 
   useEffect(() => {
     fetchVersions();
@@ -37,7 +51,52 @@ export const VersionHistory = ({ photoId, onRestore }: VersionHistoryProps) => {
         .order("version_number", { ascending: false });
 
       if (error) throw error;
-      setVersions(data || []);
+
+      const decrypted = await Promise.all(
+        (data || []).map(async (version) => {
+          if (!version.encrypted_metadata || !version.wrapped_key) {
+            return { ...version, thumbnail_url: null, edit_metadata: null, tampered: false };
+          }
+
+          const masterKey = resolveMasterKey(version.master_key_id);
+          const binding = {
+            userId: version.user_id,
+            photoId: version.photo_id,
+            version: version.version_number,
+          };
+          try {
+            const editMetadata = await decryptMetadata<EditMetadata>(
+              version.encrypted_metadata,
+              version.wrapped_key,
+              masterKey,
+              objectAad(binding)
+            );
+            // A thumbnail that fails to download leaves the placeholder
+            const thumbnail = masterKey
+              ? await openThumbnail(version.thumbnail_paths, THUMBNAIL_PIXELS, version.wrapped_key, masterKey, binding)
+                  .catch((error) => {
+                    if (error instanceof TamperError) throw error;
+                    console.error("Error loading version thumbnail:", error);
+                    return null;
+                  })
+              : null;
+            return {
+              ...version,
+              thumbnail_url: thumbnail ? createObjectUrl(thumbnail) : null,
+              edit_metadata: editMetadata,
+              tampered: false,
+            };
+          } catch (error) {
+            if (!(error instanceof TamperError)) throw error;
+            return { ...version, thumbnail_url: null, edit_metadata: null, tampered: true };
+          }
+        })
+      );
+
+      if (decrypted.some((version) => version.tampered)) {
+        toast.error("Some versions failed their integrity check and cannot be restored");
+      }
+      setVersions(decrypted);
     } catch (error: any) {
       console.error("Error fetching versions:", error);
       toast.error("Failed to load version history");
@@ -46,13 +105,14 @@ export const VersionHistory = ({ photoId, onRestore }: VersionHistoryProps) => {
     }
   };
 
-  const handleDelete = async (versionId: string, storagePath: string) => {
+  const handleDelete = async (version: Version) => {
+    const versionId = version.id;
     setDeleting(versionId);
     try {
-      // Delete from storage
+      // Delete from storage, with the version's thumbnails
       const { error: storageError } = await supabase.storage
         .from("photos")
-        .remove([storagePath]);
+        .remove([version.storage_path, ...listThumbnailPaths(version.thumbnail_paths)]);
 
       if (storageError) throw storageError;
 
@@ -96,6 +156,17 @@ export const VersionHistory = ({ photoId, onRestore }: VersionHistoryProps) => {
         {versions.map((version) => (
           <Card key={version.id} className="p-3 bg-card border-border">
             <div className="flex items-center justify-between gap-2">
+              <div className="h-12 w-12 shrink-0 rounded overflow-hidden bg-secondary/30 flex items-center justify-center">
+                {version.thumbnail_url ? (
+                  <img
+                    src={version.thumbnail_url}
+                    alt={`Version ${version.version_number}`}
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                )}
+              </div>
               <div className="flex-1">
                 <p className="text-sm font-medium text-foreground">
                   Version {version.version_number}
@@ -103,6 +174,12 @@ export const VersionHistory = ({ photoId, onRestore }: VersionHistoryProps) => {
                 <p className="text-xs text-muted-foreground">
                   {new Date(version.created_at).toLocaleString()}
                 </p>
+                {version.tampered && (
+                  <p className="text-xs text-destructive mt-1 flex items-center gap-1">
+                    <ShieldAlert className="h-3 w-3" />
+                    Integrity check failed
+                  </p>
+                )}
                 {version.edit_metadata && (
                   <p className="text-xs text-muted-foreground mt-1">
                     {version.edit_metadata.filter && `Filter: ${version.edit_metadata.filter}`}
@@ -114,6 +191,7 @@ export const VersionHistory = ({ photoId, onRestore }: VersionHistoryProps) => {
                   size="sm"
                   variant="outline"
                   onClick={() => onRestore(version)}
+                  disabled={version.tampered}
                   className="h-8 w-8 p-0"
                 >
                   <RotateCw className="h-3 w-3" />
@@ -121,7 +199,7 @@ export const VersionHistory = ({ photoId, onRestore }: VersionHistoryProps) => {
                 <Button
                   size="sm"
                   variant="ghost"
-                  onClick={() => handleDelete(version.id, version.url)}
+                  onClick={() => handleDelete(version)}
                   disabled={deleting === version.id}
                   className="h-8 w-8 p-0"
                 >
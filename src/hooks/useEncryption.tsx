@@ -1,35 +1,198 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from "react";
+import { useState, useEffect, useRef, useCallback, createContext, useContext, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { deriveKey } from "@/lib/encryption";
+import {
+  DEFAULT_KDF_PARAMS,
+  KdfParams,
+  deriveKey,
+  deriveLegacyKey,
+  generateKey,
+  generateSalt,
+  kdfIdFor,
+  wrapKey,
+} from "@/lib/encryption";
+import {
+  DeviceKey,
+  IncorrectPassphraseError,
+  MasterKey,
+  completeLegacyRekey,
+  bindObjectKeys,
+  completeRotation,
+  createKeyCheck,
+  createMasterKey,
+  deleteDeviceKey,
+  encryptPlaintextMetadata,
+  fetchVaultProfile,
+  hasPlaintextMetadata,
+  hasUnboundObjects,
+  hasUnwrappedObjects,
+  listDeviceKeys,
+  loadSharingKey,
+  markDeviceKeyUsed,
+  migrateUnwrappedObjects,
+  rewrapDataKeys,
+  saveDeviceKey,
+  saveKdfSettings,
+  saveKeyCheck,
+  savePassphrase,
+  saveRecoveryKey,
+  unlockMasterKey,
+  unlockWithDeviceKey,
+  unlockWithRecoveryKey,
+  vaultExists,
+  verifyKeyCheck,
+  verifyPassphraseKeys,
+} from "@/lib/vault";
+import { generateRecoveryKey, recoveryKeyFromMnemonic } from "@/lib/recovery";
+import { authenticatePasskey, createPasskey } from "@/lib/passkey";
+import { backfillThumbnails } from "@/lib/thumbnails";
+import { rewrapPendingUploads } from "@/lib/uploads";
+import { cancelCryptoTasks } from "@/lib/cryptoPool";
 import { toast } from "sonner";
 
+type ProgressCallback = (done: number, total: number) => void;
+
+export interface AutoLockSettings {
+  // Minutes without input before the vault locks; null never locks
+  idleMinutes: number | null;
+  lockOnHide: boolean;
+}
+
+const AUTO_LOCK_STORAGE_KEY = "vault_auto_lock";
+const DEFAULT_AUTO_LOCK: AutoLockSettings = { idleMinutes: 15, lockOnHide: false };
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+
+const loadAutoLockSettings = (): AutoLockSettings => {
+  try {
+    const stored = localStorage.getItem(AUTO_LOCK_STORAGE_KEY);
+    return stored ? { ...DEFAULT_AUTO_LOCK, ...JSON.parse(stored) } : DEFAULT_AUTO_LOCK;
+  } catch {
+    return DEFAULT_AUTO_LOCK;
+  }
+};
+
 interface EncryptionContextType {
-  encryptionKey: CryptoKey | null;
+  masterKey: CryptoKey | null;
+  masterKeyId: string | null;
   isEncryptionReady: boolean;
-  setupEncryption: (passphrase: string) => Promise<void>;
+  rotationPending: boolean;
+  resolveMasterKey: (id: string | null) => CryptoKey | null;
+  // Private half of the account's sharing key pair, for opening shares
+  sharingKey: CryptoKey | null;
+  hasVault: () => Promise<boolean>;
+  createVault: (passphrase: string, kdfParams?: KdfParams) => Promise<void>;
+  unlockVault: (passphrase: string) => Promise<void>;
+  changePassphrase: (
+    currentPassphrase: string,
+    newPassphrase: string,
+    rotateMasterKey: boolean,
+    kdfParams?: KdfParams,
+    onProgress?: ProgressCallback
+  ) => Promise<void>;
+  resumeRotation: (onProgress?: ProgressCallback) => Promise<void>;
+  getRecoveryKeyCreatedAt: () => Promise<string | null>;
+  createRecoveryKey: () => Promise<string>;
+  recoverVault: (mnemonic: string, newPassphrase: string) => Promise<void>;
+  listPasskeys: () => Promise<DeviceKey[]>;
+  registerPasskey: (label: string) => Promise<void>;
+  removePasskey: (id: string) => Promise<void>;
+  unlockWithPasskey: () => Promise<void>;
+  autoLock: AutoLockSettings;
+  setAutoLock: (settings: AutoLockSettings) => void;
+  createObjectUrl: (blob: Blob) => string;
+  lockVault: () => void;
   clearEncryption: () => void;
 }
 
 const EncryptionContext = createContext<EncryptionContextType | undefined>(undefined);
 
+const getAuthenticatedUser = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user?.email) {
+    throw new Error("User not authenticated");
+  }
+  return user;
+};
+
 export const EncryptionProvider = ({ children }: { children: ReactNode }) => {
-  const [encryptionKey, setEncryptionKey] = useState<CryptoKey | null>(null);
+  // The key new data keys are wrapped with; the pending key while rotating
+  const [activeKey, setActiveKey] = useState<MasterKey | null>(null);
+  // Every master key that may still wrap a row, by id
+  const [masterKeys, setMasterKeys] = useState<Map<string, CryptoKey>>(new Map());
+  const [currentKeyId, setCurrentKeyId] = useState<string | null>(null);
+  const [rotationTarget, setRotationTarget] = useState<MasterKey | null>(null);
+  const [sharingKey, setSharingKey] = useState<CryptoKey | null>(null);
   const [isEncryptionReady, setIsEncryptionReady] = useState(false);
+  const [autoLock, setAutoLockState] = useState<AutoLockSettings>(loadAutoLockSettings);
+  // Every object URL holding decrypted data, revoked when the vault locks
+  const objectUrls = useRef<Set<string>>(new Set());
+
+  const resolveMasterKey = useCallback(
+    (id: string | null) => masterKeys.get(id ?? currentKeyId ?? "") ?? null,
+    [masterKeys, currentKeyId]
+  );
+
+  const activate = (current: MasterKey, pending: MasterKey | null, sharing: CryptoKey) => {
+    const keys = new Map([[current.id, current.key]]);
+    if (pending) keys.set(pending.id, pending.key);
+
+    setMasterKeys(keys);
+    setSharingKey(sharing);
+    setCurrentKeyId(current.id);
+    setRotationTarget(pending);
+    setActiveKey(pending ?? current);
+    setIsEncryptionReady(true);
 
-  const setupEncryption = async (passphrase: string) => {
+    // Store a flag (not the key!) to remember encryption is set up
+    localStorage.setItem("encryption_enabled", "true");
+  };
+
+  // Upgrades shared by every unlock method, then makes the keys available
+  const finishUnlock = async (userId: string, current: MasterKey, pending: MasterKey | null) => {
+    const unlocked = new Map([[current.id, current.key]]);
+    if (pending) unlocked.set(pending.id, pending.key);
+    const resolveUnlocked = (id: string | null) => unlocked.get(id ?? current.id) ?? null;
+
+    // Data keys wrapped before they were bound to their photo and version
+    if (await hasUnboundObjects(userId)) {
+      toast.info("Securing your photos against tampering...");
+      await bindObjectKeys(userId, resolveUnlocked);
+    }
+
+    // Titles, descriptions and edit settings from before metadata encryption
+    if (await hasPlaintextMetadata(userId)) {
+      toast.info("Encrypting your photo titles and descriptions...");
+      await encryptPlaintextMetadata(userId, resolveUnlocked);
+    }
+
+    activate(current, pending, await loadSharingKey(userId, current));
+  };
+
+  const hasVault = useCallback(async () => {
+    const user = await getAuthenticatedUser();
+    return vaultExists(user.id);
+  }, []);
+
+  const createVault = async (passphrase: string, kdfParams: KdfParams = DEFAULT_KDF_PARAMS) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user?.email) {
-        throw new Error("User not authenticated");
+      const user = await getAuthenticatedUser();
+      if (await vaultExists(user.id)) {
+        throw new Error("A vault already exists for this account");
       }
 
-      const key = await deriveKey(user.email, passphrase);
-      setEncryptionKey(key);
-      setIsEncryptionReady(true);
-      
-      // Store a flag (not the key!) to remember encryption is set up
-      localStorage.setItem("encryption_enabled", "true");
+      const salt = generateSalt();
+      const kek = await deriveKey(passphrase, salt, kdfParams);
+      const current: MasterKey = { id: crypto.randomUUID(), key: await generateKey() };
+
+      await saveKdfSettings(user.id, {
+        salt,
+        params: kdfParams,
+        wrappedMasterKey: await wrapKey(current.key, kek, { kdf: kdfIdFor(kdfParams) }),
+        masterKeyId: current.id,
+        keyCheck: await createKeyCheck(user.id, kek, kdfParams),
+      });
+
+      activate(current, null, await loadSharingKey(user.id, current));
       toast.success("Encryption enabled");
     } catch (error) {
       toast.error("Failed to set up encryption");
@@ -37,12 +200,331 @@ export const EncryptionProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const clearEncryption = () => {
-    setEncryptionKey(null);
+  const unlockVault = async (passphrase: string) => {
+    try {
+      const user = await getAuthenticatedUser();
+      const profile = await fetchVaultProfile(user.id);
+      let legacyRekeyPending = profile.legacyRekeyPending;
+      let kek: CryptoKey;
+      let current: MasterKey;
+      let pending: MasterKey | null = null;
+
+      if (profile.kdfSalt) {
+        kek = await deriveKey(passphrase, profile.kdfSalt, profile.kdfParams);
+
+        if (profile.keyCheck) {
+          await verifyKeyCheck(user.id, profile.keyCheck, kek);
+        }
+
+        if (profile.wrappedMasterKey) {
+          current = {
+            id: profile.masterKeyId ?? "",
+            key: await unlockMasterKey(profile.wrappedMasterKey, kek),
+          };
+        } else {
+          // Salted profile from before envelope encryption. If its re-key from
+          // the static salt was interrupted, photos may still be under the legacy key.
+          const candidates = [kek];
+          if (legacyRekeyPending) {
+            candidates.push(await deriveLegacyKey(user.email, passphrase));
+          }
+          if (!(await verifyPassphraseKeys(user.id, candidates))) {
+            throw new IncorrectPassphraseError();
+          }
+          current = await createMasterKey(user.id, kek, profile.kdfParams);
+        }
+
+        // A rotation was interrupted; both keys are needed until it finishes
+        if (profile.pendingWrappedMasterKey && profile.pendingMasterKeyId) {
+          pending = {
+            id: profile.pendingMasterKeyId,
+            key: await unlockMasterKey(profile.pendingWrappedMasterKey, kek),
+          };
+        }
+
+        if (!profile.keyCheck) {
+          await saveKeyCheck(user.id, kek, profile.kdfParams);
+        }
+      } else {
+        // Accounts created under the static salt are unlocked with the legacy
+        // key once, then everything moves onto wrapped data keys
+        const legacyKey = await deriveLegacyKey(user.email, passphrase);
+        if (!(await verifyPassphraseKeys(user.id, [legacyKey]))) {
+          throw new IncorrectPassphraseError();
+        }
+
+        const salt = generateSalt();
+        kek = await deriveKey(passphrase, salt, DEFAULT_KDF_PARAMS);
+        current = { id: crypto.randomUUID(), key: await generateKey() };
+        legacyRekeyPending = true;
+
+        await saveKdfSettings(user.id, {
+          salt,
+          params: DEFAULT_KDF_PARAMS,
+          wrappedMasterKey: await wrapKey(current.key, kek, { kdf: kdfIdFor(DEFAULT_KDF_PARAMS) }),
+          masterKeyId: current.id,
+          keyCheck: await createKeyCheck(user.id, kek, DEFAULT_KDF_PARAMS),
+          legacyRekeyPending,
+        });
+      }
+
+      // Re-encrypt anything still under a passphrase key with its own data key
+      if (await hasUnwrappedObjects(user.id)) {
+        const passphraseKeys = [kek];
+        if (legacyRekeyPending) {
+          passphraseKeys.push(await deriveLegacyKey(user.email, passphrase));
+        }
+
+        toast.info("Upgrading encryption for your existing photos...");
+        await migrateUnwrappedObjects(user.id, passphraseKeys, pending ?? current);
+      }
+
+      if (legacyRekeyPending) {
+        await completeLegacyRekey(user.id);
+      }
+
+      await finishUnlock(user.id, current, pending);
+      toast.success("Vault unlocked");
+    } catch (error) {
+      // A wrong passphrase is reported by the unlock form itself
+      if (!(error instanceof IncorrectPassphraseError)) {
+        toast.error("Failed to unlock vault");
+      }
+      throw error;
+    }
+  };
+
+  const finishRotation = async (userId: string, target: MasterKey, onProgress?: ProgressCallback) => {
+    await rewrapDataKeys(userId, resolveMasterKey, target, onProgress);
+    // Uploads without a row yet are not in the tables the rotation walks
+    await rewrapPendingUploads(userId, resolveMasterKey, target);
+    await completeRotation(userId, resolveMasterKey, target);
+
+    setMasterKeys(new Map([[target.id, target.key]]));
+    setCurrentKeyId(target.id);
+    setRotationTarget(null);
+    setActiveKey(target);
+  };
+
+  const changePassphrase = async (
+    currentPassphrase: string,
+    newPassphrase: string,
+    rotateMasterKey: boolean,
+    kdfParams: KdfParams = DEFAULT_KDF_PARAMS,
+    onProgress?: ProgressCallback
+  ) => {
+    const user = await getAuthenticatedUser();
+    const profile = await fetchVaultProfile(user.id);
+
+    if (!profile.kdfSalt || !profile.wrappedMasterKey) {
+      throw new Error("Encryption is not set up");
+    }
+    if (rotationTarget) {
+      throw new Error("Finish the interrupted key rotation first");
+    }
+
+    // Verify the old passphrase before touching anything
+    const oldKek = await deriveKey(currentPassphrase, profile.kdfSalt, profile.kdfParams);
+    if (profile.keyCheck) {
+      await verifyKeyCheck(user.id, profile.keyCheck, oldKek);
+    }
+    const current: MasterKey = {
+      id: profile.masterKeyId ?? currentKeyId ?? "",
+      key: await unlockMasterKey(profile.wrappedMasterKey, oldKek),
+    };
+
+    const salt = generateSalt();
+    const kek = await deriveKey(newPassphrase, salt, kdfParams);
+    const target: MasterKey | null = rotateMasterKey
+      ? { id: crypto.randomUUID(), key: await generateKey() }
+      : null;
+
+    await savePassphrase(user.id, { salt, params: kdfParams, key: kek }, current, target);
+
+    if (target) {
+      setMasterKeys((prev) => new Map(prev).set(target.id, target.key));
+      setRotationTarget(target);
+      setActiveKey(target);
+      await finishRotation(user.id, target, onProgress);
+    }
+  };
+
+  const resumeRotation = async (onProgress?: ProgressCallback) => {
+    if (!rotationTarget) return;
+
+    const user = await getAuthenticatedUser();
+    await finishRotation(user.id, rotationTarget, onProgress);
+  };
+
+  const getRecoveryKeyCreatedAt = useCallback(async () => {
+    const user = await getAuthenticatedUser();
+    const profile = await fetchVaultProfile(user.id);
+    return profile.recoveryKeyCreatedAt;
+  }, []);
+
+  const createRecoveryKey = async () => {
+    const current = resolveMasterKey(currentKeyId);
+    if (!current || !currentKeyId) {
+      throw new Error("Unlock the vault first");
+    }
+
+    const user = await getAuthenticatedUser();
+    const recoveryKey = await generateRecoveryKey();
+    await saveRecoveryKey(user.id, recoveryKey.key, { id: currentKeyId, key: current }, rotationTarget);
+
+    // The mnemonic is returned once for display and never stored
+    return recoveryKey.mnemonic;
+  };
+
+  const recoverVault = async (mnemonic: string, newPassphrase: string) => {
+    const user = await getAuthenticatedUser();
+    const profile = await fetchVaultProfile(user.id);
+    const recoveryKey = await recoveryKeyFromMnemonic(mnemonic);
+    const { current, pending } = await unlockWithRecoveryKey(profile, recoveryKey);
+
+    // Replace the forgotten passphrase; a pending rotation stays pending
+    const salt = generateSalt();
+    const kek = await deriveKey(newPassphrase, salt, DEFAULT_KDF_PARAMS);
+    await savePassphrase(user.id, { salt, params: DEFAULT_KDF_PARAMS, key: kek }, current, pending);
+
+    await finishUnlock(user.id, current, pending);
+    toast.success("Vault recovered with your new passphrase");
+  };
+
+  const listPasskeys = useCallback(async () => {
+    const user = await getAuthenticatedUser();
+    return listDeviceKeys(user.id);
+  }, []);
+
+  const registerPasskey = async (label: string) => {
+    const current = resolveMasterKey(currentKeyId);
+    if (!current || !currentKeyId) {
+      throw new Error("Unlock the vault first");
+    }
+
+    const user = await getAuthenticatedUser();
+    const passkey = await createPasskey({ id: user.id, email: user.email }, label);
+    await saveDeviceKey(user.id, { ...passkey, label }, { id: currentKeyId, key: current }, rotationTarget);
+  };
+
+  const removePasskey = async (id: string) => {
+    await deleteDeviceKey(id);
+  };
+
+  const unlockWithPasskey = async () => {
+    const user = await getAuthenticatedUser();
+    const deviceKeys = await listDeviceKeys(user.id);
+    if (deviceKeys.length === 0) {
+      throw new Error("No passkeys are registered for this vault");
+    }
+
+    // Photos still under a passphrase key can only be moved with the passphrase
+    if (await hasUnwrappedObjects(user.id)) {
+      throw new Error("Unlock with your passphrase once to finish upgrading your photos");
+    }
+
+    const passkey = await authenticatePasskey(deviceKeys);
+    const deviceKey = deviceKeys.find((k) => k.credentialId === passkey.credentialId);
+    if (!deviceKey) {
+      throw new Error("This passkey is not registered for this vault");
+    }
+
+    const profile = await fetchVaultProfile(user.id);
+    const { current, pending } = await unlockWithDeviceKey(profile, deviceKey, passkey.key);
+    await markDeviceKeyUsed(deviceKey.id);
+
+    await finishUnlock(user.id, current, pending);
+    toast.success("Vault unlocked");
+  };
+
+  const setAutoLock = (settings: AutoLockSettings) => {
+    setAutoLockState(settings);
+    localStorage.setItem(AUTO_LOCK_STORAGE_KEY, JSON.stringify(settings));
+  };
+
+  const createObjectUrl = useCallback((blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    objectUrls.current.add(url);
+    return url;
+  }, []);
+
+  const lockVault = () => {
+    // Work still in flight would otherwise finish with the keys being dropped
+    cancelCryptoTasks();
+    objectUrls.current.forEach((url) => URL.revokeObjectURL(url));
+    objectUrls.current.clear();
+
+    setActiveKey(null);
+    setMasterKeys(new Map());
+    setSharingKey(null);
+    setCurrentKeyId(null);
+    setRotationTarget(null);
     setIsEncryptionReady(false);
+  };
+
+  const clearEncryption = () => {
+    lockVault();
     localStorage.removeItem("encryption_enabled");
   };
 
+  // Lock after the configured idle time, and optionally when the tab is hidden
+  useEffect(() => {
+    if (!isEncryptionReady) return;
+
+    const idleMs = autoLock.idleMinutes ? autoLock.idleMinutes * 60 * 1000 : null;
+    let lastActivity = Date.now();
+    let timer: number | undefined;
+
+    const schedule = () => {
+      window.clearTimeout(timer);
+      if (idleMs) timer = window.setTimeout(lockVault, idleMs);
+    };
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      schedule();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        if (autoLock.lockOnHide) lockVault();
+      } else if (idleMs && Date.now() - lastActivity >= idleMs) {
+        // Timers are throttled in background tabs and while the device sleeps
+        lockVault();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    schedule();
+
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [isEncryptionReady, autoLock.idleMinutes, autoLock.lockOnHide]);
+
+  // Thumbnails for photos saved before they existed, made behind the unlocked
+  // vault and stopped when it locks
+  useEffect(() => {
+    if (masterKeys.size === 0) return;
+    const controller = new AbortController();
+
+    supabase.auth
+      .getUser()
+      .then(({ data: { user } }) => {
+        if (!user || controller.signal.aborted) return;
+        return backfillThumbnails(user.id, resolveMasterKey, controller.signal);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("Thumbnail backfill error:", error);
+      });
+
+    return () => controller.abort();
+  }, [masterKeys, resolveMasterKey]);
+
   // Check if encryption should be enabled on mount
   useEffect(() => {
     const encryptionEnabled = localStorage.getItem("encryption_enabled");
@@ -55,9 +537,28 @@ export const EncryptionProvider = ({ children }: { children: ReactNode }) => {
   return (
     <EncryptionContext.Provider
       value={{
-        encryptionKey,
+        masterKey: activeKey?.key ?? null,
+        masterKeyId: activeKey?.id ?? null,
         isEncryptionReady,
-        setupEncryption,
+        rotationPending: rotationTarget !== null,
+        resolveMasterKey,
+        sharingKey,
+        hasVault,
+        createVault,
+        unlockVault,
+        changePassphrase,
+        resumeRotation,
+        getRecoveryKeyCreatedAt,
+        createRecoveryKey,
+        recoverVault,
+        listPasskeys,
+        registerPasskey,
+        removePasskey,
+        unlockWithPasskey,
+        autoLock,
+        setAutoLock,
+        createObjectUrl,
+        lockVault,
         clearEncryption,
       }}
     >
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useEncryption } from "@/hooks/useEncryption";
+import { OpenedSpace, createSpace as createSpaceRow, listSpaces } from "@/lib/spaces";
+import { backfillSpaceThumbnails } from "@/lib/thumbnails";
+
+interface SpacesContextType {
+  spaces: OpenedSpace[];
+  // The space the gallery and uploads are scoped to; null is the personal vault
+  activeSpace: OpenedSpace | null;
+  setActiveSpaceId: (id: string | null) => void;
+  refreshSpaces: () => Promise<void>;
+  createSpace: (name: string) => Promise<OpenedSpace>;
+  // Replaces a space after its members or key version changed
+  updateSpace: (space: OpenedSpace) => void;
+}
+
+const SpacesContext = createContext<SpacesContextType | undefined>(undefined);
+
+export const SpacesProvider = ({ children }: { children: ReactNode }) => {
+  const [spaces, setSpaces] = useState<OpenedSpace[]>([]);
+  const [activeSpaceId, setActiveSpaceId] = useState<string | null>(null);
+  const { sharingKey } = useEncryption();
+
+  const refreshSpaces = useCallback(async () => {
+    if (!sharingKey) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const next = await listSpaces(user.id, sharingKey);
+    setSpaces(next);
+    // Removed from the active space elsewhere
+    setActiveSpaceId((id) => (id && next.some((opened) => opened.space.id === id) ? id : null));
+  }, [sharingKey]);
+
+  const createSpace = async (name: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const created = await createSpaceRow(user.id, name);
+    setSpaces((prev) => [...prev, created]);
+    return created;
+  };
+
+  const updateSpace = (space: OpenedSpace) => {
+    setSpaces((prev) => prev.map((opened) => (opened.space.id === space.space.id ? space : opened)));
+  };
+
+  useEffect(() => {
+    // Space keys are forgotten with the rest of the vault when it locks
+    if (!sharingKey) {
+      setSpaces([]);
+      setActiveSpaceId(null);
+      return;
+    }
+
+    refreshSpaces().catch((error) => console.error("Error loading spaces:", error));
+
+    // Key rows arrive when this account joins a space; a space row changes
+    // when its key is rotated and uploads move to the new version
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let cancelled = false;
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || cancelled) return;
+
+      const refresh = () => {
+        refreshSpaces().catch((error) => console.error("Error loading spaces:", error));
+      };
+
+      channel = supabase
+        .channel(`spaces-${user.id}`)
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "space_keys", filter: `user_id=eq.${user.id}` },
+          refresh
+        )
+        .on("postgres_changes", { event: "UPDATE", schema: "public", table: "spaces" }, refresh)
+        .subscribe();
+    });
+
+    return () => {
+      cancelled = true;
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [sharingKey, refreshSpaces]);
+
+  // Thumbnails for this account's space photos saved before they existed.
+  // Restarted whenever the spaces reload, since that may bring new key versions.
+  useEffect(() => {
+    if (spaces.length === 0) return;
+    const controller = new AbortController();
+
+    const resolveSpaceKey = (spaceId: string, keyVersion: number | null) =>
+      spaces.find((opened) => opened.space.id === spaceId)?.keys.get(keyVersion ?? 0) ?? null;
+
+    supabase.auth
+      .getUser()
+      .then(({ data: { user } }) => {
+        if (!user || controller.signal.aborted) return;
+        return backfillSpaceThumbnails(user.id, resolveSpaceKey, controller.signal);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("Space thumbnail backfill error:", error);
+      });
+
+    return () => controller.abort();
+  }, [spaces]);
+
+  return (
+    <SpacesContext.Provider
+      value={{
+        spaces,
+        activeSpace: spaces.find((opened) => opened.space.id === activeSpaceId) ?? null,
+        setActiveSpaceId,
+        refreshSpaces,
+        createSpace,
+        updateSpace,
+      }}
+    >
+      {children}
+    </SpacesContext.Provider>
+  );
+};
+
+export const useSpaces = () => {
+  const context = useContext(SpacesContext);
+  if (!context) {
+    throw new Error("useSpaces must be used within SpacesProvider");
+  }
+  return context;
+};
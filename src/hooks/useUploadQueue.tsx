@@ -0,0 +1,597 @@
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { useEncryption } from "@/hooks/useEncryption";
+import { useSpaces } from "@/hooks/useSpaces";
+import { OpenedAlbum, getAlbum, openAlbum } from "@/lib/albums";
+import { loadMetadataPolicy } from "@/lib/exif";
+import { PhotoMetadata } from "@/lib/metadata";
+import { canUploadToSpace, isRotationPending } from "@/lib/spaces";
+import { UploadError } from "@/lib/storage";
+import { PendingUpload, deletePendingUpload, listPendingUploads, savePendingUpload } from "@/lib/uploadStore";
+import {
+  PreparedUpload,
+  UploadTarget,
+  addUploadToAlbum,
+  insertUpload,
+  prepareUpload,
+  rewrapUpload,
+  storeUpload,
+  storeUploadThumbnails,
+} from "@/lib/uploads";
+
+const MAX_CONCURRENT_UPLOADS = 3;
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+
+export type UploadStatus =
+  | "queued"
+  | "encrypting"
+  | "uploading"
+  | "saving"
+  | "retrying"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface UploadItem {
+  id: string;
+  name: string;
+  size: number;
+  status: UploadStatus;
+  // How far the current step has got, from 0 to 1
+  progress: number;
+  attempts: number;
+  error: string | null;
+}
+
+export interface UploadRequest {
+  file: File;
+  // The title defaults to the file name
+  metadata?: Partial<PhotoMetadata>;
+  // Only personal uploads can be filed in an album
+  album?: OpenedAlbum | null;
+}
+
+// What a queued file needs to be uploaded, and what earlier attempts achieved.
+// Uploads restored after a reload are already encrypted and have no file or key.
+interface QueueEntry {
+  name: string;
+  file: File | null;
+  wrappingKey: CryptoKey | null;
+  target: UploadTarget;
+  metadata: PhotoMetadata;
+  album: OpenedAlbum | null;
+  // A restored upload's album, opened when the photo is filed
+  albumId: string | null;
+  prepared: PreparedUpload | null;
+  uploadUrl: string | null;
+  stored: boolean;
+  inserted: boolean;
+  controller: AbortController | null;
+  // Why a running upload was stopped, so it is not mistaken for a failure
+  stopReason: "pause" | "cancel" | "lock" | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  createdAt: number;
+}
+
+interface UploadQueueContextType {
+  items: UploadItem[];
+  paused: boolean;
+  // Bumped whenever a photo lands, so galleries know to refresh
+  completedCount: number;
+  enqueue: (requests: UploadRequest[]) => Promise<number>;
+  pause: () => void;
+  resume: () => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  retry: (id: string) => void;
+  retryFailed: () => void;
+  clearFinished: () => void;
+}
+
+const UploadQueueContext = createContext<UploadQueueContextType | undefined>(undefined);
+
+const FINISHED: UploadStatus[] = ["done", "failed", "cancelled"];
+
+/**
+ * Network failures, rate limits and server errors are retried. So are
+ * requests that never reached the database; rejected rows are not.
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof UploadError) return error.retryable;
+  if (error instanceof TypeError) return true;
+  return (error as { code?: string } | null)?.code === "";
+}
+
+function errorMessage(error: unknown): string | null {
+  return (error as { message?: string } | null)?.message || null;
+}
+
+function logPersistError(error: unknown) {
+  // Uploads still work without IndexedDB, they just cannot resume after a reload
+  console.error("Upload state could not be saved:", error);
+}
+
+function retryDelay(attempt: number): number {
+  // Exponential backoff with jitter, so failed uploads do not retry in step
+  return BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+}
+
+export const UploadQueueProvider = ({ children }: { children: ReactNode }) => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [completedCount, setCompletedCount] = useState(0);
+  const { masterKey, masterKeyId, resolveMasterKey } = useEncryption();
+  const { activeSpace, spaces } = useSpaces();
+  // The scheduler works from refs so callbacks never see stale state
+  const itemsRef = useRef<UploadItem[]>([]);
+  const entries = useRef(new Map<string, QueueEntry>());
+  const running = useRef(0);
+  const pausedRef = useRef(false);
+  // Outcomes since the queue last drained, for the summary
+  const batch = useRef({ done: 0, failed: 0 });
+  // The key personal uploads are inserted under, which a rotation changes mid-queue
+  const currentKey = useRef({ masterKey, masterKeyId, resolveMasterKey });
+  currentKey.current = { masterKey, masterKeyId, resolveMasterKey };
+  // Spaces as they are now; removing a member elsewhere pauses uploads to one
+  const currentSpaces = useRef(spaces);
+  currentSpaces.current = spaces;
+
+  const update = (id: string, patch: Partial<UploadItem>) => {
+    itemsRef.current = itemsRef.current.map((item) => (item.id === id ? { ...item, ...patch } : item));
+    setItems(itemsRef.current);
+  };
+
+  // Saves an encrypted upload's progress so a reload can pick it up
+  const persist = (entry: QueueEntry) => {
+    if (!entry.prepared) return;
+
+    const pending: PendingUpload = {
+      ...entry.prepared,
+      ...entry.target,
+      albumId: entry.album?.album.id ?? entry.albumId,
+      name: entry.name,
+      uploadUrl: entry.uploadUrl,
+      stored: entry.stored,
+      createdAt: entry.createdAt,
+    };
+    savePendingUpload(pending).catch(logPersistError);
+  };
+
+  // Drops what a file left behind; a stored object without a row is removed
+  const discard = (id: string) => {
+    const entry = entries.current.get(id);
+    if (!entry) return;
+
+    if (entry.retryTimer) clearTimeout(entry.retryTimer);
+    if (entry.prepared) {
+      deletePendingUpload(entry.prepared.photoId).catch(logPersistError);
+    }
+    if (entry.stored && !entry.inserted && entry.prepared) {
+      supabase.storage
+        .from("photos")
+        .remove([entry.prepared.storagePath, ...entry.prepared.thumbnails.map(({ path }) => path)])
+        .catch((error) => console.error("Orphaned upload cleanup error:", error));
+    }
+    entries.current.delete(id);
+  };
+
+  // Moves a personal upload onto the current master key while the key it was
+  // wrapped under is still held, so its row never lands under a retired key
+  const adoptCurrentKey = async (entry: QueueEntry, previousKey: CryptoKey | null = null) => {
+    const { masterKey: key, masterKeyId: keyId, resolveMasterKey: resolve } = currentKey.current;
+    const { masterKeyId } = entry.target;
+    if (!entry.prepared || !key || !keyId || !masterKeyId || masterKeyId === keyId) return;
+
+    const wrappingKey = previousKey ?? resolve(masterKeyId);
+    if (!wrappingKey) {
+      throw new Error("This upload's master key was retired before it finished");
+    }
+    const rewrapped = await rewrapUpload(entry.prepared, entry.target, wrappingKey, { id: keyId, key });
+    entry.prepared = rewrapped.prepared;
+    entry.target = rewrapped.target;
+    persist(entry);
+  };
+
+  const openEntryAlbum = async (entry: QueueEntry): Promise<OpenedAlbum | null> => {
+    if (entry.album || !entry.albumId) return entry.album;
+
+    // Deleted while the upload was interrupted
+    const album = await getAlbum(entry.albumId);
+    return album ? openAlbum(album, resolveMasterKey) : null;
+  };
+
+  const summarizeIfDrained = () => {
+    const busy = itemsRef.current.some((item) => !FINISHED.includes(item.status));
+    const { done, failed } = batch.current;
+    if (busy || done + failed === 0) return;
+
+    batch.current = { done: 0, failed: 0 };
+    if (failed === 0) {
+      toast.success(`${done} ${done === 1 ? "photo" : "photos"} encrypted and uploaded`);
+    } else {
+      toast.error(`${failed} of ${done + failed} uploads failed`, {
+        description: "Open the upload queue to see why and retry them.",
+      });
+    }
+  };
+
+  const pump = () => {
+    while (!pausedRef.current && running.current < MAX_CONCURRENT_UPLOADS) {
+      const next = itemsRef.current.find((item) => item.status === "queued");
+      if (!next) break;
+      run(next.id);
+    }
+    summarizeIfDrained();
+  };
+
+  const run = async (id: string) => {
+    const entry = entries.current.get(id);
+    const item = itemsRef.current.find((other) => other.id === id);
+    if (!entry || !item) return;
+
+    const controller = new AbortController();
+    const attempt = item.attempts + 1;
+    entry.controller = controller;
+    entry.stopReason = null;
+    running.current += 1;
+
+    // Progress events are frequent; only whole percentages re-render
+    let shown = -1;
+    const onProgress = (fraction: number) => {
+      const percent = Math.floor(fraction * 100);
+      if (percent === shown) return;
+      shown = percent;
+      update(id, { progress: fraction });
+    };
+
+    update(id, { attempts: attempt, error: null });
+    try {
+      // The server refuses rows under a key version a removed member may hold
+      const space = currentSpaces.current.find((opened) => opened.space.id === entry.target.spaceId);
+      if (space && isRotationPending(space)) {
+        throw new Error("Uploads to this space are paused until its key rotation is finished");
+      }
+      if (space && space.space.key_version !== entry.target.spaceKeyVersion) {
+        throw new Error("This space's key changed after the upload was queued");
+      }
+
+      if (!entry.prepared) {
+        update(id, { status: "encrypting", progress: 0 });
+        entry.prepared = await prepareUpload(entry.file, entry.target, entry.wrappingKey, entry.metadata, {
+          signal: controller.signal,
+          onProgress,
+        });
+        // A rotation may have started while the file was encrypted
+        await adoptCurrentKey(entry, entry.wrappingKey);
+        // Neither is needed again once the ciphertext exists
+        entry.file = null;
+        entry.wrappingKey = null;
+        persist(entry);
+      }
+
+      if (!entry.stored) {
+        shown = -1;
+        update(id, { status: "uploading", progress: 0 });
+        const resumable = entry.uploadUrl !== null;
+        try {
+          await storeUpload(entry.prepared, {
+            signal: controller.signal,
+            onProgress,
+            uploadUrl: entry.uploadUrl,
+            onUploadUrl: (url) => {
+              entry.uploadUrl = url;
+              persist(entry);
+            },
+          });
+        } catch (error) {
+          // Stored on an earlier attempt whose response was lost
+          const earlier = attempt > 1 || resumable;
+          if (!(earlier && error instanceof UploadError && error.status === 409)) throw error;
+        }
+        await storeUploadThumbnails(entry.prepared);
+        entry.stored = true;
+        persist(entry);
+      }
+
+      update(id, { status: "saving", progress: 1 });
+      if (!entry.inserted) {
+        await adoptCurrentKey(entry);
+        try {
+          await insertUpload(entry.prepared, entry.target);
+        } catch (error) {
+          // The row landed on an earlier attempt whose response was lost
+          if ((error as { code?: string }).code !== "23505") throw error;
+        }
+        entry.inserted = true;
+      }
+      const album = await openEntryAlbum(entry);
+      if (album) {
+        await addUploadToAlbum(entry.prepared, entry.target, album, resolveMasterKey);
+      }
+
+      // The row now owns the object, so nothing is left to discard
+      deletePendingUpload(entry.prepared.photoId).catch(logPersistError);
+      entries.current.delete(id);
+      update(id, { status: "done", progress: 1 });
+      batch.current.done += 1;
+      setCompletedCount((count) => count + 1);
+    } catch (error) {
+      // An abort nobody here asked for is the crypto pool stopping as the vault locks
+      const locked = !entry.stopReason && error instanceof DOMException && error.name === "AbortError";
+      if (entry.stopReason === "lock" || locked) {
+        // Dropped from the queue with the keys; any saved state is resumed on unlock
+      } else if (entry.stopReason === "pause") {
+        // A paused attempt does not count against the retries
+        update(id, { status: "queued", progress: 0, attempts: attempt - 1 });
+      } else if (entry.stopReason === "cancel") {
+        discard(id);
+        update(id, { status: "cancelled" });
+      } else if (attempt < MAX_ATTEMPTS && isRetryable(error)) {
+        console.error(`Upload attempt ${attempt} failed, retrying:`, error);
+        update(id, { status: "retrying", error: errorMessage(error) });
+        entry.retryTimer = setTimeout(() => {
+          entry.retryTimer = null;
+          update(id, { status: "queued", progress: 0 });
+          pump();
+        }, retryDelay(attempt));
+      } else {
+        console.error("Upload error:", error);
+        update(id, { status: "failed", error: errorMessage(error) ?? "Failed to upload photo" });
+        batch.current.failed += 1;
+      }
+    } finally {
+      entry.controller = null;
+      running.current -= 1;
+      pump();
+    }
+  };
+
+  const enqueue = async (requests: UploadRequest[]) => {
+    if (!masterKey) {
+      toast.error("Encryption not set up");
+      return 0;
+    }
+    if (activeSpace && !canUploadToSpace(activeSpace.role)) {
+      toast.error("Viewers cannot upload to this space");
+      return 0;
+    }
+    if (activeSpace && isRotationPending(activeSpace)) {
+      toast.error("Uploads to this space are paused until its key rotation is finished");
+      return 0;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("Not authenticated");
+      return 0;
+    }
+
+    // Uploads to a space are wrapped under its current key, not the master key
+    const wrappingKey = activeSpace ? activeSpace.keys.get(activeSpace.space.key_version) : masterKey;
+    if (!wrappingKey) {
+      toast.error("This space's current key is not available");
+      return 0;
+    }
+
+    const target: UploadTarget = {
+      userId: user.id,
+      masterKeyId: activeSpace ? null : masterKeyId,
+      spaceId: activeSpace?.space.id ?? null,
+      spaceKeyVersion: activeSpace?.space.key_version ?? null,
+    };
+
+    const added = requests.map(({ file, metadata = {}, album = null }): UploadItem => {
+      const id = crypto.randomUUID();
+      entries.current.set(id, {
+        name: file.name,
+        file,
+        wrappingKey,
+        target,
+        metadata: {
+          title: metadata.title || file.name,
+          description: metadata.description || null,
+          path: metadata.path ?? null,
+          metadataPolicy: metadata.metadataPolicy ?? loadMetadataPolicy(),
+        },
+        album: activeSpace ? null : album,
+        albumId: null,
+        prepared: null,
+        uploadUrl: null,
+        stored: false,
+        inserted: false,
+        controller: null,
+        stopReason: null,
+        retryTimer: null,
+        createdAt: Date.now(),
+      });
+      return { id, name: file.name, size: file.size, status: "queued", progress: 0, attempts: 0, error: null };
+    });
+
+    itemsRef.current = [...itemsRef.current, ...added];
+    setItems(itemsRef.current);
+    pump();
+    return added.length;
+  };
+
+  const pause = () => {
+    pausedRef.current = true;
+    setPaused(true);
+    // Running uploads go back in the queue, keeping any finished encryption
+    entries.current.forEach((entry) => {
+      if (!entry.controller) return;
+      entry.stopReason = "pause";
+      entry.controller.abort();
+    });
+  };
+
+  const resume = () => {
+    pausedRef.current = false;
+    setPaused(false);
+    pump();
+  };
+
+  const cancel = (id: string) => {
+    const entry = entries.current.get(id);
+    const item = itemsRef.current.find((other) => other.id === id);
+    if (!item || FINISHED.includes(item.status)) return;
+
+    if (entry?.controller) {
+      entry.stopReason = "cancel";
+      entry.controller.abort();
+      return;
+    }
+    discard(id);
+    update(id, { status: "cancelled" });
+    summarizeIfDrained();
+  };
+
+  const cancelAll = () => {
+    itemsRef.current.forEach((item) => cancel(item.id));
+  };
+
+  const retry = (id: string) => {
+    const item = itemsRef.current.find((other) => other.id === id);
+    if (item?.status !== "failed" || !entries.current.has(id)) return;
+
+    batch.current.failed = Math.max(0, batch.current.failed - 1);
+    update(id, { status: "queued", progress: 0, attempts: 0, error: null });
+    pump();
+  };
+
+  const retryFailed = () => {
+    itemsRef.current.filter((item) => item.status === "failed").forEach((item) => retry(item.id));
+  };
+
+  const clearFinished = () => {
+    itemsRef.current.filter((item) => FINISHED.includes(item.status)).forEach((item) => discard(item.id));
+    itemsRef.current = itemsRef.current.filter((item) => !FINISHED.includes(item.status));
+    setItems(itemsRef.current);
+  };
+
+  // Picks up uploads a reload or a lock interrupted
+  const restorePending = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const known = new Set([...entries.current.values()].map((entry) => entry.prepared?.photoId));
+    const pending = (await listPendingUploads(user.id)).filter((upload) => !known.has(upload.photoId));
+    if (pending.length === 0) return;
+
+    const restored = pending.map((upload): UploadItem => {
+      const id = crypto.randomUUID();
+      entries.current.set(id, {
+        name: upload.name,
+        file: null,
+        wrappingKey: null,
+        target: {
+          userId: upload.userId,
+          masterKeyId: upload.masterKeyId,
+          spaceId: upload.spaceId,
+          spaceKeyVersion: upload.spaceKeyVersion,
+        },
+        metadata: { title: null, description: null },
+        album: null,
+        albumId: upload.albumId,
+        prepared: {
+          photoId: upload.photoId,
+          storagePath: upload.storagePath,
+          encryptedBlob: upload.encryptedBlob,
+          wrappedKey: upload.wrappedKey,
+          encryptedMetadata: upload.encryptedMetadata,
+          // Uploads saved before thumbnails existed have none
+          thumbnails: upload.thumbnails ?? [],
+        },
+        uploadUrl: upload.uploadUrl,
+        stored: upload.stored,
+        inserted: false,
+        controller: null,
+        stopReason: null,
+        retryTimer: null,
+        createdAt: upload.createdAt,
+      });
+      return {
+        id,
+        name: upload.name,
+        size: upload.encryptedBlob.size,
+        status: "queued",
+        progress: 0,
+        attempts: 0,
+        error: null,
+      };
+    });
+
+    // Saved before a rotation that has since started; the old key is still held
+    await Promise.all(
+      restored.map(({ id }) =>
+        adoptCurrentKey(entries.current.get(id)).catch((error) => console.error("Upload re-wrap error:", error))
+      )
+    );
+
+    itemsRef.current = [...itemsRef.current, ...restored];
+    setItems(itemsRef.current);
+    toast.info(`Resuming ${restored.length} interrupted ${restored.length === 1 ? "upload" : "uploads"}`);
+    pump();
+  };
+
+  // Stops everything and forgets the queue. Saved state, which is all
+  // ciphertext, stays for the next unlock.
+  const forgetAll = () => {
+    entries.current.forEach((entry) => {
+      if (entry.retryTimer) clearTimeout(entry.retryTimer);
+      if (!entry.controller) return;
+      entry.stopReason = "lock";
+      entry.controller.abort();
+    });
+    entries.current.clear();
+    itemsRef.current = [];
+    setItems([]);
+    batch.current = { done: 0, failed: 0 };
+  };
+
+  // This render's handlers, for the effect below that only reruns on a key change
+  const handlers = useRef({ adoptCurrentKey, restorePending });
+  handlers.current = { adoptCurrentKey, restorePending };
+
+  useEffect(() => {
+    // Plaintext files and keys are not kept once the vault locks
+    if (!masterKey) {
+      forgetAll();
+      return;
+    }
+    // A rotation that just started moves what is queued onto its key
+    entries.current.forEach((entry) => {
+      handlers.current.adoptCurrentKey(entry).catch((error) => console.error("Upload re-wrap error:", error));
+    });
+    handlers.current.restorePending().catch((error) => console.error("Error restoring uploads:", error));
+  }, [masterKey]);
+
+  return (
+    <UploadQueueContext.Provider
+      value={{
+        items,
+        paused,
+        completedCount,
+        enqueue,
+        pause,
+        resume,
+        cancel,
+        cancelAll,
+        retry,
+        retryFailed,
+        clearFinished,
+      }}
+    >
+      {children}
+    </UploadQueueContext.Provider>
+  );
+};
+
+export const useUploadQueue = () => {
+  const context = useContext(UploadQueueContext);
+  if (!context) {
+    throw new Error("useUploadQueue must be used within UploadQueueProvider");
+  }
+  return context;
+};
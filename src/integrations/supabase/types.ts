@@ -14,68 +14,341 @@ export type Database = {
   }
   public: {
     Tables: {
+      album_photos: {
+        Row: {
+          album_id: string
+          created_at: string
+          photo_id: string
+          position: number
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          album_id: string
+          created_at?: string
+          photo_id: string
+          position?: number
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          album_id?: string
+          created_at?: string
+          photo_id?: string
+          position?: number
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "album_photos_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "album_photos_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      albums: {
+        Row: {
+          created_at: string
+          encrypted_metadata: string
+          id: string
+          master_key_id: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          encrypted_metadata: string
+          id?: string
+          master_key_id: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          encrypted_metadata?: string
+          id?: string
+          master_key_id?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: []
+      }
+      device_keys: {
+        Row: {
+          created_at: string
+          credential_id: string
+          id: string
+          label: string
+          last_used_at: string | null
+          master_key_id: string
+          pending_master_key_id: string | null
+          pending_wrapped_master_key: string | null
+          prf_salt: string
+          user_id: string
+          wrapped_device_key: string
+          wrapped_master_key: string
+        }
+        Insert: {
+          created_at?: string
+          credential_id: string
+          id?: string
+          label: string
+          last_used_at?: string | null
+          master_key_id: string
+          pending_master_key_id?: string | null
+          pending_wrapped_master_key?: string | null
+          prf_salt: string
+          user_id: string
+          wrapped_device_key: string
+          wrapped_master_key: string
+        }
+        Update: {
+          created_at?: string
+          credential_id?: string
+          id?: string
+          label?: string
+          last_used_at?: string | null
+          master_key_id?: string
+          pending_master_key_id?: string | null
+          pending_wrapped_master_key?: string | null
+          prf_salt?: string
+          user_id?: string
+          wrapped_device_key?: string
+          wrapped_master_key?: string
+        }
+        Relationships: []
+      }
+      emergency_access_events: {
+        Row: {
+          contact_id: string | null
+          created_at: string
+          grantee_email: string | null
+          grantee_id: string
+          grantor_email: string | null
+          grantor_id: string
+          id: string
+          kind: string
+        }
+        Insert: {
+          contact_id?: string | null
+          created_at?: string
+          grantee_email?: string | null
+          grantee_id: string
+          grantor_email?: string | null
+          grantor_id: string
+          id?: string
+          kind: string
+        }
+        Update: {
+          contact_id?: string | null
+          created_at?: string
+          grantee_email?: string | null
+          grantee_id?: string
+          grantor_email?: string | null
+          grantor_id?: string
+          id?: string
+          kind?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "emergency_access_events_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      emergency_contacts: {
+        Row: {
+          created_at: string
+          granted_at: string | null
+          grantee_email: string | null
+          grantee_id: string
+          grantor_email: string | null
+          grantor_id: string
+          id: string
+          requested_at: string | null
+          status: string
+          wait_days: number
+        }
+        Insert: {
+          created_at?: string
+          granted_at?: string | null
+          grantee_email?: string | null
+          grantee_id: string
+          grantor_email?: string | null
+          grantor_id: string
+          id?: string
+          requested_at?: string | null
+          status?: string
+          wait_days: number
+        }
+        Update: {
+          created_at?: string
+          granted_at?: string | null
+          grantee_email?: string | null
+          grantee_id?: string
+          grantor_email?: string | null
+          grantor_id?: string
+          id?: string
+          requested_at?: string | null
+          status?: string
+          wait_days?: number
+        }
+        Relationships: []
+      }
+      emergency_keys: {
+        Row: {
+          contact_id: string
+          created_at: string
+          ephemeral_public_key: string
+          grantor_id: string
+          master_key_id: string
+          wrapped_master_key: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          ephemeral_public_key: string
+          grantor_id: string
+          master_key_id: string
+          wrapped_master_key: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          ephemeral_public_key?: string
+          grantor_id?: string
+          master_key_id?: string
+          wrapped_master_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "emergency_keys_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: true
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       photo_versions: {
         Row: {
+          aad_bound: boolean
           created_at: string
           edit_metadata: Json | null
+          encrypted_metadata: string | null
           id: string
+          master_key_id: string | null
           photo_id: string
           storage_path: string
-          url: string
+          thumbnail_paths: Json | null
+          url: string | null
           user_id: string
           version_number: number
+          wrapped_key: string | null
         }
         Insert: {
+          aad_bound?: boolean
           created_at?: string
           edit_metadata?: Json | null
+          encrypted_metadata?: string | null
           id?: string
+          master_key_id?: string | null
           photo_id: string
           storage_path: string
-          url: string
+          thumbnail_paths?: Json | null
+          url?: string | null
           user_id: string
           version_number: number
+          wrapped_key?: string | null
         }
         Update: {
+          aad_bound?: boolean
           created_at?: string
           edit_metadata?: Json | null
+          encrypted_metadata?: string | null
           id?: string
+          master_key_id?: string | null
           photo_id?: string
           storage_path?: string
-          url?: string
+          thumbnail_paths?: Json | null
+          url?: string | null
           user_id?: string
           version_number?: number
+          wrapped_key?: string | null
         }
         Relationships: []
       }
       photos: {
         Row: {
+          aad_bound: boolean
           created_at: string
           description: string | null
+          encrypted_metadata: string | null
           id: string
+          master_key_id: string | null
+          space_id: string | null
+          space_key_version: number | null
           storage_path: string
+          thumbnail_paths: Json | null
           title: string | null
-          url: string
+          url: string | null
           user_id: string
+          wrapped_key: string | null
         }
         Insert: {
+          aad_bound?: boolean
           created_at?: string
           description?: string | null
+          encrypted_metadata?: string | null
           id?: string
+          master_key_id?: string | null
+          space_id?: string | null
+          space_key_version?: number | null
           storage_path: string
+          thumbnail_paths?: Json | null
           title?: string | null
-          url: string
+          url?: string | null
           user_id: string
+          wrapped_key?: string | null
         }
         Update: {
+          aad_bound?: boolean
           created_at?: string
           description?: string | null
+          encrypted_metadata?: string | null
           id?: string
+          master_key_id?: string | null
+          space_id?: string | null
+          space_key_version?: number | null
           storage_path?: string
+          thumbnail_paths?: Json | null
           title?: string | null
-          url?: string
+          url?: string | null
           user_id?: string
+          wrapped_key?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "photos_space_id_fkey"
+            columns: ["space_id"]
+            isOneToOne: false
+            referencedRelation: "spaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -83,21 +356,254 @@ export type Database = {
           created_at: string
           email: string | null
           id: string
+          kdf_params: Json | null
+          kdf_salt: string | null
+          key_check: string | null
+          legacy_rekey_pending: boolean
+          master_key_id: string | null
+          pending_master_key_id: string | null
+          pending_recovery_wrapped_master_key: string | null
+          pending_wrapped_master_key: string | null
+          recovery_key_created_at: string | null
+          recovery_wrapped_master_key: string | null
+          sharing_public_key: string | null
           username: string | null
+          wrapped_master_key: string | null
+          wrapped_recovery_key: string | null
+          wrapped_sharing_private_key: string | null
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
           email?: string | null
           id: string
+          kdf_params?: Json | null
+          kdf_salt?: string | null
+          key_check?: string | null
+          legacy_rekey_pending?: boolean
+          master_key_id?: string | null
+          pending_master_key_id?: string | null
+          pending_recovery_wrapped_master_key?: string | null
+          pending_wrapped_master_key?: string | null
+          recovery_key_created_at?: string | null
+          recovery_wrapped_master_key?: string | null
+          sharing_public_key?: string | null
           username?: string | null
+          wrapped_master_key?: string | null
+          wrapped_recovery_key?: string | null
+          wrapped_sharing_private_key?: string | null
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
           email?: string | null
           id?: string
+          kdf_params?: Json | null
+          kdf_salt?: string | null
+          key_check?: string | null
+          legacy_rekey_pending?: boolean
+          master_key_id?: string | null
+          pending_master_key_id?: string | null
+          pending_recovery_wrapped_master_key?: string | null
+          pending_wrapped_master_key?: string | null
+          recovery_key_created_at?: string | null
+          recovery_wrapped_master_key?: string | null
+          sharing_public_key?: string | null
           username?: string | null
+          wrapped_master_key?: string | null
+          wrapped_recovery_key?: string | null
+          wrapped_sharing_private_key?: string | null
+        }
+        Relationships: []
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          kdf_params: Json | null
+          max_views: number | null
+          owner_id: string
+          password_salt: string | null
+          photo_id: string
+          token: string
+          view_count: number
+          view_proof_hash: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          kdf_params?: Json | null
+          max_views?: number | null
+          owner_id: string
+          password_salt?: string | null
+          photo_id: string
+          token: string
+          view_count?: number
+          view_proof_hash: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          kdf_params?: Json | null
+          max_views?: number | null
+          owner_id?: string
+          password_salt?: string | null
+          photo_id?: string
+          token?: string
+          view_count?: number
+          view_proof_hash?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shares: {
+        Row: {
+          created_at: string
+          ephemeral_public_key: string
+          id: string
+          owner_email: string | null
+          owner_id: string
+          photo_id: string
+          recipient_email: string | null
+          recipient_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          ephemeral_public_key: string
+          id?: string
+          owner_email?: string | null
+          owner_id: string
+          photo_id: string
+          recipient_email?: string | null
+          recipient_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          ephemeral_public_key?: string
+          id?: string
+          owner_email?: string | null
+          owner_id?: string
+          photo_id?: string
+          recipient_email?: string | null
+          recipient_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shares_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      space_keys: {
+        Row: {
+          created_at: string
+          ephemeral_public_key: string
+          key_version: number
+          space_id: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          ephemeral_public_key: string
+          key_version: number
+          space_id: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          ephemeral_public_key?: string
+          key_version?: number
+          space_id?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "space_keys_space_id_fkey"
+            columns: ["space_id"]
+            isOneToOne: false
+            referencedRelation: "spaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      space_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          role: string
+          space_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          role: string
+          space_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          role?: string
+          space_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "space_members_space_id_fkey"
+            columns: ["space_id"]
+            isOneToOne: false
+            referencedRelation: "spaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      spaces: {
+        Row: {
+          created_at: string
+          created_by: string
+          encrypted_name: string
+          id: string
+          key_version: number
+          pending_key_version: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          encrypted_name: string
+          id?: string
+          key_version?: number
+          pending_key_version?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          encrypted_name?: string
+          id?: string
+          key_version?: number
+          pending_key_version?: number | null
         }
         Relationships: []
       }
@@ -106,7 +612,63 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      count_share_link_view: {
+        Args: { link_token: string; view_proof: string }
+        Returns: boolean
+      }
+      emergency_contact_keys: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          contact_id: string
+          sharing_public_key: string
+        }[]
+      }
+      find_share_recipient: {
+        Args: { recipient_email: string }
+        Returns: {
+          id: string
+          sharing_public_key: string
+        }[]
+      }
+      open_share_link: {
+        Args: { link_token: string }
+        Returns: {
+          encrypted_metadata: string
+          kdf_params: Json
+          owner_id: string
+          password_salt: string
+          photo_id: string
+          storage_path: string
+          wrapped_key: string
+        }[]
+      }
+      release_emergency_access: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      remove_space_member: {
+        Args: { member: string; target_space: string }
+        Returns: number
+      }
+      request_emergency_access: {
+        Args: { contact: string }
+        Returns: undefined
+      }
+      space_member_keys: {
+        Args: { target_space: string }
+        Returns: {
+          sharing_public_key: string
+          user_id: string
+        }[]
+      }
+      space_role: {
+        Args: { target_space: string }
+        Returns: string
+      }
+      veto_emergency_access: {
+        Args: { contact: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
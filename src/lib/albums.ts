@@ -0,0 +1,214 @@
+// Albums, each with its own key
+//
+// The album key is wrapped under the master key like a photo's data key and
+// seals the album's name and cover. Adding a photo wraps its data key under
+// the album key as well, so an album can later be shared by handing over one
+// key instead of re-encrypting or re-wrapping every photo for each recipient.
+
+import { supabase } from "@/integrations/supabase/client";
+import { MasterKey } from "@/lib/vault";
+import { albumAad, generateKey, objectAad, unwrapKey, wrapKey } from "@/lib/encryption";
+import { AlbumMetadata, decryptMetadata, encryptMetadata } from "@/lib/metadata";
+
+export interface Album {
+  id: string;
+  user_id: string;
+  wrapped_key: string;
+  master_key_id: string;
+  encrypted_metadata: string;
+  created_at: string;
+}
+
+export interface OpenedAlbum {
+  album: Album;
+  key: CryptoKey;
+  metadata: AlbumMetadata;
+}
+
+export interface AlbumPhoto {
+  album_id: string;
+  photo_id: string;
+  user_id: string;
+  wrapped_key: string;
+  position: number;
+  created_at: string;
+}
+
+const aadFor = (album: { id: string; user_id: string }) =>
+  albumAad({ userId: album.user_id, albumId: album.id });
+
+/**
+ * Creates an empty album under a fresh album key
+ */
+export async function createAlbum(userId: string, masterKey: MasterKey, name: string): Promise<OpenedAlbum> {
+  const id = crypto.randomUUID();
+  const key = await generateKey();
+  const aad = albumAad({ userId, albumId: id });
+  const metadata: AlbumMetadata = { name, coverPhotoId: null };
+
+  const { data, error } = await supabase
+    .from("albums")
+    .insert({
+      id,
+      user_id: userId,
+      wrapped_key: await wrapKey(key, masterKey.key, { aad }),
+      master_key_id: masterKey.id,
+      encrypted_metadata: await encryptMetadata(metadata, key, aad),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { album: data, key, metadata };
+}
+
+/**
+ * Lists an account's albums, oldest first
+ */
+export async function listAlbums(userId: string): Promise<Album[]> {
+  const { data, error } = await supabase
+    .from("albums")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Fetches one album, or null if it no longer exists
+ */
+export async function getAlbum(id: string): Promise<Album | null> {
+  const { data, error } = await supabase.from("albums").select("*").eq("id", id).maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Unwraps an album key and decrypts the album's name and cover
+ */
+export async function openAlbum(
+  album: Album,
+  resolveMasterKey: (id: string | null) => CryptoKey | null
+): Promise<OpenedAlbum> {
+  const masterKey = resolveMasterKey(album.master_key_id);
+  if (!masterKey) throw new Error(`No master key available for album ${album.id}`);
+
+  const aad = aadFor(album);
+  const metadata = await decryptMetadata<AlbumMetadata>(album.encrypted_metadata, album.wrapped_key, masterKey, aad);
+  const key = await unwrapKey(album.wrapped_key, masterKey, { aad, requireAad: true });
+  return { album, key, metadata };
+}
+
+/**
+ * Re-seals an album's name and cover
+ */
+export async function updateAlbumMetadata(opened: OpenedAlbum, metadata: AlbumMetadata): Promise<OpenedAlbum> {
+  const { error } = await supabase
+    .from("albums")
+    .update({ encrypted_metadata: await encryptMetadata(metadata, opened.key, aadFor(opened.album)) })
+    .eq("id", opened.album.id);
+
+  if (error) throw error;
+  return { ...opened, metadata };
+}
+
+/**
+ * Deletes an album. Its photos stay in the library.
+ */
+export async function deleteAlbum(id: string): Promise<void> {
+  const { error } = await supabase.from("albums").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Lists an album's photos in their album order
+ */
+export async function listAlbumPhotos(albumId: string): Promise<AlbumPhoto[]> {
+  const { data, error } = await supabase
+    .from("album_photos")
+    .select("*")
+    .eq("album_id", albumId)
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Adds photos to the end of an album, wrapping each data key under the album
+ * key. Photos already in the album are left where they are.
+ */
+export async function addPhotosToAlbum(
+  opened: OpenedAlbum,
+  photos: { id: string; user_id: string; wrapped_key: string | null; master_key_id: string | null }[],
+  resolveMasterKey: (id: string | null) => CryptoKey | null
+): Promise<void> {
+  const { data: last, error: lastError } = await supabase
+    .from("album_photos")
+    .select("position")
+    .eq("album_id", opened.album.id)
+    .order("position", { ascending: false })
+    .limit(1);
+
+  if (lastError) throw lastError;
+  const start = last?.[0] ? last[0].position + 1 : 0;
+
+  const rows = [];
+  for (const [i, photo] of photos.entries()) {
+    const masterKey = resolveMasterKey(photo.master_key_id);
+    if (!photo.wrapped_key || !masterKey) {
+      throw new Error(`No data key available for photo ${photo.id}`);
+    }
+
+    const aad = objectAad({ userId: photo.user_id, photoId: photo.id, version: 0 });
+    const dataKey = await unwrapKey(photo.wrapped_key, masterKey, { aad, requireAad: true });
+    rows.push({
+      album_id: opened.album.id,
+      photo_id: photo.id,
+      user_id: photo.user_id,
+      wrapped_key: await wrapKey(dataKey, opened.key, { aad }),
+      position: start + i,
+    });
+  }
+
+  const { error } = await supabase
+    .from("album_photos")
+    .upsert(rows, { onConflict: "album_id,photo_id", ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+/**
+ * Takes a photo out of an album without deleting it
+ */
+export async function removePhotoFromAlbum(albumId: string, photoId: string): Promise<void> {
+  const { error } = await supabase
+    .from("album_photos")
+    .delete()
+    .eq("album_id", albumId)
+    .eq("photo_id", photoId);
+
+  if (error) throw error;
+}
+
+/**
+ * Stores new album positions for the photos that moved
+ */
+export async function reorderAlbumPhotos(
+  albumId: string,
+  moves: { photoId: string; position: number }[]
+): Promise<void> {
+  for (const { photoId, position } of moves) {
+    const { error } = await supabase
+      .from("album_photos")
+      .update({ position })
+      .eq("album_id", albumId)
+      .eq("photo_id", photoId);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,62 @@
+// Client for the Argon2id key derivation worker
+
+import { Argon2idParams, parseKdfParams } from "@/lib/encryption";
+import type { KdfRequest, KdfResponse } from "@/workers/kdf.worker";
+
+type PendingDerivation = {
+  resolve: (key: CryptoKey) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, PendingDerivation>();
+
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("../workers/kdf.worker.ts", import.meta.url), { type: "module" });
+  worker.addEventListener("message", (event: MessageEvent<KdfResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+
+    pending.delete(event.data.id);
+    if ("key" in event.data) {
+      request.resolve(event.data.key);
+    } else {
+      request.reject(new Error(event.data.error));
+    }
+  });
+  worker.addEventListener("error", (event) => {
+    // A crashed worker fails everything in flight; the next call starts a new one
+    pending.forEach((request) => request.reject(new Error(event.message || "Key derivation failed")));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+
+  return worker;
+};
+
+/**
+ * Derives a non-extractable AES-GCM key with Argon2id in a web worker
+ */
+export function deriveArgon2idKey(
+  passphrase: string,
+  salt: Uint8Array,
+  params: Argon2idParams
+): Promise<CryptoKey> {
+  // Never hand the worker more memory or passes than the limits allow
+  const checked = parseKdfParams(params);
+  if (checked.algorithm !== "Argon2id") {
+    return Promise.reject(new Error("Unsupported key derivation settings"));
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+
+    const request: KdfRequest = { id, passphrase, salt: new Uint8Array(salt), params: checked };
+    getWorker().postMessage(request);
+  });
+}
@@ -0,0 +1,180 @@
+// Pool of crypto workers behind a bounded queue
+//
+// Each worker runs one task at a time and waiting tasks are only handed over
+// once a worker is free. Files go across as Blobs or transferred streams, so
+// a gallery of hundreds of photos neither blocks the main thread nor buffers
+// every download at once. A task aborted while queued is dropped; one already
+// running is stopped with its worker.
+
+import type { CryptoRequest, CryptoResponse, CryptoResults, CryptoTask } from "@/workers/crypto.worker";
+
+type PreparedTask = { task: CryptoTask; transfer: Transferable[] };
+
+interface QueuedTask {
+  prepare: () => Promise<PreparedTask>;
+  resolve: (result: CryptoResults[CryptoTask["type"]]) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: QueuedTask | null;
+  requestId: number;
+}
+
+const MAX_POOL_SIZE = 4;
+
+const queue: QueuedTask[] = [];
+const workers: PoolWorker[] = [];
+let nextRequestId = 0;
+
+// Leave a core for the main thread
+const poolSize = () => Math.min(MAX_POOL_SIZE, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+
+const abortReason = (signal: AbortSignal) =>
+  signal.reason ?? new DOMException("The operation was aborted", "AbortError");
+
+// Errors cross the worker boundary as plain data, keeping their name
+const toError = ({ name, message }: { name: string; message: string }) =>
+  Object.assign(new Error(message), { name });
+
+const retire = (slot: PoolWorker) => {
+  slot.task = null;
+  slot.worker.terminate();
+  workers.splice(workers.indexOf(slot), 1);
+};
+
+const release = (slot: PoolWorker) => {
+  slot.task = null;
+  pump();
+};
+
+const createWorker = (): PoolWorker => {
+  const slot: PoolWorker = {
+    worker: new Worker(new URL("../workers/crypto.worker.ts", import.meta.url), { type: "module" }),
+    task: null,
+    requestId: -1,
+  };
+
+  slot.worker.addEventListener("message", (event: MessageEvent<CryptoResponse>) => {
+    const task = slot.task;
+    if (!task || event.data.id !== slot.requestId) return;
+
+    // Progress arrives while the task is still running
+    if ("progress" in event.data) {
+      task.onProgress?.(event.data.progress);
+      return;
+    }
+
+    release(slot);
+    if ("result" in event.data) {
+      task.resolve(event.data.result);
+    } else {
+      task.reject(toError(event.data.error));
+    }
+  });
+  slot.worker.addEventListener("error", (event) => {
+    // A crashed worker fails its task; the pool starts a new one when needed
+    const task = slot.task;
+    retire(slot);
+    task?.reject(new Error(event.message || "Crypto worker failed"));
+    pump();
+  });
+
+  return slot;
+};
+
+const start = async (slot: PoolWorker, task: QueuedTask) => {
+  const id = nextRequestId++;
+  slot.task = task;
+  slot.requestId = id;
+
+  try {
+    const { task: work, transfer } = await task.prepare();
+    // Cancelled while its input was being read
+    if (slot.task !== task) return;
+
+    const request: CryptoRequest = { ...work, id };
+    slot.worker.postMessage(request, transfer);
+  } catch (error) {
+    if (slot.task !== task) return;
+    release(slot);
+    task.reject(error);
+  }
+};
+
+function pump() {
+  while (queue.length > 0) {
+    let slot = workers.find((candidate) => !candidate.task);
+    if (!slot) {
+      if (workers.length >= poolSize()) return;
+      slot = createWorker();
+      workers.push(slot);
+    }
+
+    const task = queue.shift();
+    if (task) start(slot, task);
+  }
+}
+
+const cancel = (task: QueuedTask, reason: unknown) => {
+  const queued = queue.indexOf(task);
+  if (queued >= 0) queue.splice(queued, 1);
+
+  const slot = workers.find((candidate) => candidate.task === task);
+  if (slot) {
+    retire(slot);
+    pump();
+  }
+
+  task.reject(reason);
+};
+
+/**
+ * Queues a task for the next free worker. The task is prepared only once a
+ * worker picks it up, and its streams are transferred rather than copied.
+ */
+export function runCryptoTask<T extends CryptoTask>(
+  prepare: () => Promise<{ task: T; transfer: Transferable[] }>,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<CryptoResults[T["type"]]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    // The caller's signal may outlive the task, so its listener goes once the task settles
+    const onAbort = () => cancel(task, abortReason(signal));
+    const task: QueuedTask = {
+      prepare,
+      resolve: (result) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(result as CryptoResults[T["type"]]);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+      onProgress,
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    queue.push(task);
+    pump();
+  });
+}
+
+/**
+ * Cancels every queued and running task, stopping the workers that hold keys
+ * or plaintext for them. Callers see an AbortError as if they had aborted.
+ */
+export function cancelCryptoTasks(): void {
+  const reason = new DOMException("The vault was locked", "AbortError");
+  const running = workers.filter((slot) => slot.task).map((slot) => slot.task);
+  for (const task of [...queue.splice(0), ...running]) {
+    cancel(task, reason);
+  }
+}
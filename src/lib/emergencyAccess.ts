@@ -0,0 +1,208 @@
+// Emergency access to a vault
+//
+// An account nominates a trusted contact and escrows its master key for them
+// straight away, wrapped under the contact's sharing public key. The server
+// withholds that row until the contact requests access and the waiting period
+// passes without a veto; a scheduled job releases it. From then on the contact
+// can unwrap the master key and read the grantor's personal photos.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { MasterKey } from "@/lib/vault";
+import { emergencyAad } from "@/lib/encryption";
+import { findRecipient, importPublicKey, unwrapKeyFromSender, wrapKeyForRecipient } from "@/lib/sharing";
+
+export type EmergencyAccessStatus = "idle" | "requested" | "granted";
+
+export type EmergencyAccessEventKind = "nominated" | "requested" | "vetoed" | "granted" | "revoked";
+
+export interface EmergencyContact {
+  id: string;
+  grantor_id: string;
+  grantee_id: string;
+  grantor_email: string | null;
+  grantee_email: string | null;
+  wait_days: number;
+  status: string;
+  requested_at: string | null;
+  granted_at: string | null;
+  created_at: string;
+}
+
+export interface EmergencyAccessEvent {
+  id: string;
+  contact_id: string | null;
+  grantor_id: string;
+  grantee_id: string;
+  grantor_email: string | null;
+  grantee_email: string | null;
+  kind: string;
+  created_at: string;
+}
+
+/**
+ * Returns when a pending request will be released, or null if none is pending
+ */
+export function emergencyAccessReleaseDate(contact: EmergencyContact): Date | null {
+  if (contact.status !== "requested" || !contact.requested_at) return null;
+  return new Date(new Date(contact.requested_at).getTime() + contact.wait_days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Escrows a master key for one contact, replacing any earlier copy
+ */
+async function escrowMasterKey(
+  contact: { id: string; grantor_id: string },
+  masterKey: MasterKey,
+  granteePublicKey: CryptoKey
+): Promise<void> {
+  const aad = emergencyAad({ grantorId: contact.grantor_id, contactId: contact.id, masterKeyId: masterKey.id });
+  const { wrappedKey, ephemeralPublicKey } = await wrapKeyForRecipient(masterKey.key, granteePublicKey, aad);
+
+  const { error } = await supabase.from("emergency_keys").upsert(
+    {
+      contact_id: contact.id,
+      grantor_id: contact.grantor_id,
+      master_key_id: masterKey.id,
+      wrapped_master_key: wrappedKey,
+      ephemeral_public_key: ephemeralPublicKey,
+    },
+    { onConflict: "contact_id" }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Nominates an emergency contact and escrows the master key for them. Returns
+ * null if no account with that email can receive shares yet.
+ */
+export async function nominateEmergencyContact(
+  userId: string,
+  masterKey: MasterKey,
+  email: string,
+  waitDays: number
+): Promise<EmergencyContact | null> {
+  const recipient = await findRecipient(email);
+  if (!recipient) return null;
+
+  const { data, error } = await supabase
+    .from("emergency_contacts")
+    .insert({ grantor_id: userId, grantee_id: recipient.id, wait_days: waitDays })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  try {
+    await escrowMasterKey(data, masterKey, recipient.publicKey);
+  } catch (escrowError) {
+    // A contact without a key could never be granted anything
+    await supabase.from("emergency_contacts").delete().eq("id", data.id);
+    throw escrowError;
+  }
+  return data;
+}
+
+/**
+ * Lists the contacts an account has nominated
+ */
+export async function listEmergencyContacts(userId: string): Promise<EmergencyContact[]> {
+  const { data, error } = await supabase
+    .from("emergency_contacts")
+    .select("*")
+    .eq("grantor_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Lists the accounts that nominated this one as their emergency contact
+ */
+export async function listEmergencyGrants(userId: string): Promise<EmergencyContact[]> {
+  const { data, error } = await supabase
+    .from("emergency_contacts")
+    .select("*")
+    .eq("grantee_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Removes an emergency contact along with the key escrowed for them. Either
+ * side may do this.
+ */
+export async function removeEmergencyContact(id: string): Promise<void> {
+  const { error } = await supabase.from("emergency_contacts").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Starts the waiting period on a contact this account was nominated for
+ */
+export async function requestEmergencyAccess(id: string): Promise<void> {
+  const { error } = await supabase.rpc("request_emergency_access", { contact: id });
+  if (error) throw error;
+}
+
+/**
+ * Turns down a pending request, or ends access already released. A master key
+ * the contact already read keeps working until the grantor rotates it.
+ */
+export async function vetoEmergencyAccess(id: string): Promise<void> {
+  const { error } = await supabase.rpc("veto_emergency_access", { contact: id });
+  if (error) throw error;
+}
+
+/**
+ * Lists recent emergency access events on either side, newest first
+ */
+export async function listEmergencyAccessEvents(limit = 50): Promise<EmergencyAccessEvent[]> {
+  const { data, error } = await supabase
+    .from("emergency_access_events")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Unwraps a released master key with this account's sharing private key
+ */
+export async function openEmergencyAccess(contact: EmergencyContact, privateKey: CryptoKey): Promise<MasterKey> {
+  const { data, error } = await supabase
+    .from("emergency_keys")
+    .select("*")
+    .eq("contact_id", contact.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error("Emergency access has not been released");
+
+  const aad = emergencyAad({ grantorId: contact.grantor_id, contactId: contact.id, masterKeyId: data.master_key_id });
+  return {
+    id: data.master_key_id,
+    key: await unwrapKeyFromSender(data.wrapped_master_key, data.ephemeral_public_key, privateKey, aad),
+  };
+}
+
+/**
+ * Escrows a new master key for every emergency contact, after a rotation
+ */
+export async function rewrapEmergencyKeys(userId: string, target: MasterKey): Promise<void> {
+  const { data, error } = await supabase.rpc("emergency_contact_keys");
+  if (error) throw error;
+
+  for (const row of data || []) {
+    await escrowMasterKey(
+      { id: row.contact_id, grantor_id: userId },
+      target,
+      await importPublicKey(row.sharing_public_key)
+    );
+  }
+}
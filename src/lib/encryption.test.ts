@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import {
+  ContainerField,
+  ContainerFlags,
+  TamperError,
+  decryptBlob,
+  decryptFileInThread,
+  encryptBlob,
+  encryptFileInThread,
+  generateKey,
+  hasExternalAad,
+  objectAad,
+  openContainer,
+  parseContainer,
+  sealContainer,
+} from "@/lib/encryption";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const binding = { userId: "user-1", photoId: "photo-1", version: 0 };
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => i & 0xff);
+
+const concat = (...parts: Uint8Array[]) => new Uint8Array(parts.flatMap((part) => [...part]));
+
+// Header of a chunked container with no extra fields: magic, five bytes, a
+// 7-byte nonce prefix, the fields length and the CHUNK_SIZE field
+const STREAM_HEADER_LENGTH = 9 + 7 + 2 + 7;
+const TAG_LENGTH = 16;
+
+describe("container format", () => {
+  it("round-trips bytes and header fields", async () => {
+    const key = await generateKey();
+    const fields = new Map([[9, encoder.encode("field")]]);
+    const sealed = await sealContainer(encoder.encode("hello"), key, { kdf: 3, fields });
+
+    const { header } = parseContainer(sealed);
+    expect(header.kdf).toBe(3);
+    expect(header.flags).toBe(0);
+    expect(decoder.decode(header.fields.get(9))).toBe("field");
+    expect(decoder.decode(await openContainer(sealed, key))).toBe("hello");
+  });
+
+  it("binds external AAD", async () => {
+    const key = await generateKey();
+    const aad = objectAad(binding);
+    const sealed = await sealContainer(encoder.encode("hello"), key, { aad });
+
+    expect(parseContainer(sealed).header.flags & ContainerFlags.EXTERNAL_AAD).toBeTruthy();
+    expect(decoder.decode(await openContainer(sealed, key, { aad, requireAad: true }))).toBe("hello");
+    await expect(openContainer(sealed, key, { aad: objectAad({ ...binding, version: 1 }) })).rejects.toThrow();
+  });
+
+  it("cannot have its AAD flag cleared", async () => {
+    const key = await generateKey();
+    const sealed = await sealContainer(encoder.encode("hello"), key, { aad: objectAad(binding) });
+    expect(hasExternalAad(sealed)).toBe(true);
+
+    const cleared = sealed.slice();
+    cleared[7] &= ~ContainerFlags.EXTERNAL_AAD;
+    expect(hasExternalAad(cleared)).toBe(false);
+    await expect(openContainer(cleared, key)).rejects.toThrow();
+  });
+
+  it("rejects containers sealed without AAD when it is required", async () => {
+    const key = await generateKey();
+    const sealed = await sealContainer(encoder.encode("hello"), key);
+
+    await expect(openContainer(sealed, key, { aad: objectAad(binding), requireAad: true })).rejects.toThrow(
+      TamperError
+    );
+  });
+
+  it("authenticates the header and the ciphertext", async () => {
+    const key = await generateKey();
+    const sealed = await sealContainer(encoder.encode("hello"), key, { kdf: 1 });
+
+    const header = sealed.slice();
+    header[6] = 3;
+    await expect(openContainer(header, key)).rejects.toThrow();
+
+    const body = sealed.slice();
+    body[body.length - 1] ^= 1;
+    await expect(openContainer(body, key)).rejects.toThrow();
+  });
+
+  it("opens legacy blobs with a bare IV", async () => {
+    const key = await generateKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoder.encode("legacy"));
+
+    const legacy = concat(iv, new Uint8Array(ciphertext));
+    expect(decoder.decode(await openContainer(legacy, key))).toBe("legacy");
+  });
+
+  it("rejects truncated headers", async () => {
+    const sealed = await sealContainer(encoder.encode("hello"), await generateKey());
+
+    expect(() => parseContainer(sealed.subarray(0, 12))).toThrow("Truncated container header");
+  });
+
+  it("rejects fields that run past the field area", async () => {
+    const sealed = await sealContainer(encoder.encode("hello"), await generateKey(), {
+      fields: new Map([[9, bytes(4)]]),
+    });
+
+    // The only field claims one byte more than the area holds
+    const fieldLengthOffset = 9 + 12 + 2 + 1;
+    const malformed = sealed.slice();
+    new DataView(malformed.buffer).setUint16(fieldLengthOffset, 5);
+    expect(() => parseContainer(malformed)).toThrow("Malformed container field");
+  });
+});
+
+describe("chunked stream", () => {
+  const chunkSize = 16;
+
+  const seal = async (plaintext: Uint8Array, key: CryptoKey) =>
+    new Uint8Array(await (await encryptBlob(new Blob([plaintext]), key, { chunkSize })).arrayBuffer());
+
+  const open = async (sealed: Uint8Array, key: CryptoKey) =>
+    new Uint8Array(await decryptBlob(new Blob([sealed]), key));
+
+  // Splits a container into its header and sealed chunks
+  const split = (sealed: Uint8Array) => {
+    const chunks: Uint8Array[] = [];
+    for (let offset = STREAM_HEADER_LENGTH; offset < sealed.length; offset += chunkSize + TAG_LENGTH) {
+      chunks.push(sealed.subarray(offset, offset + chunkSize + TAG_LENGTH));
+    }
+    return { header: sealed.subarray(0, STREAM_HEADER_LENGTH), chunks };
+  };
+
+  it("round-trips across chunk boundaries", async () => {
+    const key = await generateKey();
+    for (const length of [0, 1, chunkSize, chunkSize * 2, chunkSize * 2 + 5]) {
+      const plaintext = bytes(length);
+      const sealed = await seal(plaintext, key);
+
+      expect(parseContainer(sealed).header.fields.get(ContainerField.CHUNK_SIZE)).toEqual(
+        Uint8Array.of(0, 0, 0, chunkSize)
+      );
+      expect(await open(sealed, key)).toEqual(plaintext);
+    }
+  });
+
+  it("rejects a stream with its last chunk dropped", async () => {
+    const key = await generateKey();
+    const { header, chunks } = split(await seal(bytes(chunkSize * 2 + 5), key));
+    expect(chunks).toHaveLength(3);
+
+    await expect(open(concat(header, ...chunks.slice(0, 2)), key)).rejects.toThrow();
+  });
+
+  it("rejects a stream cut inside a chunk", async () => {
+    const key = await generateKey();
+    const sealed = await seal(bytes(chunkSize * 2 + 5), key);
+
+    await expect(open(sealed.subarray(0, sealed.length - 3), key)).rejects.toThrow();
+  });
+
+  it("rejects reordered chunks", async () => {
+    const key = await generateKey();
+    const { header, chunks } = split(await seal(bytes(chunkSize * 2 + 5), key));
+
+    await expect(open(concat(header, chunks[1], chunks[0], chunks[2]), key)).rejects.toThrow();
+  });
+
+  it("rejects a chunk from another stream under the same key", async () => {
+    const key = await generateKey();
+    const first = split(await seal(bytes(chunkSize * 2 + 5), key));
+    const second = split(await seal(bytes(chunkSize * 2 + 5), key));
+
+    await expect(open(concat(first.header, second.chunks[0], ...first.chunks.slice(1)), key)).rejects.toThrow();
+  });
+
+  it("round-trips files with their file info and binding", async () => {
+    const masterKey = await generateKey();
+    const aad = objectAad(binding);
+    const file = new File([bytes(100)], "photo.jpg", { type: "image/jpeg", lastModified: 0 });
+    const { encryptedBlob, wrappedKey } = await encryptFileInThread(file, masterKey, { aad, chunkSize });
+
+    const { blob, info } = await decryptFileInThread(encryptedBlob, wrappedKey, masterKey, { aad });
+    expect(info).toMatchObject({ name: "photo.jpg", type: "image/jpeg", size: 100 });
+    expect(blob.type).toBe("image/jpeg");
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(bytes(100));
+
+    await expect(
+      decryptFileInThread(encryptedBlob, wrappedKey, masterKey, { aad: objectAad({ ...binding, photoId: "photo-2" }) })
+    ).rejects.toThrow(TamperError);
+  });
+});
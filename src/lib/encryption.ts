@@ -1,10 +1,116 @@
 // Client-side encryption utilities using Web Crypto API
 
+import { deriveArgon2idKey } from "@/lib/argon2";
+import { runCryptoTask } from "@/lib/cryptoPool";
+import { KDF_LIMITS } from "@/lib/kdfLimits";
+
+export type Pbkdf2Params = {
+  algorithm: "PBKDF2-SHA256";
+  iterations: number;
+};
+
+export type Argon2idParams = {
+  algorithm: "Argon2id";
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+};
+
+export type KdfParams = Pbkdf2Params | Argon2idParams;
+
+export const PBKDF2_KDF_PARAMS: Pbkdf2Params = {
+  algorithm: "PBKDF2-SHA256",
+  iterations: 600000,
+};
+
+export const ARGON2ID_KDF_PARAMS: Argon2idParams = {
+  algorithm: "Argon2id",
+  memoryKiB: 65536,
+  iterations: 3,
+  parallelism: 1,
+};
+
+export const DEFAULT_KDF_PARAMS: KdfParams = ARGON2ID_KDF_PARAMS;
+
+const withinLimits = (value: unknown, [min, max]: readonly [number, number]): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/**
+ * Validates key derivation settings read from the server. Throws for unknown
+ * algorithms and for values outside KDF_LIMITS.
+ */
+export function parseKdfParams(value: unknown): KdfParams {
+  const params = (value ?? {}) as { [key: string]: unknown };
+
+  if (params.algorithm === "PBKDF2-SHA256" && withinLimits(params.iterations, KDF_LIMITS.pbkdf2Iterations)) {
+    return { algorithm: "PBKDF2-SHA256", iterations: params.iterations };
+  }
+  if (
+    params.algorithm === "Argon2id" &&
+    withinLimits(params.memoryKiB, KDF_LIMITS.argon2MemoryKiB) &&
+    withinLimits(params.iterations, KDF_LIMITS.argon2Iterations) &&
+    withinLimits(params.parallelism, KDF_LIMITS.argon2Parallelism)
+  ) {
+    return {
+      algorithm: "Argon2id",
+      memoryKiB: params.memoryKiB,
+      iterations: params.iterations,
+      parallelism: params.parallelism,
+    };
+  }
+  throw new Error("Unsupported key derivation settings");
+}
+
+const SALT_LENGTH = 16;
+
+/**
+ * Generates a random per-user salt for key derivation
+ */
+export function generateSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+}
+
+/**
+ * Derives an encryption key from a secret passphrase and the user's salt
+ * The salt and parameters are stored on the profile, never the key
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  params: KdfParams = DEFAULT_KDF_PARAMS
+): Promise<CryptoKey> {
+  if (params.algorithm === "Argon2id") {
+    return deriveArgon2idKey(passphrase, salt, params);
+  }
+
+  const encoder = new TextEncoder();
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(passphrase),
+    { name: "PBKDF2" },
+    false,
+    ["deriveBits", "deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: new Uint8Array(salt),
+      iterations: params.iterations,
+      hash: "SHA-256",
+    },
+    keyMaterial,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
 /**
- * Derives an encryption key from user's email and a secret passphrase
- * This ensures the key is deterministic but never stored
+ * Derives the key used before per-user salts were introduced
+ * Only needed to unlock and re-key accounts created under the static salt
  */
-export async function deriveKey(email: string, passphrase: string): Promise<CryptoKey> {
+export async function deriveLegacyKey(email: string, passphrase: string): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     "raw",
@@ -17,7 +123,7 @@ export async function deriveKey(email: string, passphrase: string): Promise<Cryp
   return crypto.subtle.deriveKey(
     {
       name: "PBKDF2",
-      salt: encoder.encode("photovault-salt-v1"), // Static salt for deterministic key
+      salt: encoder.encode("photovault-salt-v1"),
       iterations: 100000,
       hash: "SHA-256",
     },
@@ -29,69 +135,961 @@ export async function deriveKey(email: string, passphrase: string): Promise<Cryp
 }
 
 /**
- * Encrypts a file using AES-GCM
+ * Encodes bytes as base64 for storage in text columns
  */
-export async function encryptFile(
-  file: File,
-  key: CryptoKey
-): Promise<{ encryptedData: ArrayBuffer; iv: Uint8Array }> {
-  const iv = crypto.getRandomValues(new Uint8Array(12)); // 96-bit IV for AES-GCM
-  const fileData = await file.arrayBuffer();
-
-  const encryptedData = await crypto.subtle.encrypt(
-    { name: "AES-GCM", iv },
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 text back into bytes
+ */
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encodes bytes as unpadded base64url, safe in URLs and WebAuthn ids
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decodes unpadded base64url text back into bytes
+ */
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return fromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+}
+
+/*
+ * Encrypted container format (all integers big-endian)
+ *
+ *   offset  size  field
+ *   0       4     magic "PVLT"
+ *   4       1     format version
+ *   5       1     cipher algorithm id
+ *   6       1     key derivation id
+ *   7       1     flags
+ *   8       1     IV length (n)
+ *   9       n     IV
+ *   9+n     2     header fields length (m)
+ *   11+n    m     header fields: repeated [tag u8, length u16, value]
+ *   11+n+m  ...   ciphertext
+ *
+ * Everything before the ciphertext is authenticated as AES-GCM additional
+ * data, followed by any caller-supplied AAD. Blobs that do not start with the
+ * magic bytes are legacy uploads: a bare 12-byte IV followed by ciphertext.
+ * A random legacy IV collides with the magic with probability 2^-32.
+ *
+ * Files use the chunked AES_256_GCM_STREAM algorithm. The IV is a 7-byte
+ * nonce prefix and the CHUNK_SIZE field gives the plaintext chunk size. Each
+ * chunk is sealed separately with nonce = prefix || counter u32 || last u8,
+ * so reordering changes the counter and truncation drops the last flag; both
+ * fail authentication. Every chunk carries a full chunk of plaintext except
+ * the last, which may be empty.
+ *
+ * With the FILE_INFO flag the plaintext starts with a u32 length and a JSON
+ * FileInfo record (original name, MIME type, size, capture date), so none of
+ * it is visible outside the ciphertext.
+ */
+
+const CONTAINER_MAGIC = [0x50, 0x56, 0x4c, 0x54]; // "PVLT"
+const LEGACY_IV_LENGTH = 12;
+
+export const CONTAINER_VERSION = 1;
+export const LEGACY_CONTAINER_VERSION = 0;
+
+export const CipherAlgorithm = {
+  AES_256_GCM: 1,
+  AES_256_GCM_STREAM: 2,
+} as const;
+
+export const ContainerField = {
+  CHUNK_SIZE: 1,
+} as const;
+
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+const STREAM_NONCE_PREFIX_LENGTH = 7;
+const GCM_TAG_LENGTH = 16;
+
+export const KdfId = {
+  NONE: 0,
+  PBKDF2_SHA256: 1,
+  RECOVERY_KEY: 2,
+  ARGON2ID: 3,
+  PASSKEY_PRF: 4,
+} as const;
+
+/**
+ * Returns the container key derivation id for passphrase keys made with these parameters
+ */
+export function kdfIdFor(params: KdfParams): number {
+  return params.algorithm === "Argon2id" ? KdfId.ARGON2ID : KdfId.PBKDF2_SHA256;
+}
+
+export const ContainerFlags = {
+  EXTERNAL_AAD: 0x01,
+  FILE_INFO: 0x02,
+} as const;
+
+const MAX_FILE_INFO_LENGTH = 64 * 1024;
+
+export interface FileInfo {
+  name: string;
+  type: string;
+  size: number;
+  capturedAt: string | null;
+}
+
+export interface ContainerHeader {
+  version: number;
+  algorithm: number;
+  kdf: number;
+  flags: number;
+  iv: Uint8Array;
+  fields: Map<number, Uint8Array>;
+}
+
+export interface ParsedContainer {
+  header: ContainerHeader;
+  // The bytes authenticated as AAD; empty for legacy blobs
+  headerBytes: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+export interface SealOptions {
+  kdf?: number;
+  fields?: Map<number, Uint8Array>;
+  aad?: Uint8Array;
+}
+
+export interface StreamSealOptions extends SealOptions {
+  chunkSize?: number;
+  fileInfo?: FileInfo;
+}
+
+export interface OpenOptions {
+  aad?: Uint8Array;
+  // Rejects containers sealed without external AAD instead of ignoring it
+  requireAad?: boolean;
+}
+
+/**
+ * Identifies the row a stored object belongs to. Originals are version 0.
+ */
+export interface ObjectBinding {
+  userId: string;
+  photoId: string;
+  version: number;
+}
+
+/**
+ * Identifies one size of a stored object's thumbnail
+ */
+export interface ThumbnailBinding extends ObjectBinding {
+  size: number;
+}
+
+export interface AlbumBinding {
+  userId: string;
+  albumId: string;
+}
+
+export interface SpaceBinding {
+  spaceId: string;
+  keyVersion: number;
+}
+
+export interface SharingKeyBinding {
+  userId: string;
+}
+
+export interface EmergencyBinding {
+  grantorId: string;
+  contactId: string;
+  masterKeyId: string;
+}
+
+/**
+ * Thrown when ciphertext does not authenticate against the row it was loaded for
+ */
+export class TamperError extends Error {
+  constructor() {
+    super("Encrypted data does not match the photo it was loaded for");
+    this.name = "TamperError";
+  }
+}
+
+export interface StreamOpenOptions extends OpenOptions {
+  onFileInfo?: (info: FileInfo) => void;
+}
+
+export interface DecryptedFile {
+  blob: Blob;
+  info: FileInfo | null;
+}
+
+export interface TaskOptions {
+  // Drops the task from the crypto pool queue, or stops it if already running
+  signal?: AbortSignal;
+  // Reports how much of the input has been processed, from 0 to 1
+  onProgress?: (fraction: number) => void;
+}
+
+function hasMagic(data: Uint8Array): boolean {
+  return CONTAINER_MAGIC.every((byte, i) => data[i] === byte);
+}
+
+function encodeHeader(header: ContainerHeader): Uint8Array {
+  let fieldsLength = 0;
+  header.fields.forEach((value) => {
+    fieldsLength += 3 + value.length;
+  });
+
+  const bytes = new Uint8Array(11 + header.iv.length + fieldsLength);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(CONTAINER_MAGIC, 0);
+  bytes[4] = header.version;
+  bytes[5] = header.algorithm;
+  bytes[6] = header.kdf;
+  bytes[7] = header.flags;
+  bytes[8] = header.iv.length;
+  bytes.set(header.iv, 9);
+
+  let offset = 9 + header.iv.length;
+  view.setUint16(offset, fieldsLength);
+  offset += 2;
+
+  header.fields.forEach((value, tag) => {
+    bytes[offset] = tag;
+    view.setUint16(offset + 1, value.length);
+    bytes.set(value, offset + 3);
+    offset += 3 + value.length;
+  });
+
+  return bytes;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const combined = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    combined.set(part, offset);
+    offset += part.length;
+  }
+  return combined;
+}
+
+/**
+ * Returns the length of the container header at the start of data, or null
+ * if more bytes are needed to tell
+ */
+function containerHeaderLength(data: Uint8Array): number | null {
+  if (data.length < 9) return null;
+  const fieldsLengthOffset = 9 + data[8];
+  if (data.length < fieldsLengthOffset + 2) return null;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return fieldsLengthOffset + 2 + view.getUint16(fieldsLengthOffset);
+}
+
+/**
+ * Accumulates stream chunks so they can be re-cut at fixed sizes
+ */
+function createByteQueue() {
+  let parts: Uint8Array[] = [];
+  let length = 0;
+
+  const take = (count: number, consume = true): Uint8Array => {
+    const out = new Uint8Array(count);
+    let offset = 0;
+    let index = 0;
+    while (offset < count) {
+      const part = parts[index];
+      const used = Math.min(part.length, count - offset);
+      out.set(part.subarray(0, used), offset);
+      offset += used;
+      if (consume && used < part.length) {
+        parts[index] = part.subarray(used);
+      } else {
+        index++;
+      }
+    }
+    if (consume) {
+      parts = parts.slice(index);
+      length -= count;
+    }
+    return out;
+  };
+
+  return {
+    get length() {
+      return length;
+    },
+    push(bytes: Uint8Array) {
+      parts.push(bytes);
+      length += bytes.length;
+    },
+    take,
+    peek: (count: number) => take(count, false),
+  };
+}
+
+function assertAad(header: ContainerHeader, options: OpenOptions) {
+  if (options.requireAad && !(header.flags & ContainerFlags.EXTERNAL_AAD)) {
+    throw new TamperError();
+  }
+}
+
+function encodeFileInfo(info: FileInfo): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(info));
+  const bytes = new Uint8Array(4 + json.length);
+  new DataView(bytes.buffer).setUint32(0, json.length);
+  bytes.set(json, 4);
+  return bytes;
+}
+
+// Passes bytes through unchanged, reporting the share of total seen so far
+function progressStream(total: number, onProgress: (fraction: number) => void): TransformStream<Uint8Array, Uint8Array> {
+  let seen = 0;
+  return new TransformStream({
+    transform(chunk, controller) {
+      seen += chunk.byteLength;
+      onProgress(total > 0 ? Math.min(1, seen / total) : 1);
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Reads a stream to the end. Unlike Response.blob() this rethrows the
+ * stream's own error, so authentication failures keep their type.
+ */
+async function streamToBlob(stream: ReadableStream<Uint8Array>, type = ""): Promise<Blob> {
+  const parts: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return new Blob(parts, { type });
+}
+
+function chunkNonce(prefix: Uint8Array, counter: number, last: boolean): Uint8Array {
+  if (counter > 0xffffffff) {
+    throw new Error("Stream has too many chunks");
+  }
+  const nonce = new Uint8Array(12);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(STREAM_NONCE_PREFIX_LENGTH, counter);
+  nonce[11] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Splits stored bytes into header and ciphertext, accepting legacy blobs
+ */
+export function parseContainer(data: Uint8Array): ParsedContainer {
+  if (!hasMagic(data)) {
+    return {
+      header: {
+        version: LEGACY_CONTAINER_VERSION,
+        algorithm: CipherAlgorithm.AES_256_GCM,
+        kdf: KdfId.PBKDF2_SHA256,
+        flags: 0,
+        iv: data.slice(0, LEGACY_IV_LENGTH),
+        fields: new Map(),
+      },
+      headerBytes: new Uint8Array(0),
+      ciphertext: data.subarray(LEGACY_IV_LENGTH),
+    };
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = data[4];
+  if (version !== CONTAINER_VERSION) {
+    throw new Error(`Unsupported container version ${version}`);
+  }
+
+  const ivLength = data[8];
+  if (data.length < 11 + ivLength) {
+    throw new Error("Truncated container header");
+  }
+  const iv = data.slice(9, 9 + ivLength);
+  let offset = 9 + ivLength;
+  const fieldsEnd = offset + 2 + view.getUint16(offset);
+  offset += 2;
+
+  if (fieldsEnd > data.length) {
+    throw new Error("Truncated container header");
+  }
+
+  const fields = new Map<number, Uint8Array>();
+  while (offset < fieldsEnd) {
+    // Each field is a tag and a length, and must end inside the field area
+    if (offset + 3 > fieldsEnd) {
+      throw new Error("Malformed container field");
+    }
+    const tag = data[offset];
+    const length = view.getUint16(offset + 1);
+    if (offset + 3 + length > fieldsEnd) {
+      throw new Error("Malformed container field");
+    }
+    fields.set(tag, data.slice(offset + 3, offset + 3 + length));
+    offset += 3 + length;
+  }
+
+  return {
+    header: {
+      version,
+      algorithm: data[5],
+      kdf: data[6],
+      flags: data[7],
+      iv,
+      fields,
+    },
+    headerBytes: data.subarray(0, fieldsEnd),
+    ciphertext: data.subarray(fieldsEnd),
+  };
+}
+
+/**
+ * Returns true if a container was sealed with external AAD. The flag is part
+ * of the authenticated header, so it cannot be cleared without the key noticing.
+ */
+export function hasExternalAad(data: Uint8Array): boolean {
+  return (parseContainer(data).header.flags & ContainerFlags.EXTERNAL_AAD) !== 0;
+}
+
+/**
+ * Encrypts bytes with AES-GCM into a self-describing container
+ */
+export async function sealContainer(
+  data: ArrayBuffer | Uint8Array,
+  key: CryptoKey,
+  options: SealOptions = {}
+): Promise<Uint8Array> {
+  const aad = options.aad ?? new Uint8Array(0);
+  const header: ContainerHeader = {
+    version: CONTAINER_VERSION,
+    algorithm: CipherAlgorithm.AES_256_GCM,
+    kdf: options.kdf ?? KdfId.NONE,
+    flags: options.aad ? ContainerFlags.EXTERNAL_AAD : 0,
+    iv: crypto.getRandomValues(new Uint8Array(12)), // 96-bit IV for AES-GCM
+    fields: options.fields ?? new Map(),
+  };
+  const headerBytes = encodeHeader(header);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: header.iv, additionalData: concatBytes(headerBytes, aad) },
     key,
-    fileData
+    data
   );
 
-  return { encryptedData, iv };
+  return concatBytes(headerBytes, new Uint8Array(ciphertext));
 }
 
 /**
- * Decrypts data using AES-GCM
+ * Decrypts a container produced by sealContainer, or a legacy bare-IV blob
  */
-export async function decryptData(
-  encryptedData: ArrayBuffer,
-  iv: Uint8Array,
-  key: CryptoKey
+export async function openContainer(
+  data: Uint8Array,
+  key: CryptoKey,
+  options: OpenOptions = {}
 ): Promise<ArrayBuffer> {
-  // Ensure iv is a proper Uint8Array with ArrayBuffer
-  const ivBuffer = new Uint8Array(iv);
-  return crypto.subtle.decrypt({ name: "AES-GCM", iv: ivBuffer }, key, encryptedData);
-}
-
-/**
- * Converts encrypted data and IV to a Blob for upload
- */
-export function createEncryptedBlob(
-  encryptedData: ArrayBuffer,
-  iv: Uint8Array
-): Blob {
-  // Prepend IV to encrypted data for storage
-  const combined = new Uint8Array(iv.length + encryptedData.byteLength);
-  combined.set(iv, 0);
-  combined.set(new Uint8Array(encryptedData), iv.length);
-  
-  return new Blob([combined], { type: "application/octet-stream" });
-}
-
-/**
- * Extracts IV and encrypted data from stored blob
- */
-export async function extractFromBlob(
-  blob: Blob
-): Promise<{ iv: Uint8Array; encryptedData: ArrayBuffer }> {
-  const arrayBuffer = await blob.arrayBuffer();
-  const data = new Uint8Array(arrayBuffer);
-  
-  const iv = new Uint8Array(data.subarray(0, 12)); // First 12 bytes are IV
-  const encryptedDataView = data.subarray(12); // Rest is encrypted data
-  
-  // Copy to a new ArrayBuffer to ensure proper type
-  const encryptedData = encryptedDataView.buffer.slice(
-    encryptedDataView.byteOffset,
-    encryptedDataView.byteOffset + encryptedDataView.byteLength
+  const { header, headerBytes, ciphertext } = parseContainer(data);
+  assertAad(header, options);
+
+  if (header.algorithm === CipherAlgorithm.AES_256_GCM_STREAM) {
+    return (await streamToBlob(new Blob([data]).stream().pipeThrough(decryptStream(key, options)))).arrayBuffer();
+  }
+
+  if (header.algorithm !== CipherAlgorithm.AES_256_GCM) {
+    throw new Error(`Unsupported cipher algorithm ${header.algorithm}`);
+  }
+
+  if (header.version === LEGACY_CONTAINER_VERSION) {
+    return crypto.subtle.decrypt({ name: "AES-GCM", iv: header.iv }, key, ciphertext);
+  }
+
+  const aad = header.flags & ContainerFlags.EXTERNAL_AAD
+    ? options.aad ?? new Uint8Array(0)
+    : new Uint8Array(0);
+
+  return crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: header.iv, additionalData: concatBytes(headerBytes, aad) },
+    key,
+    ciphertext
   );
-  
-  return { iv, encryptedData };
+}
+
+/**
+ * Returns a stream that encrypts its input into a chunked container
+ */
+export function encryptStream(
+  key: CryptoKey,
+  options: StreamSealOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Invalid chunk size ${chunkSize}`);
+  }
+
+  const chunkSizeField = new Uint8Array(4);
+  new DataView(chunkSizeField.buffer).setUint32(0, chunkSize);
+  const fields = new Map(options.fields ?? []);
+  fields.set(ContainerField.CHUNK_SIZE, chunkSizeField);
+
+  const header: ContainerHeader = {
+    version: CONTAINER_VERSION,
+    algorithm: CipherAlgorithm.AES_256_GCM_STREAM,
+    kdf: options.kdf ?? KdfId.NONE,
+    flags: (options.aad ? ContainerFlags.EXTERNAL_AAD : 0) | (options.fileInfo ? ContainerFlags.FILE_INFO : 0),
+    iv: crypto.getRandomValues(new Uint8Array(STREAM_NONCE_PREFIX_LENGTH)),
+    fields,
+  };
+  const headerBytes = encodeHeader(header);
+  const additionalData = concatBytes(headerBytes, options.aad ?? new Uint8Array(0));
+
+  const queue = createByteQueue();
+  if (options.fileInfo) {
+    queue.push(encodeFileInfo(options.fileInfo));
+  }
+  let counter = 0;
+
+  const sealChunk = async (plaintext: Uint8Array, last: boolean) =>
+    new Uint8Array(
+      await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv: chunkNonce(header.iv, counter++, last), additionalData },
+        key,
+        plaintext
+      )
+    );
+
+  return new TransformStream({
+    start(controller) {
+      controller.enqueue(headerBytes);
+    },
+    async transform(chunk, controller) {
+      queue.push(chunk);
+      // Always hold something back so the last chunk is only sealed in flush
+      while (queue.length > chunkSize) {
+        controller.enqueue(await sealChunk(queue.take(chunkSize), false));
+      }
+    },
+    async flush(controller) {
+      controller.enqueue(await sealChunk(queue.take(queue.length), true));
+    },
+  });
+}
+
+/**
+ * Returns a stream that decrypts any container format. Chunked containers are
+ * decrypted as they arrive; older formats are buffered and opened at the end.
+ */
+export function decryptStream(
+  key: CryptoKey,
+  options: StreamOpenOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  const queue = createByteQueue();
+  let mode: "header" | "chunked" | "buffered" = "header";
+  let noncePrefix: Uint8Array;
+  let additionalData: Uint8Array;
+  let sealedChunkSize: number;
+  let counter = 0;
+
+  // Plaintext is held back here until the file info record has been read off
+  const infoQueue = createByteQueue();
+  let awaitingFileInfo = false;
+
+  const emit = (
+    plaintext: Uint8Array,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (!awaitingFileInfo) {
+      if (plaintext.length > 0) controller.enqueue(plaintext);
+      return;
+    }
+
+    infoQueue.push(plaintext);
+    if (infoQueue.length < 4) return;
+
+    const lengthBytes = infoQueue.peek(4);
+    const infoLength = new DataView(lengthBytes.buffer).getUint32(0);
+    if (infoLength > MAX_FILE_INFO_LENGTH) {
+      throw new Error("Malformed file info record");
+    }
+    if (infoQueue.length < 4 + infoLength) return;
+
+    infoQueue.take(4);
+    const info = JSON.parse(new TextDecoder().decode(infoQueue.take(infoLength))) as FileInfo;
+    awaitingFileInfo = false;
+    options.onFileInfo?.(info);
+    emit(infoQueue.take(infoQueue.length), controller);
+  };
+
+  const openChunk = async (ciphertext: Uint8Array, last: boolean) =>
+    new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: chunkNonce(noncePrefix, counter++, last), additionalData },
+        key,
+        ciphertext
+      )
+    );
+
+  const readHeader = () => {
+    if (queue.length < CONTAINER_MAGIC.length) return;
+    if (!hasMagic(queue.peek(CONTAINER_MAGIC.length))) {
+      mode = "buffered";
+      return;
+    }
+
+    const headerLength = containerHeaderLength(queue.peek(Math.min(queue.length, 11 + 255)));
+    if (headerLength === null || queue.length < headerLength) return;
+
+    const { header, headerBytes } = parseContainer(queue.peek(headerLength));
+    if (header.algorithm !== CipherAlgorithm.AES_256_GCM_STREAM) {
+      mode = "buffered";
+      return;
+    }
+
+    const chunkSizeField = header.fields.get(ContainerField.CHUNK_SIZE);
+    if (header.iv.length !== STREAM_NONCE_PREFIX_LENGTH || chunkSizeField?.length !== 4) {
+      throw new Error("Malformed stream container header");
+    }
+    const chunkSize = new DataView(chunkSizeField.buffer, chunkSizeField.byteOffset).getUint32(0);
+    if (chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new Error(`Invalid chunk size ${chunkSize}`);
+    }
+
+    assertAad(header, options);
+    const aad = header.flags & ContainerFlags.EXTERNAL_AAD
+      ? options.aad ?? new Uint8Array(0)
+      : new Uint8Array(0);
+
+    noncePrefix = header.iv;
+    additionalData = concatBytes(headerBytes, aad);
+    awaitingFileInfo = (header.flags & ContainerFlags.FILE_INFO) !== 0;
+    sealedChunkSize = chunkSize + GCM_TAG_LENGTH;
+    queue.take(headerLength);
+    mode = "chunked";
+  };
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      queue.push(chunk);
+      if (mode === "header") readHeader();
+      if (mode !== "chunked") return;
+
+      while (queue.length > sealedChunkSize) {
+        emit(await openChunk(queue.take(sealedChunkSize), false), controller);
+      }
+    },
+    async flush(controller) {
+      if (mode !== "chunked") {
+        controller.enqueue(new Uint8Array(await openContainer(queue.take(queue.length), key, options)));
+        return;
+      }
+
+      if (queue.length < GCM_TAG_LENGTH) {
+        throw new Error("Truncated stream container");
+      }
+      emit(await openChunk(queue.take(queue.length), true), controller);
+      if (awaitingFileInfo) {
+        throw new Error("Truncated file info record");
+      }
+    },
+  });
+}
+
+/**
+ * Encrypts a Blob into a chunked container without loading it whole
+ */
+export async function encryptBlob(
+  blob: Blob,
+  key: CryptoKey,
+  options: StreamSealOptions = {}
+): Promise<Blob> {
+  return streamToBlob(blob.stream().pipeThrough(encryptStream(key, options)), "application/octet-stream");
+}
+
+/**
+ * Generates a random AES-256 key, used for master and per-photo data keys
+ */
+export async function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/**
+ * Encrypts a key under a wrapping key, returned as base64 for a text column
+ */
+export async function wrapKey(
+  key: CryptoKey,
+  wrappingKey: CryptoKey,
+  options: SealOptions = {}
+): Promise<string> {
+  const raw = await crypto.subtle.exportKey("raw", key);
+  return toBase64(await sealContainer(raw, wrappingKey, options));
+}
+
+/**
+ * Recovers a key wrapped by wrapKey
+ */
+export async function unwrapKey(
+  wrapped: string,
+  wrappingKey: CryptoKey,
+  options: OpenOptions = {}
+): Promise<CryptoKey> {
+  const raw = await openContainer(fromBase64(wrapped), wrappingKey, options);
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, true, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Encodes an object's owner, photo and version as additional authenticated data
+ */
+export function objectAad(binding: ObjectBinding): Uint8Array {
+  return new TextEncoder().encode(
+    `photovault-object-v1:${binding.userId}:${binding.photoId}:${binding.version}`
+  );
+}
+
+/**
+ * Encodes a thumbnail's object and size as additional authenticated data, so
+ * one size cannot be served in place of another or of the original
+ */
+export function thumbnailAad(binding: ThumbnailBinding): Uint8Array {
+  return new TextEncoder().encode(
+    `photovault-thumbnail-v1:${binding.userId}:${binding.photoId}:${binding.version}:${binding.size}`
+  );
+}
+
+/**
+ * Encodes an album's owner and id as additional authenticated data. Binds the
+ * album key and the album's own metadata; member photos keep objectAad.
+ */
+export function albumAad(binding: AlbumBinding): Uint8Array {
+  return new TextEncoder().encode(`photovault-album-v1:${binding.userId}:${binding.albumId}`);
+}
+
+/**
+ * Encodes a space and one of its key versions as additional authenticated
+ * data. Binds each member's copy of that space key and the space's name.
+ */
+export function spaceAad(binding: SpaceBinding): Uint8Array {
+  return new TextEncoder().encode(`photovault-space-v1:${binding.spaceId}:${binding.keyVersion}`);
+}
+
+/**
+ * Encodes the account a sharing private key belongs to as additional
+ * authenticated data, so no other key sealed under the master key passes for it
+ */
+export function sharingKeyAad(binding: SharingKeyBinding): Uint8Array {
+  return new TextEncoder().encode(`photovault-sharing-key-v1:${binding.userId}`);
+}
+
+/**
+ * Encodes an emergency contact and the master key escrowed for it as
+ * additional authenticated data
+ */
+export function emergencyAad(binding: EmergencyBinding): Uint8Array {
+  return new TextEncoder().encode(
+    `photovault-emergency-v1:${binding.grantorId}:${binding.contactId}:${binding.masterKeyId}`
+  );
+}
+
+/**
+ * Reports authentication failures of bound ciphertext as tampering
+ */
+export function asTamperError(error: unknown): unknown {
+  return error instanceof DOMException && error.name === "OperationError" ? new TamperError() : error;
+}
+
+/**
+ * Describes a File for the encrypted file info record. The capture date falls
+ * back to the file's modification time.
+ */
+export function fileInfoFromFile(file: File): FileInfo {
+  return {
+    name: file.name,
+    type: file.type || "application/octet-stream",
+    size: file.size,
+    capturedAt: file.lastModified ? new Date(file.lastModified).toISOString() : null,
+  };
+}
+
+/**
+ * Encrypts a file in the calling thread; the crypto worker runs this for encryptFile
+ */
+export async function encryptFileInThread(
+  file: Blob,
+  masterKey: CryptoKey,
+  options: StreamSealOptions = {},
+  onProgress?: (fraction: number) => void
+): Promise<{ encryptedBlob: Blob; wrappedKey: string; dataKey: CryptoKey }> {
+  const dataKey = await generateKey();
+  const fileInfo = options.fileInfo ?? (file instanceof File ? fileInfoFromFile(file) : undefined);
+  const source = onProgress ? file.stream().pipeThrough(progressStream(file.size, onProgress)) : file.stream();
+
+  return {
+    encryptedBlob: await streamToBlob(
+      source.pipeThrough(encryptStream(dataKey, { ...options, fileInfo })),
+      "application/octet-stream"
+    ),
+    wrappedKey: await wrapKey(dataKey, masterKey, { aad: options.aad }),
+    dataKey,
+  };
+}
+
+/**
+ * Decrypts a stored Blob in either the container or the legacy format
+ */
+export async function decryptBlob(
+  blob: Blob,
+  key: CryptoKey,
+  options: OpenOptions = {}
+): Promise<ArrayBuffer> {
+  return (await streamToBlob(blob.stream().pipeThrough(decryptStream(key, options)))).arrayBuffer();
+}
+
+/**
+ * Decrypts a file in the calling thread; the crypto worker runs this for decryptFile
+ */
+export async function decryptFileInThread(
+  source: Blob | ReadableStream<Uint8Array>,
+  wrappedKey: string,
+  masterKey: CryptoKey,
+  options: OpenOptions = {}
+): Promise<DecryptedFile> {
+  const bound = options.aad !== undefined;
+  const stream = source instanceof Blob ? source.stream() : source;
+
+  let info: FileInfo | null = null;
+  let blob: Blob;
+  try {
+    const dataKey = await unwrapKey(wrappedKey, masterKey, { ...options, requireAad: bound });
+    const decrypted = stream.pipeThrough(
+      decryptStream(dataKey, { ...options, onFileInfo: (fileInfo) => (info = fileInfo) })
+    );
+    blob = await streamToBlob(decrypted);
+  } catch (error) {
+    throw bound ? asTamperError(error) : error;
+  }
+
+  return {
+    blob: info ? blob.slice(0, blob.size, info.type) : blob,
+    info,
+  };
+}
+
+let streamsTransfer: boolean | null = null;
+
+/**
+ * Returns true if streams can be handed to a worker. Browsers that cannot,
+ * such as older Safari, throw a DataCloneError when asked to.
+ */
+function canTransferStreams(): boolean {
+  if (streamsTransfer === null) {
+    try {
+      const { port1, port2 } = new MessageChannel();
+      const stream = new ReadableStream();
+      port1.postMessage(stream, [stream]);
+      port1.close();
+      port2.close();
+      streamsTransfer = true;
+    } catch {
+      streamsTransfer = false;
+    }
+  }
+  return streamsTransfer;
+}
+
+/**
+ * Encrypts a file under a fresh data key and wraps that key with the master key
+ * The data key is returned so the row's metadata can be sealed under it too.
+ * With options.aad both the file and the wrapped key are bound to it.
+ *
+ * Runs on the crypto worker pool. The file is handed over as a Blob and
+ * streamed through the cipher there, so it is never read whole.
+ */
+export async function encryptFile(
+  file: Blob,
+  masterKey: CryptoKey,
+  options: StreamSealOptions & TaskOptions = {}
+): Promise<{ encryptedBlob: Blob; wrappedKey: string; dataKey: CryptoKey }> {
+  const { signal, onProgress, ...sealOptions } = options;
+
+  if (typeof Worker === "undefined") {
+    return encryptFileInThread(file, masterKey, sealOptions, onProgress);
+  }
+
+  const { blob, wrappedKey, dataKey } = await runCryptoTask(async () => ({
+    task: { type: "encrypt" as const, file, masterKey, options: sealOptions },
+    transfer: [],
+  }), signal, onProgress);
+
+  return { encryptedBlob: blob, wrappedKey, dataKey };
+}
+
+/**
+ * Unwraps a photo's data key with the master key and decrypts a stored Blob
+ * or a download stream. The Blob is typed from the file info record when the
+ * container has one; older uploads come back untyped with no info.
+ *
+ * With options.aad the wrapped key must be bound to it, and any mismatch is
+ * thrown as a TamperError. Files uploaded before binding are accepted since
+ * their data key, which only ever encrypted that one file, is bound instead.
+ *
+ * Runs on the crypto worker pool. A download stream is transferred to the
+ * worker and decrypted as it arrives; where streams cannot be transferred it
+ * is first collected into a Blob, which the browser may keep on disk.
+ */
+export async function decryptFile(
+  source: Blob | ReadableStream<Uint8Array>,
+  wrappedKey: string,
+  masterKey: CryptoKey,
+  options: OpenOptions & TaskOptions = {}
+): Promise<DecryptedFile> {
+  const { signal, ...openOptions } = options;
+
+  if (typeof Worker === "undefined") {
+    return decryptFileInThread(source, wrappedKey, masterKey, openOptions);
+  }
+
+  try {
+    return await runCryptoTask(async () => {
+      const stream = source instanceof Blob ? null : source;
+      const transferable = stream && canTransferStreams();
+      return {
+        task: {
+          type: "decrypt" as const,
+          source: stream && !transferable ? await new Response(stream).blob() : source,
+          wrappedKey,
+          masterKey,
+          options: openOptions,
+        },
+        transfer: transferable ? [stream] : [],
+      };
+    }, signal);
+  } catch (error) {
+    // Errors cross the worker boundary as plain Errors that keep their name
+    throw error instanceof Error && error.name === "TamperError" ? new TamperError() : error;
+  }
 }
@@ -0,0 +1,163 @@
+import exifr from "exifr";
+import { describe, expect, it } from "vitest";
+import { PhotoExif, applyMetadataPolicy, copyMetadata } from "@/lib/exif";
+
+const encoder = new TextEncoder();
+
+const concat = (...parts: Uint8Array[]) => new Uint8Array(parts.flatMap((part) => [...part]));
+
+const contains = (haystack: Uint8Array, needle: string) =>
+  Buffer.from(haystack).includes(Buffer.from(needle));
+
+// Big-endian EXIF with a make, a model, an orientation and a GPS latitude
+function tiffFixture(): Uint8Array {
+  const tiff = new Uint8Array(200);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x4d, 0x4d, 0, 42]);
+  view.setUint32(4, 8);
+
+  let offset = 8;
+  const entry = (tag: number, type: number, count: number, value: number) => {
+    view.setUint16(offset, tag);
+    view.setUint16(offset + 2, type);
+    view.setUint32(offset + 4, count);
+    if (type === 3) view.setUint16(offset + 8, value);
+    else view.setUint32(offset + 8, value);
+    offset += 12;
+  };
+
+  view.setUint16(offset, 4);
+  offset += 2;
+  entry(0x010f, 2, 6, 100); // Make
+  entry(0x0110, 2, 13, 110); // Model
+  entry(0x0112, 3, 1, 6); // Orientation
+  entry(0x8825, 4, 1, 130); // GPS IFD
+  tiff.set(encoder.encode("Canon\0"), 100);
+  tiff.set(encoder.encode("Canon EOS R5\0"), 110);
+
+  offset = 130;
+  view.setUint16(offset, 2);
+  offset += 2;
+  entry(0x0001, 2, 2, 0x4e000000); // GPSLatitudeRef "N"
+  entry(0x0002, 5, 3, 160); // GPSLatitude
+  [52, 1, 30, 1, 7, 1].forEach((value, i) => view.setUint32(160 + i * 4, value));
+  return tiff;
+}
+
+const segment = (marker: number, payload: Uint8Array) =>
+  concat(Uint8Array.of(0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff), payload);
+
+const jpegFixture = () =>
+  concat(
+    Uint8Array.of(0xff, 0xd8),
+    segment(0xe0, encoder.encode("JFIF\0\x01\x01\0\0\x01\0\x01\0\0")),
+    segment(0xe1, concat(encoder.encode("Exif\0\0"), tiffFixture())),
+    segment(0xe1, encoder.encode("http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>GPS</x:xmpmeta>")),
+    segment(0xfe, encoder.encode("comment")),
+    segment(0xdb, new Uint8Array(65)),
+    segment(0xda, new Uint8Array(10)),
+    Uint8Array.of(1, 2, 0xff, 0, 3, 0xff, 0xd9),
+    encoder.encode("TRAILER")
+  );
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  new DataView(chunk.buffer).setUint32(0, data.length);
+  chunk.set(encoder.encode(type), 4);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const pngFixture = () =>
+  concat(
+    Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+    pngChunk("IHDR", new Uint8Array(13)),
+    pngChunk("IDAT", new Uint8Array(3)),
+    pngChunk("IEND", new Uint8Array(0))
+  );
+
+const rewrite = async (input: Uint8Array, policy: "keep" | "strip-location" | "strip-all", type = "image/jpeg") =>
+  new Uint8Array(await (await applyMetadataPolicy(new File([input], "photo", { type }), policy, null)).arrayBuffer());
+
+const parse = (input: Uint8Array) => exifr.parse(input, { gps: true, translateValues: false, reviveValues: false });
+
+describe("applyMetadataPolicy", () => {
+  it("leaves files untouched when keeping metadata", async () => {
+    const jpeg = jpegFixture();
+    expect(await rewrite(jpeg, "keep")).toEqual(jpeg);
+    expect((await parse(jpeg)).GPSLatitude).toEqual([52, 30, 7]);
+  });
+
+  it("removes location but keeps camera details", async () => {
+    const stripped = await rewrite(jpegFixture(), "strip-location");
+    const exif = await parse(stripped);
+
+    expect(exif.Make).toBe("Canon");
+    expect(exif.Orientation).toBe(6);
+    expect(exif.GPSLatitude).toBeUndefined();
+    expect(contains(stripped, "xmpmeta")).toBe(false);
+    expect(contains(stripped, "TRAILER")).toBe(false);
+    expect(contains(stripped, "comment")).toBe(true);
+  });
+
+  it("keeps nothing but orientation when removing everything", async () => {
+    const stripped = await rewrite(jpegFixture(), "strip-all");
+    const exif = await parse(stripped);
+
+    expect(exif).toEqual({ Orientation: 6 });
+    expect(contains(stripped, "Canon")).toBe(false);
+    expect(contains(stripped, "comment")).toBe(false);
+    expect(contains(stripped, "JFIF")).toBe(true);
+  });
+
+  it("keeps the image data intact", async () => {
+    const stripped = await rewrite(jpegFixture(), "strip-all");
+    const scan = concat(segment(0xda, new Uint8Array(10)), Uint8Array.of(1, 2, 0xff, 0, 3, 0xff, 0xd9));
+
+    expect(stripped.subarray(stripped.length - scan.length)).toEqual(scan);
+  });
+
+  it("rejects malformed JPEG segments", async () => {
+    const jpeg = jpegFixture();
+    jpeg[2] = 0;
+
+    await expect(rewrite(jpeg, "strip-location")).rejects.toThrow("Malformed JPEG");
+  });
+
+  it("refuses formats it cannot rewrite when they carry location", async () => {
+    const file = new File([new Uint8Array(16)], "photo.heic", { type: "image/heic" });
+    const exif: PhotoExif = {
+      capturedAt: null,
+      camera: null,
+      lens: null,
+      exposureTime: null,
+      fNumber: null,
+      iso: null,
+      focalLength: null,
+      location: { latitude: 52.5, longitude: 13.4, altitude: null },
+    };
+
+    await expect(applyMetadataPolicy(file, "strip-location", exif)).rejects.toThrow();
+    expect(await applyMetadataPolicy(file, "strip-location", null)).toBe(file);
+  });
+});
+
+describe("copyMetadata", () => {
+  it("copies EXIF into an edited PNG under the policy, upright", async () => {
+    const edited = await copyMetadata(new Blob([jpegFixture()]), new Blob([pngFixture()]), "strip-location");
+    const bytes = new Uint8Array(await edited.arrayBuffer());
+    const exif = await parse(bytes);
+
+    expect(exif.Make).toBe("Canon");
+    expect(exif.Orientation).toBe(1);
+    expect(exif.GPSLatitude).toBeUndefined();
+
+    // And the PNG rewriter drops it again
+    expect(await rewrite(bytes, "strip-all", "image/png")).toEqual(pngFixture());
+  });
+
+  it("copies nothing when removing everything", async () => {
+    const png = new Blob([pngFixture()]);
+    expect(await copyMetadata(new Blob([jpegFixture()]), png, "strip-all")).toBe(png);
+  });
+});
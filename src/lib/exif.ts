@@ -0,0 +1,500 @@
+// Camera metadata embedded in image files
+//
+// EXIF and XMP are read when a photo is uploaded and kept with its encrypted
+// metadata. What stays in the stored file follows the upload's metadata
+// policy: everything, everything but location, or nothing but orientation.
+// JPEG, PNG and WebP are rewritten in place without re-encoding the pixels;
+// other formats are refused when they carry something the policy removes.
+
+import exifr from "exifr";
+
+export type MetadataPolicy = "keep" | "strip-location" | "strip-all";
+
+export const METADATA_POLICY_LABELS: Record<MetadataPolicy, string> = {
+  keep: "Keep all metadata",
+  "strip-location": "Remove location",
+  "strip-all": "Remove all metadata",
+};
+
+const POLICY_STORAGE_KEY = "upload_metadata_policy";
+
+/**
+ * Returns the policy last chosen for uploads, keeping everything by default
+ */
+export function loadMetadataPolicy(): MetadataPolicy {
+  const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+  return stored && stored in METADATA_POLICY_LABELS ? (stored as MetadataPolicy) : "keep";
+}
+
+export function saveMetadataPolicy(policy: MetadataPolicy): void {
+  localStorage.setItem(POLICY_STORAGE_KEY, policy);
+}
+
+export interface PhotoLocation {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+}
+
+export interface PhotoExif {
+  capturedAt: string | null;
+  camera: string | null;
+  lens: string | null;
+  // Seconds
+  exposureTime: number | null;
+  fNumber: number | null;
+  iso: number | null;
+  // Millimetres
+  focalLength: number | null;
+  location: PhotoLocation | null;
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+
+// Bytes per value of each TIFF field type, by type number
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADERS = ["http://ns.adobe.com/xap/1.0/\0", "http://ns.adobe.com/xmp/extension/\0"];
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const number = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+
+const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+
+/**
+ * Reads capture time, camera, exposure and location from a file's EXIF and
+ * XMP. Returns null for files without any or that cannot be parsed.
+ */
+export async function readExif(file: Blob): Promise<PhotoExif | null> {
+  let tags: Record<string, unknown> | undefined;
+  try {
+    tags = await exifr.parse(file, { xmp: true, gps: true, iptc: false, icc: false, ifd1: false, interop: false });
+  } catch {
+    return null;
+  }
+  if (!tags) return null;
+
+  const captured = tags.DateTimeOriginal ?? tags.CreateDate;
+  const make = text(tags.Make);
+  const model = text(tags.Model);
+  const latitude = number(tags.latitude);
+  const longitude = number(tags.longitude);
+
+  return {
+    capturedAt: captured instanceof Date && !isNaN(captured.getTime()) ? captured.toISOString() : null,
+    // Models usually repeat the make, as in "Canon EOS R5"
+    camera: make && model && !model.startsWith(make) ? `${make} ${model}` : model ?? make,
+    lens: text(tags.LensModel) ?? text(tags.Lens),
+    exposureTime: number(tags.ExposureTime),
+    fNumber: number(tags.FNumber),
+    iso: number(tags.ISO),
+    focalLength: number(tags.FocalLength),
+    location:
+      latitude !== null && longitude !== null ? { latitude, longitude, altitude: number(tags.GPSAltitude) } : null,
+  };
+}
+
+/**
+ * Drops what a policy removes from parsed EXIF before it is kept with the photo
+ */
+export function exifForPolicy(exif: PhotoExif | null, policy: MetadataPolicy): PhotoExif | null {
+  if (!exif || policy === "keep") return exif;
+  return { ...exif, location: null };
+}
+
+/**
+ * Summarises camera settings, as in "1/250 s · f/2.8 · ISO 100 · 50 mm"
+ */
+export function formatExposure(exif: PhotoExif): string | null {
+  const { exposureTime, fNumber, iso, focalLength } = exif;
+  const parts = [
+    exposureTime && (exposureTime < 1 ? `1/${Math.round(1 / exposureTime)} s` : `${exposureTime} s`),
+    fNumber && `f/${fNumber}`,
+    iso && `ISO ${iso}`,
+    focalLength && `${focalLength} mm`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+// TIFF structure shared by EXIF in every container
+
+interface Tiff {
+  bytes: Uint8Array;
+  view: DataView;
+  little: boolean;
+  ifd0: number;
+}
+
+const readTiff = (bytes: Uint8Array): Tiff => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Malformed EXIF");
+
+  const little = order === 0x4949;
+  if (view.getUint16(2, little) !== 42) throw new Error("Malformed EXIF");
+  return { bytes, view, little, ifd0: view.getUint32(4, little) };
+};
+
+// Offset of the IFD0 entry for a tag
+const findEntry = (tiff: Tiff, tag: number): number | null => {
+  const count = tiff.view.getUint16(tiff.ifd0, tiff.little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiff.ifd0 + 2 + i * 12;
+    if (tiff.view.getUint16(entry, tiff.little) === tag) return entry;
+  }
+  return null;
+};
+
+const readOrientation = (tiff: Tiff) => {
+  const entry = findEntry(tiff, TAG_ORIENTATION);
+  return entry === null ? 1 : tiff.view.getUint16(entry + 8, tiff.little);
+};
+
+const setOrientation = (tiff: Tiff, orientation: number) => {
+  const entry = findEntry(tiff, TAG_ORIENTATION);
+  if (entry !== null) tiff.view.setUint16(entry + 8, orientation, tiff.little);
+};
+
+// Empties the GPS IFD and zeroes its values, leaving the pointer to it valid
+const clearGps = (tiff: Tiff) => {
+  const pointer = findEntry(tiff, TAG_GPS_IFD);
+  if (pointer === null) return;
+
+  const { view, little } = tiff;
+  const gps = view.getUint32(pointer + 8, little);
+  const count = view.getUint16(gps, little);
+  for (let i = 0; i < count; i++) {
+    const entry = gps + 2 + i * 12;
+    const size = (TYPE_SIZES[view.getUint16(entry + 2, little)] ?? 1) * view.getUint32(entry + 4, little);
+    // Larger values are stored elsewhere, at an offset
+    if (size > 4) {
+      const at = view.getUint32(entry + 8, little);
+      tiff.bytes.fill(0, at, at + size);
+    }
+  }
+  tiff.bytes.fill(0, gps, gps + 2 + count * 12);
+};
+
+// EXIF with nothing but an orientation, so stripped photos still display upright
+const orientationOnlyTiff = (orientation: number) => {
+  const bytes = new Uint8Array(26);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x4d, 0x4d, 0, 42]);
+  view.setUint32(4, 8);
+  view.setUint16(8, 1);
+  view.setUint16(10, TAG_ORIENTATION);
+  view.setUint16(12, 3);
+  view.setUint32(14, 1);
+  view.setUint16(18, orientation);
+  return bytes;
+};
+
+/**
+ * Applies a policy to a copy of EXIF data, or returns null to drop it
+ */
+const filterTiff = (source: Uint8Array, policy: MetadataPolicy): Uint8Array | null => {
+  if (policy === "keep") return source;
+  try {
+    const tiff = readTiff(source.slice());
+    if (policy === "strip-all") {
+      const orientation = readOrientation(tiff);
+      return orientation === 1 ? null : orientationOnlyTiff(orientation);
+    }
+    clearGps(tiff);
+    return tiff.bytes;
+  } catch {
+    // Whatever cannot be parsed cannot be checked for location either
+    return null;
+  }
+};
+
+// Container formats
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, prefix: string, at = 0) =>
+  bytes.length >= at + prefix.length && ascii(bytes, at, prefix.length) === prefix;
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+type Format = "jpeg" | "png" | "webp";
+
+const detectFormat = (bytes: Uint8Array): Format | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpeg";
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return "png";
+  if (startsWith(bytes, "RIFF") && startsWith(bytes, "WEBP", 8)) return "webp";
+  return null;
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+  return segment;
+};
+
+/**
+ * Rewrites a JPEG's metadata segments. Both stripping policies also drop XMP,
+ * IPTC and anything after the end of the image, such as the extra images of
+ * an MPF file, since any of them can repeat the location.
+ */
+const stripJpeg = (bytes: Uint8Array, policy: MetadataPolicy): Uint8Array => {
+  const parts = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error("Malformed JPEG");
+    const marker = bytes[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda) break;
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    const segment = bytes.subarray(offset, end);
+    const payload = segment.subarray(4);
+    offset = end;
+
+    if (marker === 0xe1 && startsWith(payload, EXIF_HEADER)) {
+      const tiff = filterTiff(payload.subarray(EXIF_HEADER.length), policy);
+      if (tiff) parts.push(jpegSegment(marker, concat([payload.subarray(0, EXIF_HEADER.length), tiff])));
+    } else if (marker === 0xe1 && XMP_HEADERS.some((header) => startsWith(payload, header))) {
+      // XMP can repeat GPS and every other field
+    } else if (marker === 0xed || (marker === 0xe2 && startsWith(payload, "MPF\0"))) {
+      // IPTC, and the index of the extra images dropped below
+    } else if (policy === "strip-all" && ((marker > 0xe0 && marker < 0xee) || marker === 0xef || marker === 0xfe)) {
+      // Only JFIF, Adobe colour transforms and ICC profiles affect how the image looks
+      if (marker === 0xe2 && startsWith(payload, "ICC_PROFILE\0")) parts.push(segment);
+    } else {
+      parts.push(segment);
+    }
+  }
+
+  // The scans run to the first end of image marker; entropy coded data never contains one
+  let eoi = offset;
+  while (eoi + 1 < bytes.length && !(bytes[eoi] === 0xff && bytes[eoi + 1] === 0xd9)) eoi++;
+  parts.push(bytes.subarray(offset, Math.min(eoi + 2, bytes.length)));
+  return concat(parts);
+};
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set([...type].map((char) => char.charCodeAt(0)), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+  raw: Uint8Array;
+}
+
+const pngChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    chunks.push({
+      type: ascii(bytes, offset + 4, 4),
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+      raw: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return chunks;
+};
+
+const TEXT_CHUNKS = ["tEXt", "iTXt", "zTXt", "tIME"];
+
+/**
+ * Rewrites a PNG's metadata chunks, re-sealing EXIF that is kept
+ */
+const stripPng = (bytes: Uint8Array, policy: MetadataPolicy): Uint8Array => {
+  const parts = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const chunk of pngChunks(bytes)) {
+    if (chunk.type === "eXIf") {
+      const tiff = filterTiff(chunk.data, policy);
+      if (tiff) parts.push(pngChunk("eXIf", tiff));
+    } else if (chunk.type === "iTXt" && startsWith(chunk.data, `${PNG_XMP_KEYWORD}\0`)) {
+      // XMP can repeat GPS and every other field
+    } else if (!(policy === "strip-all" && TEXT_CHUNKS.includes(chunk.type))) {
+      parts.push(chunk.raw);
+    }
+  }
+  return concat(parts);
+};
+
+const webpChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even length
+    const end = offset + 8 + size + (size & 1);
+    chunks.push({
+      type: ascii(bytes, offset, 4),
+      data: bytes.subarray(offset + 8, offset + 8 + size),
+      raw: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return chunks;
+};
+
+const webpChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set([...type].map((char) => char.charCodeAt(0)));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+// Unwraps the EXIF chunk, which some encoders prefix like a JPEG segment
+const webpTiff = (data: Uint8Array) => (startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data);
+
+/**
+ * Rewrites a WebP's EXIF and XMP chunks and the flags announcing them
+ */
+const stripWebp = (bytes: Uint8Array, policy: MetadataPolicy): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  let extended: Uint8Array | null = null;
+  let hasExif = false;
+
+  for (const chunk of webpChunks(bytes)) {
+    if (chunk.type === "EXIF") {
+      const tiff = filterTiff(webpTiff(chunk.data), policy);
+      if (tiff) {
+        chunks.push(webpChunk("EXIF", tiff));
+        hasExif = true;
+      }
+    } else if (chunk.type === "VP8X") {
+      extended = chunk.raw.slice();
+      chunks.push(extended);
+    } else if (chunk.type !== "XMP ") {
+      chunks.push(chunk.raw);
+    }
+  }
+
+  if (extended) {
+    // Bit 3 announces EXIF and bit 2 XMP
+    extended[8] &= hasExif ? ~0x04 : ~0x0c;
+  }
+
+  const body = concat(chunks);
+  const header = new Uint8Array(12);
+  header.set(bytes.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat([header, body]);
+};
+
+const extractTiff = (bytes: Uint8Array, format: Format): Uint8Array | null => {
+  if (format === "png") {
+    return pngChunks(bytes).find((chunk) => chunk.type === "eXIf")?.data ?? null;
+  }
+  if (format === "webp") {
+    const chunk = webpChunks(bytes).find(({ type }) => type === "EXIF");
+    return chunk ? webpTiff(chunk.data) : null;
+  }
+
+  for (let offset = 2; offset + 4 <= bytes.length && bytes[offset] === 0xff; ) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    const payload = bytes.subarray(offset + 4, end);
+    if (marker === 0xe1 && startsWith(payload, EXIF_HEADER)) return payload.subarray(EXIF_HEADER.length);
+    offset = end;
+  }
+  return null;
+};
+
+/**
+ * Removes what a policy strips from a file before it is encrypted. Throws for
+ * formats that cannot be rewritten if they carry anything to remove.
+ */
+export async function applyMetadataPolicy(
+  file: File,
+  policy: MetadataPolicy,
+  exif: PhotoExif | null
+): Promise<File> {
+  if (policy === "keep") return file;
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectFormat(bytes);
+  if (!format) {
+    const hasLocation = !!exif?.location;
+    if (exif && (policy === "strip-all" || hasLocation)) {
+      throw new Error(`Metadata cannot be removed from ${file.type || "this kind of file"}`);
+    }
+    return file;
+  }
+
+  const stripped =
+    format === "jpeg" ? stripJpeg(bytes, policy) : format === "png" ? stripPng(bytes, policy) : stripWebp(bytes, policy);
+  return new File([stripped], file.name, { type: file.type, lastModified: file.lastModified });
+}
+
+/**
+ * Carries an original's EXIF over to an edited PNG under the same policy.
+ * Edits are drawn upright, so the copied orientation is reset.
+ */
+export async function copyMetadata(original: Blob, edited: Blob, policy: MetadataPolicy): Promise<Blob> {
+  if (policy === "strip-all") return edited;
+
+  const source = new Uint8Array(await original.arrayBuffer());
+  const format = detectFormat(source);
+  const found = format ? extractTiff(source, format) : null;
+  const tiff = found ? filterTiff(found.slice(), policy) : null;
+  if (!tiff) return edited;
+
+  try {
+    setOrientation(readTiff(tiff), 1);
+  } catch {
+    return edited;
+  }
+
+  // eXIf must come before the image data, so it goes right after the header
+  const bytes = new Uint8Array(await edited.arrayBuffer());
+  const [header, ...rest] = pngChunks(bytes);
+  if (header?.type !== "IHDR") return edited;
+
+  return new Blob(
+    [bytes.subarray(0, PNG_SIGNATURE.length), header.raw, pngChunk("eXIf", tiff), ...rest.map(({ raw }) => raw)],
+    { type: edited.type }
+  );
+}
@@ -0,0 +1,95 @@
+// Collecting files from picked or dropped folder trees
+//
+// Files keep the path they had relative to the folder that was chosen, so the
+// tree can be mapped to albums and each path stored with the photo's
+// encrypted metadata. Anything that is not an image is set aside for the
+// caller to report rather than uploaded.
+
+export interface ImportedFile {
+  file: File;
+  // Relative to the chosen folder's parent, such as "Trip/Day 1/IMG_0001.JPG";
+  // a loose file's path is just its name
+  path: string;
+}
+
+export interface ImportSelection {
+  images: ImportedFile[];
+  skipped: ImportedFile[];
+}
+
+const isImage = (file: File) => file.type.startsWith("image/");
+
+/**
+ * Returns the folder part of a path, or null for a file outside any folder
+ */
+export function folderOf(path: string): string | null {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? null : path.slice(0, slash);
+}
+
+/**
+ * Splits files into images and everything else
+ */
+export function splitImages(files: ImportedFile[]): ImportSelection {
+  return {
+    images: files.filter(({ file }) => isImage(file)),
+    skipped: files.filter(({ file }) => !isImage(file)),
+  };
+}
+
+/**
+ * Reads files from a file input, which sets a relative path on each file when
+ * a directory was picked
+ */
+export function filesFromInput(list: FileList | null): ImportedFile[] {
+  return Array.from(list ?? []).map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+}
+
+// A directory reader hands entries over in batches until it returns none
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function walkEntry(entry: FileSystemEntry, into: ImportedFile[]): Promise<void> {
+  // Entry paths start with a slash at the root of the drop
+  const path = entry.fullPath.replace(/^\//, "") || entry.name;
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    into.push({ file, path });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, into);
+    }
+  }
+}
+
+/**
+ * Reads files from a drop, descending into any folders. Browsers without
+ * directory entries only see the top level files.
+ */
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<ImportedFile[]> {
+  // Entries must be taken before the first await, while the drop is still live
+  const items = Array.from(dataTransfer.items ?? []).filter((item) => item.kind === "file");
+  const entries = items
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0 || entries.length < items.length) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }));
+  }
+
+  const files: ImportedFile[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry, files);
+  }
+  return files;
+}
@@ -0,0 +1,13 @@
+// Accepted ranges for stored key derivation settings, which come from the
+// server. The floors stop a tampered profile from weakening the KDF; the
+// ceilings stop it from exhausting memory or hanging the unlock.
+//
+// Kept apart from encryption.ts so the KDF worker can check them without
+// pulling in the crypto pool, which would make the two workers import each other.
+
+export const KDF_LIMITS = {
+  pbkdf2Iterations: [600000, 10000000],
+  argon2MemoryKiB: [19456, 262144],
+  argon2Iterations: [2, 16],
+  argon2Parallelism: [1, 4],
+} as const;
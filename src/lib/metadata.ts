@@ -0,0 +1,64 @@
+// Photo and version metadata, encrypted under the same data key as the pixels.
+// Album metadata is encrypted under the album key the same way.
+
+import {
+  asTamperError,
+  fromBase64,
+  openContainer,
+  sealContainer,
+  toBase64,
+  unwrapKey,
+} from "@/lib/encryption";
+import type { MetadataPolicy, PhotoExif } from "@/lib/exif";
+
+export interface PhotoMetadata {
+  title: string | null;
+  description: string | null;
+  // Where the file sat in an imported folder, such as "DCIM/100CANON/IMG_0001.JPG"
+  path?: string | null;
+  // Read from the file at upload, without location if the policy removed it
+  exif?: PhotoExif | null;
+  // What was removed from the stored file, applied again to edited versions
+  metadataPolicy?: MetadataPolicy;
+}
+
+export interface EditMetadata {
+  filter?: string;
+  adjustments?: Record<string, number>;
+}
+
+export interface AlbumMetadata {
+  name: string;
+  coverPhotoId: string | null;
+}
+
+/**
+ * Encrypts metadata as JSON under a data key, returned as base64 for a text column
+ */
+export async function encryptMetadata(
+  metadata: PhotoMetadata | EditMetadata | AlbumMetadata,
+  dataKey: CryptoKey,
+  aad?: Uint8Array
+): Promise<string> {
+  const sealed = await sealContainer(new TextEncoder().encode(JSON.stringify(metadata)), dataKey, { aad });
+  return toBase64(sealed);
+}
+
+/**
+ * Unwraps a row's data key and decrypts its metadata column. Both must be
+ * bound to the aad, otherwise a TamperError is thrown.
+ */
+export async function decryptMetadata<T extends PhotoMetadata | EditMetadata | AlbumMetadata>(
+  encrypted: string,
+  wrappedKey: string,
+  masterKey: CryptoKey,
+  aad: Uint8Array
+): Promise<T> {
+  try {
+    const dataKey = await unwrapKey(wrappedKey, masterKey, { aad, requireAad: true });
+    const plaintext = await openContainer(fromBase64(encrypted), dataKey, { aad, requireAad: true });
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  } catch (error) {
+    throw asTamperError(error);
+  }
+}
@@ -0,0 +1,134 @@
+// Passkey unlock through the WebAuthn PRF extension
+//
+// The authenticator evaluates a pseudo-random function over a salt stored with
+// each passkey and only returns the output after user verification. That output
+// is the secret: no assertion is checked by a server, so the challenge is just
+// random bytes. Without a hardware authenticator, Chrome DevTools' WebAuthn
+// panel can add a virtual CTAP2 authenticator with resident keys, user
+// verification and PRF support enabled.
+
+import { fromBase64Url, toBase64Url } from "@/lib/encryption";
+
+const PRF_SALT_LENGTH = 32;
+const DEVICE_KEY_INFO = new TextEncoder().encode("photovault-passkey-kek-v1");
+
+export class PasskeyUnsupportedError extends Error {
+  constructor() {
+    super("This passkey or browser does not support the PRF extension");
+    this.name = "PasskeyUnsupportedError";
+  }
+}
+
+export interface PasskeyCredential {
+  credentialId: string;
+  prfSalt: Uint8Array;
+}
+
+export interface UnlockedPasskey {
+  credentialId: string;
+  key: CryptoKey;
+}
+
+export interface RegisteredPasskey extends UnlockedPasskey {
+  prfSalt: Uint8Array;
+}
+
+const randomChallenge = () => crypto.getRandomValues(new Uint8Array(32));
+
+/**
+ * Returns true if the browser exposes WebAuthn at all. PRF support is only
+ * known once an authenticator answers.
+ */
+export function isPasskeySupported(): boolean {
+  return typeof window !== "undefined" && "PublicKeyCredential" in window && !!navigator.credentials;
+}
+
+/**
+ * Turns a PRF output into the AES key that wraps the master key. It is
+ * extractable so it can be escrowed under the master key for rotations.
+ */
+async function deriveDeviceKey(prfOutput: BufferSource): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", prfOutput, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: DEVICE_KEY_INFO },
+    material,
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Asks the user for one of the given passkeys and derives its device key
+ */
+export async function authenticatePasskey(credentials: PasskeyCredential[]): Promise<UnlockedPasskey> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      challenge: randomChallenge(),
+      allowCredentials: credentials.map((c) => ({ type: "public-key", id: fromBase64Url(c.credentialId) })),
+      userVerification: "required",
+      extensions: {
+        prf: {
+          // Keyed by the base64url credential id
+          evalByCredential: Object.fromEntries(credentials.map((c) => [c.credentialId, { first: c.prfSalt }])),
+        },
+      },
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey request was cancelled");
+  }
+
+  const output = credential.getClientExtensionResults().prf?.results?.first;
+  if (!output) {
+    throw new PasskeyUnsupportedError();
+  }
+
+  return {
+    credentialId: toBase64Url(new Uint8Array(credential.rawId)),
+    key: await deriveDeviceKey(output),
+  };
+}
+
+/**
+ * Creates a passkey with the PRF extension enabled and derives its device key
+ */
+export async function createPasskey(
+  user: { id: string; email: string },
+  label: string
+): Promise<RegisteredPasskey> {
+  const prfSalt = crypto.getRandomValues(new Uint8Array(PRF_SALT_LENGTH));
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: randomChallenge(),
+      rp: { name: "PhotoVault" },
+      user: { id: new TextEncoder().encode(user.id), name: user.email, displayName: label },
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 },
+        { type: "public-key", alg: -257 },
+      ],
+      authenticatorSelection: { residentKey: "preferred", userVerification: "required" },
+      extensions: { prf: { eval: { first: prfSalt } } },
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey request was cancelled");
+  }
+
+  const prf = credential.getClientExtensionResults().prf;
+  if (!prf?.enabled && !prf?.results) {
+    throw new PasskeyUnsupportedError();
+  }
+
+  const credentialId = toBase64Url(new Uint8Array(credential.rawId));
+
+  // Many authenticators only evaluate the PRF during an assertion
+  if (!prf.results?.first) {
+    const { key } = await authenticatePasskey([{ credentialId, prfSalt }]);
+    return { credentialId, prfSalt, key };
+  }
+
+  return { credentialId, prfSalt, key: await deriveDeviceKey(prf.results.first) };
+}
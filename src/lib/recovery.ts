@@ -0,0 +1,47 @@
+// Recovery keys encoded as BIP39 word mnemonics
+
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+
+const RECOVERY_KEY_LENGTH = 32; // 256 bits, 24 words
+
+export interface RecoveryKey {
+  mnemonic: string;
+  key: CryptoKey;
+}
+
+async function importRecoveryKey(entropy: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new Uint8Array(entropy), { name: "AES-GCM" }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/**
+ * Normalises user input: case, extra whitespace and line breaks from the sheet
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+/**
+ * Generates a random recovery key and its 24-word mnemonic
+ */
+export async function generateRecoveryKey(): Promise<RecoveryKey> {
+  const entropy = crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_LENGTH));
+  return {
+    mnemonic: entropyToMnemonic(entropy, wordlist),
+    key: await importRecoveryKey(entropy),
+  };
+}
+
+/**
+ * Rebuilds the recovery key from its mnemonic, checking the word checksum
+ */
+export async function recoveryKeyFromMnemonic(mnemonic: string): Promise<CryptoKey> {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!validateMnemonic(normalized, wordlist)) {
+    throw new Error("Invalid recovery key. Check the words and their order.");
+  }
+  return importRecoveryKey(mnemonicToEntropy(normalized, wordlist));
+}
@@ -0,0 +1,212 @@
+// Share links for people without a PhotoVault account
+//
+// A link looks like /s/<token>#<key>. The token lets the share-link function
+// hand out the ciphertext and the wrapped data key; the key after the # is
+// never sent to any server and is the only thing that can unwrap it. A link
+// password, if set, seals the wrapped key once more under a passphrase key.
+// Opening a link does not use up a view; the viewer counts one once the photo
+// is decrypted, with a proof that needs the key and the password.
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  DEFAULT_KDF_PARAMS,
+  KdfParams,
+  deriveKey,
+  fromBase64,
+  fromBase64Url,
+  generateSalt,
+  kdfIdFor,
+  objectAad,
+  openContainer,
+  parseKdfParams,
+  sealContainer,
+  toBase64,
+  toBase64Url,
+  wrapKey,
+} from "@/lib/encryption";
+import { IncorrectPassphraseError } from "@/lib/vault";
+
+const LINK_KEY_LENGTH = 32;
+const TOKEN_LENGTH = 18;
+
+export class ShareLinkUnavailableError extends Error {
+  constructor() {
+    super("This link has expired or is no longer available");
+    this.name = "ShareLinkUnavailableError";
+  }
+}
+
+export interface ShareLinkOptions {
+  expiresAt: Date | null;
+  maxViews: number | null;
+  password: string | null;
+}
+
+export interface ShareLink {
+  id: string;
+  photo_id: string;
+  expires_at: string | null;
+  max_views: number | null;
+  view_count: number;
+  password_salt: string | null;
+  created_at: string;
+}
+
+/**
+ * What the share-link function returns for a live link
+ */
+export interface OpenedShareLink {
+  photoId: string;
+  ownerId: string;
+  wrappedKey: string;
+  passwordSalt: string | null;
+  kdfParams: KdfParams | null;
+  encryptedMetadata: string | null;
+  signedUrl: string;
+}
+
+const importLinkKey = (bytes: Uint8Array) =>
+  crypto.subtle.importKey("raw", bytes, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+
+/**
+ * Derives what a viewer sends to count a view from the link key and the data
+ * key wrapped under it, which a password link only yields to its password.
+ * The server keeps a hash of it and learns neither key.
+ */
+async function viewProof(token: string, linkKeyBytes: Uint8Array, wrappedKey: string): Promise<Uint8Array> {
+  const label = new TextEncoder().encode(`photovault-share-view-v1:${token}:${wrappedKey}:`);
+  const input = new Uint8Array(label.length + linkKeyBytes.length);
+  input.set(label);
+  input.set(linkKeyBytes, label.length);
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", input));
+}
+
+const sha256 = async (bytes: Uint8Array) => new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+
+/**
+ * Returns true once a link can no longer be opened
+ */
+export function isShareLinkSpent(link: ShareLink, now = new Date()): boolean {
+  if (link.expires_at && new Date(link.expires_at) <= now) return true;
+  return link.max_views !== null && link.view_count >= link.max_views;
+}
+
+/**
+ * Wraps a photo's data key under a fresh link key and stores the link.
+ * Returns the full URL; the key in its fragment is not kept anywhere else.
+ */
+export async function createShareLink(
+  photo: { id: string; user_id: string },
+  dataKey: CryptoKey,
+  options: ShareLinkOptions
+): Promise<string> {
+  const linkKeyBytes = crypto.getRandomValues(new Uint8Array(LINK_KEY_LENGTH));
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH)));
+  const aad = objectAad({ userId: photo.user_id, photoId: photo.id, version: 0 });
+
+  let wrappedKey = await wrapKey(dataKey, await importLinkKey(linkKeyBytes), { aad });
+  const proof = await viewProof(token, linkKeyBytes, wrappedKey);
+  let passwordSalt: Uint8Array | null = null;
+
+  if (options.password) {
+    passwordSalt = generateSalt();
+    const passwordKey = await deriveKey(options.password, passwordSalt, DEFAULT_KDF_PARAMS);
+    wrappedKey = toBase64(
+      await sealContainer(fromBase64(wrappedKey), passwordKey, { kdf: kdfIdFor(DEFAULT_KDF_PARAMS) })
+    );
+  }
+
+  const { error } = await supabase.from("share_links").insert({
+    token,
+    photo_id: photo.id,
+    owner_id: photo.user_id,
+    wrapped_key: wrappedKey,
+    password_salt: passwordSalt ? toBase64(passwordSalt) : null,
+    kdf_params: passwordSalt ? (DEFAULT_KDF_PARAMS as Json) : null,
+    expires_at: options.expiresAt?.toISOString() ?? null,
+    max_views: options.maxViews,
+    view_proof_hash: toBase64(await sha256(proof)),
+  });
+
+  if (error) throw error;
+  return `${window.location.origin}/s/${token}#${toBase64Url(linkKeyBytes)}`;
+}
+
+/**
+ * Lists the links an account has created, newest first
+ */
+export async function listShareLinks(userId: string): Promise<ShareLink[]> {
+  const { data, error } = await supabase
+    .from("share_links")
+    .select("id, photo_id, expires_at, max_views, view_count, password_salt, created_at")
+    .eq("owner_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Deletes a link so it stops working straight away
+ */
+export async function revokeShareLink(id: string): Promise<void> {
+  const { error } = await supabase.from("share_links").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Exchanges a link token for its wrapped key and a short-lived ciphertext URL.
+ * No view is counted until countShareLinkView.
+ */
+export async function openShareLink(token: string): Promise<OpenedShareLink> {
+  const { data, error } = await supabase.functions.invoke<OpenedShareLink>("share-link", { body: { token } });
+
+  if (error instanceof FunctionsHttpError && error.context?.status === 404) {
+    throw new ShareLinkUnavailableError();
+  }
+  if (error) throw error;
+  if (!data) throw new ShareLinkUnavailableError();
+  return data;
+}
+
+/**
+ * Recovers the link key and the data key wrapped under it. Throws
+ * IncorrectPassphraseError if the link has a password and this is not it.
+ */
+export async function unlockShareLink(
+  link: OpenedShareLink,
+  fragmentKey: string,
+  password?: string
+): Promise<{ key: CryptoKey; wrappedKey: string }> {
+  let wrappedKey = link.wrappedKey;
+
+  if (link.passwordSalt) {
+    if (!password) throw new IncorrectPassphraseError();
+    // Settings come from the link row, so they are checked like a profile's
+    const params = link.kdfParams ? parseKdfParams(link.kdfParams) : DEFAULT_KDF_PARAMS;
+    const passwordKey = await deriveKey(password, fromBase64(link.passwordSalt), params);
+    try {
+      wrappedKey = toBase64(new Uint8Array(await openContainer(fromBase64(wrappedKey), passwordKey)));
+    } catch {
+      throw new IncorrectPassphraseError();
+    }
+  }
+
+  return { key: await importLinkKey(fromBase64Url(fragmentKey)), wrappedKey };
+}
+
+/**
+ * Counts one view of a link whose photo was decrypted, with the data key
+ * wrapped under the link key that unlockShareLink returned
+ */
+export async function countShareLinkView(token: string, fragmentKey: string, wrappedKey: string): Promise<void> {
+  const proof = await viewProof(token, fromBase64Url(fragmentKey), wrappedKey);
+  const { error } = await supabase.functions.invoke("share-link", { body: { token, proof: toBase64(proof) } });
+
+  if (error instanceof FunctionsHttpError && error.context?.status === 404) {
+    throw new ShareLinkUnavailableError();
+  }
+  if (error) throw error;
+}
@@ -0,0 +1,224 @@
+// End-to-end encrypted sharing between PhotoVault accounts
+//
+// Every account has an ECDH P-256 key pair. Sharing a photo wraps its data key
+// under a key agreed between a one-time sender key and the recipient's public
+// key, so only the recipient can unwrap it. The wrapped key is bound to the
+// photo like the owner's own copy, and the ciphertext itself is never touched.
+
+import { supabase } from "@/integrations/supabase/client";
+import {
+  fromBase64,
+  objectAad,
+  openContainer,
+  sealContainer,
+  sharingKeyAad,
+  toBase64,
+  unwrapKey,
+  wrapKey,
+} from "@/lib/encryption";
+
+const SHARE_KEY_INFO = new TextEncoder().encode("photovault-share-v1");
+const ECDH_PARAMS: EcKeyImportParams = { name: "ECDH", namedCurve: "P-256" };
+
+export interface SharingKeyPair {
+  publicKey: string;
+  wrappedPrivateKey: string;
+}
+
+export interface ShareRecipient {
+  id: string;
+  publicKey: CryptoKey;
+}
+
+export interface Share {
+  id: string;
+  photo_id: string;
+  owner_id: string;
+  recipient_id: string;
+  owner_email: string | null;
+  recipient_email: string | null;
+  wrapped_key: string;
+  ephemeral_public_key: string;
+  created_at: string;
+}
+
+async function exportPublicKey(key: CryptoKey): Promise<string> {
+  return toBase64(new Uint8Array(await crypto.subtle.exportKey("spki", key)));
+}
+
+/**
+ * Imports a sharing public key stored as base64 SPKI
+ */
+export async function importPublicKey(value: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("spki", new Uint8Array(fromBase64(value)), ECDH_PARAMS, true, []);
+}
+
+/**
+ * Agrees an AES key between a private key and the other side's public key
+ */
+async function deriveShareKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
+  const secret = await crypto.subtle.deriveBits({ name: "ECDH", public: publicKey }, privateKey, 256);
+  const material = await crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: SHARE_KEY_INFO },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Wraps a key so only the holder of a sharing private key can unwrap it. A
+ * one-time sender key pair is used, and its public half is returned with it.
+ */
+export async function wrapKeyForRecipient(
+  key: CryptoKey,
+  recipientPublicKey: CryptoKey,
+  aad: Uint8Array
+): Promise<{ wrappedKey: string; ephemeralPublicKey: string }> {
+  const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, true, ["deriveBits"]);
+  const wrappingKey = await deriveShareKey(ephemeral.privateKey, recipientPublicKey);
+
+  return {
+    wrappedKey: await wrapKey(key, wrappingKey, { aad }),
+    ephemeralPublicKey: await exportPublicKey(ephemeral.publicKey),
+  };
+}
+
+/**
+ * Recovers a key wrapped by wrapKeyForRecipient
+ */
+export async function unwrapKeyFromSender(
+  wrappedKey: string,
+  ephemeralPublicKey: string,
+  privateKey: CryptoKey,
+  aad: Uint8Array
+): Promise<CryptoKey> {
+  const wrappingKey = await deriveShareKey(privateKey, await importPublicKey(ephemeralPublicKey));
+  return unwrapKey(wrappedKey, wrappingKey, { aad, requireAad: true });
+}
+
+/**
+ * Generates a sharing key pair, its private half wrapped under the master key
+ * and bound to the account
+ */
+export async function createSharingKeyPair(userId: string, masterKey: CryptoKey): Promise<SharingKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ["deriveBits"]);
+  const pkcs8 = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+
+  return {
+    publicKey: await exportPublicKey(keyPair.publicKey),
+    wrappedPrivateKey: toBase64(await sealContainer(pkcs8, masterKey, { aad: sharingKeyAad({ userId }) })),
+  };
+}
+
+/**
+ * Re-wraps a sharing private key under another master key
+ */
+export async function rewrapSharingPrivateKey(
+  userId: string,
+  wrapped: string,
+  from: CryptoKey,
+  to: CryptoKey
+): Promise<string> {
+  const aad = sharingKeyAad({ userId });
+  const pkcs8 = await openContainer(fromBase64(wrapped), from, { aad, requireAad: true });
+  return toBase64(await sealContainer(pkcs8, to, { aad }));
+}
+
+/**
+ * Recovers the sharing private key; it never leaves this tab unwrapped
+ */
+export async function unwrapSharingPrivateKey(
+  userId: string,
+  wrapped: string,
+  masterKey: CryptoKey
+): Promise<CryptoKey> {
+  const aad = sharingKeyAad({ userId });
+  const pkcs8 = await openContainer(fromBase64(wrapped), masterKey, { aad, requireAad: true });
+  return crypto.subtle.importKey("pkcs8", pkcs8, ECDH_PARAMS, false, ["deriveBits"]);
+}
+
+/**
+ * Finds the account registered under an email, if it can receive shares yet
+ */
+export async function findRecipient(email: string): Promise<ShareRecipient | null> {
+  const { data, error } = await supabase.rpc("find_share_recipient", { recipient_email: email.trim() });
+  if (error) throw error;
+
+  const [row] = data || [];
+  return row ? { id: row.id, publicKey: await importPublicKey(row.sharing_public_key) } : null;
+}
+
+/**
+ * Wraps a photo's data key for a recipient and stores the share
+ */
+export async function sharePhoto(
+  photo: { id: string; user_id: string },
+  dataKey: CryptoKey,
+  recipient: ShareRecipient
+): Promise<void> {
+  const aad = objectAad({ userId: photo.user_id, photoId: photo.id, version: 0 });
+  const { wrappedKey, ephemeralPublicKey } = await wrapKeyForRecipient(dataKey, recipient.publicKey, aad);
+
+  const { error } = await supabase
+    .from("shares")
+    .upsert(
+      {
+        photo_id: photo.id,
+        owner_id: photo.user_id,
+        recipient_id: recipient.id,
+        wrapped_key: wrappedKey,
+        ephemeral_public_key: ephemeralPublicKey,
+      },
+      { onConflict: "photo_id,recipient_id" }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * Recovers the key a share's data key is wrapped under. It takes the place of
+ * the master key when decrypting the shared photo and its metadata.
+ */
+export async function openShareKey(share: Share, privateKey: CryptoKey): Promise<CryptoKey> {
+  return deriveShareKey(privateKey, await importPublicKey(share.ephemeral_public_key));
+}
+
+/**
+ * Lists who a photo is shared with
+ */
+export async function listPhotoShares(photoId: string): Promise<Share[]> {
+  const { data, error } = await supabase
+    .from("shares")
+    .select("*")
+    .eq("photo_id", photoId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Lists photos other accounts have shared with this one
+ */
+export async function listSharedWithMe(userId: string): Promise<Share[]> {
+  const { data, error } = await supabase
+    .from("shares")
+    .select("*")
+    .eq("recipient_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Deletes a share. The recipient loses access to the stored photo, though
+ * anything already downloaded on their devices cannot be taken back.
+ */
+export async function revokeShare(id: string): Promise<void> {
+  const { error } = await supabase.from("shares").delete().eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,260 @@
+// Shared spaces: one vault that several accounts contribute to
+//
+// A space key takes the place of the master key for photos uploaded to the
+// space: it wraps their data keys. Each key version is wrapped for every
+// member under their sharing public key. Removing a member starts a new key
+// version, so photos uploaded after they leave are out of their reach.
+
+import { supabase } from "@/integrations/supabase/client";
+import { fromBase64, generateKey, openContainer, sealContainer, spaceAad, toBase64 } from "@/lib/encryption";
+import { findRecipient, importPublicKey, unwrapKeyFromSender, wrapKeyForRecipient } from "@/lib/sharing";
+
+export type SpaceRole = "owner" | "editor" | "viewer";
+
+export interface Space {
+  id: string;
+  created_by: string;
+  encrypted_name: string;
+  key_version: number;
+  // The version a member removal is rotating to, until it is in place
+  pending_key_version: number | null;
+  created_at: string;
+}
+
+export interface SpaceMember {
+  space_id: string;
+  user_id: string;
+  role: string;
+  email: string | null;
+  created_at: string;
+}
+
+export interface OpenedSpace {
+  space: Space;
+  role: SpaceRole;
+  name: string;
+  // Every key version this member holds, including older ones
+  keys: Map<number, CryptoKey>;
+}
+
+const sealName = async (name: string, key: CryptoKey, spaceId: string, keyVersion: number) =>
+  toBase64(await sealContainer(new TextEncoder().encode(name), key, { aad: spaceAad({ spaceId, keyVersion }) }));
+
+const openName = async (space: Space, key: CryptoKey) => {
+  const aad = spaceAad({ spaceId: space.id, keyVersion: space.key_version });
+  const plaintext = await openContainer(fromBase64(space.encrypted_name), key, { aad, requireAad: true });
+  return new TextDecoder().decode(plaintext);
+};
+
+/**
+ * Returns true if a role may upload to a space
+ */
+export function canUploadToSpace(role: SpaceRole): boolean {
+  return role === "owner" || role === "editor";
+}
+
+/**
+ * Wraps one key version for every member who has a sharing key. Members who
+ * already hold it are skipped, so an interrupted rotation can be repeated.
+ */
+async function wrapForMembers(spaceId: string, keyVersion: number, key: CryptoKey): Promise<void> {
+  const { data, error } = await supabase.rpc("space_member_keys", { target_space: spaceId });
+  if (error) throw error;
+
+  const aad = spaceAad({ spaceId, keyVersion });
+  const rows = await Promise.all(
+    (data || []).map(async (member) => {
+      const wrapped = await wrapKeyForRecipient(key, await importPublicKey(member.sharing_public_key), aad);
+      return {
+        space_id: spaceId,
+        key_version: keyVersion,
+        user_id: member.user_id,
+        wrapped_key: wrapped.wrappedKey,
+        ephemeral_public_key: wrapped.ephemeralPublicKey,
+      };
+    })
+  );
+
+  const { error: insertError } = await supabase
+    .from("space_keys")
+    .upsert(rows, { onConflict: "space_id,key_version,user_id", ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+}
+
+/**
+ * Creates a space owned by the current user, with its first key version
+ */
+export async function createSpace(userId: string, name: string): Promise<OpenedSpace> {
+  const id = crypto.randomUUID();
+  const key = await generateKey();
+
+  const { data, error } = await supabase
+    .from("spaces")
+    .insert({ id, created_by: userId, encrypted_name: await sealName(name, key, id, 1), key_version: 1 })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // The creator was added as owner when the space was inserted
+  await wrapForMembers(id, 1, key);
+  return { space: data, role: "owner", name, keys: new Map([[1, key]]) };
+}
+
+/**
+ * Lists the spaces an account belongs to, with every key version it holds
+ */
+export async function listSpaces(userId: string, privateKey: CryptoKey): Promise<OpenedSpace[]> {
+  const [memberships, keyRows] = await Promise.all([
+    supabase.from("space_members").select("role, spaces(*)").eq("user_id", userId),
+    supabase.from("space_keys").select("*").eq("user_id", userId),
+  ]);
+
+  if (memberships.error) throw memberships.error;
+  if (keyRows.error) throw keyRows.error;
+
+  const opened: OpenedSpace[] = [];
+  for (const { role, spaces: space } of memberships.data || []) {
+    if (!space) continue;
+
+    const keys = new Map<number, CryptoKey>();
+    for (const row of (keyRows.data || []).filter((row) => row.space_id === space.id)) {
+      const aad = spaceAad({ spaceId: space.id, keyVersion: row.key_version });
+      keys.set(row.key_version, await unwrapKeyFromSender(row.wrapped_key, row.ephemeral_public_key, privateKey, aad));
+    }
+
+    const current = keys.get(space.key_version);
+    if (!current) {
+      console.error(`No current key held for space ${space.id}`);
+      continue;
+    }
+
+    opened.push({ space, role: role as SpaceRole, name: await openName(space, current), keys });
+  }
+
+  return opened.sort((a, b) => a.space.created_at.localeCompare(b.space.created_at));
+}
+
+/**
+ * Lists a space's members, oldest first
+ */
+export async function listSpaceMembers(spaceId: string): Promise<SpaceMember[]> {
+  const { data, error } = await supabase
+    .from("space_members")
+    .select("*")
+    .eq("space_id", spaceId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Adds an account to a space and wraps every key version for it, so it can
+ * read what was uploaded before it joined. Returns false if no account with
+ * that email can receive shares yet.
+ */
+export async function addSpaceMember(opened: OpenedSpace, email: string, role: SpaceRole): Promise<boolean> {
+  const recipient = await findRecipient(email);
+  if (!recipient) return false;
+
+  const { error } = await supabase
+    .from("space_members")
+    .insert({ space_id: opened.space.id, user_id: recipient.id, role });
+
+  if (error) throw error;
+
+  const rows = await Promise.all(
+    [...opened.keys].map(async ([keyVersion, key]) => {
+      const aad = spaceAad({ spaceId: opened.space.id, keyVersion });
+      const wrapped = await wrapKeyForRecipient(key, recipient.publicKey, aad);
+      return {
+        space_id: opened.space.id,
+        key_version: keyVersion,
+        user_id: recipient.id,
+        wrapped_key: wrapped.wrappedKey,
+        ephemeral_public_key: wrapped.ephemeralPublicKey,
+      };
+    })
+  );
+
+  const { error: keyError } = await supabase.from("space_keys").insert(rows);
+  if (keyError) throw keyError;
+  return true;
+}
+
+/**
+ * Changes a member's role
+ */
+export async function updateSpaceMemberRole(spaceId: string, userId: string, role: SpaceRole): Promise<void> {
+  const { error } = await supabase
+    .from("space_members")
+    .update({ role })
+    .eq("space_id", spaceId)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Returns true if a space is between key versions after a member removal was
+ * interrupted. Uploads wait until an owner finishes the rotation.
+ */
+export function isRotationPending(opened: OpenedSpace): boolean {
+  return opened.space.pending_key_version !== null;
+}
+
+/**
+ * Removes a member and rotates the space key. Photos already uploaded stay
+ * under the key versions the member held; new uploads use the new version.
+ *
+ * The server removes the member and records the pending version together, so
+ * the space stops taking uploads under the old key at once. If wrapping the
+ * new version then fails, the owner is asked to finish it with finishSpaceRotation.
+ */
+export async function removeSpaceMember(opened: OpenedSpace, userId: string): Promise<OpenedSpace> {
+  const { data: pendingVersion, error } = await supabase.rpc("remove_space_member", {
+    target_space: opened.space.id,
+    member: userId,
+  });
+  if (error) throw error;
+
+  return finishSpaceRotation({ ...opened, space: { ...opened.space, pending_key_version: pendingVersion } });
+}
+
+/**
+ * Moves a space onto its pending key version. Nothing is sealed under that
+ * version until this finishes, so copies an interrupted attempt wrapped are
+ * replaced with a fresh key rather than trusted to match.
+ */
+export async function finishSpaceRotation(opened: OpenedSpace): Promise<OpenedSpace> {
+  const spaceId = opened.space.id;
+  const keyVersion = opened.space.pending_key_version;
+  if (keyVersion === null) return opened;
+
+  const { error: staleError } = await supabase
+    .from("space_keys")
+    .delete()
+    .eq("space_id", spaceId)
+    .eq("key_version", keyVersion);
+  if (staleError) throw staleError;
+
+  // Remaining members get the new key before uploads start using it
+  const key = await generateKey();
+  await wrapForMembers(spaceId, keyVersion, key);
+
+  const encryptedName = await sealName(opened.name, key, spaceId, keyVersion);
+  const { error: spaceError } = await supabase
+    .from("spaces")
+    .update({ key_version: keyVersion, encrypted_name: encryptedName, pending_key_version: null })
+    .eq("id", spaceId);
+
+  if (spaceError) throw spaceError;
+
+  return {
+    ...opened,
+    space: { ...opened.space, key_version: keyVersion, encrypted_name: encryptedName, pending_key_version: null },
+    keys: new Map(opened.keys).set(keyVersion, key),
+  };
+}
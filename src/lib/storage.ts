@@ -0,0 +1,190 @@
+// Reads and writes encrypted objects in the private photos bucket
+
+import { supabase } from "@/integrations/supabase/client";
+
+// Signed URLs only need to outlive the request that uses them
+const SIGNED_URL_TTL_SECONDS = 60;
+
+/**
+ * Thrown when storage rejects an upload. Network failures, rate limits and
+ * server errors are worth retrying; anything else will fail the same way again.
+ */
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+
+  get retryable(): boolean {
+    return this.status === null || this.status === 429 || this.status >= 500;
+  }
+}
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  // Reports how much of the object has been sent, from 0 to 1
+  onProgress?: (fraction: number) => void;
+  // An upload an earlier attempt started, to continue instead of starting over
+  uploadUrl?: string | null;
+  // Called once the server has created the upload, so it can be resumed later
+  onUploadUrl?: (url: string) => void;
+}
+
+/**
+ * Opens a stored object as a stream through a short-lived signed URL
+ */
+export async function openObjectStream(path: string): Promise<ReadableStream<Uint8Array>> {
+  const { data, error } = await supabase.storage
+    .from("photos")
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+
+  const response = await fetch(data.signedUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download ${path}: ${response.status}`);
+  }
+  return response.body;
+}
+
+// Resumable uploads use the TUS protocol, which storage accepts in chunks of
+// exactly this size
+const TUS_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+
+interface TusResponse {
+  status: number;
+  header: (name: string) => string | null;
+}
+
+const abortError = (signal?: AbortSignal) =>
+  signal?.reason ?? new DOMException("The operation was aborted", "AbortError");
+
+/**
+ * Sends one TUS request. It goes through XHR rather than fetch so the
+ * progress of a chunk can be reported.
+ */
+function tusRequest(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Blob | null,
+  signal?: AbortSignal,
+  onProgress?: (loaded: number) => void
+): Promise<TusResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open(method, url);
+    xhr.setRequestHeader("Tus-Resumable", "1.0.0");
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.addEventListener("progress", (event) => onProgress?.(event.loaded));
+    xhr.addEventListener("loadend", () => signal?.removeEventListener("abort", onAbort));
+    xhr.addEventListener("load", () => resolve({ status: xhr.status, header: (name) => xhr.getResponseHeader(name) }));
+    xhr.addEventListener("error", () => reject(new UploadError(`${method} ${url} failed: network error`, null)));
+    xhr.addEventListener("abort", () => reject(abortError(signal)));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    xhr.send(body);
+  });
+}
+
+// TUS metadata is a list of keys with base64 values
+const tusMetadata = (values: Record<string, string>) =>
+  Object.entries(values)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(",");
+
+/**
+ * Stores an object with a resumable upload, sent in chunks. Given the URL of
+ * an upload an earlier attempt started, it asks the server how much arrived
+ * and sends only the rest.
+ */
+export async function uploadObject(path: string, blob: Blob, options: UploadOptions = {}): Promise<void> {
+  const { signal, onProgress, onUploadUrl } = options;
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new UploadError("Not authenticated", 401);
+
+  const auth = {
+    authorization: `Bearer ${session.access_token}`,
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+  };
+
+  let url = options.uploadUrl ?? null;
+  let offset = 0;
+
+  if (url) {
+    const head = await tusRequest("HEAD", url, auth, null, signal);
+    if (head.status >= 200 && head.status < 300) {
+      offset = Number(head.header("Upload-Offset") ?? 0);
+    } else if (head.status >= 500 || head.status === 429) {
+      throw new UploadError(`Failed to resume ${path}: ${head.status}`, head.status);
+    } else {
+      // Expired or unknown, so it starts again from nothing
+      url = null;
+    }
+  }
+
+  if (!url) {
+    const created = await tusRequest(
+      "POST",
+      TUS_ENDPOINT,
+      {
+        ...auth,
+        "x-upsert": "false",
+        "Upload-Length": String(blob.size),
+        "Upload-Metadata": tusMetadata({
+          bucketName: "photos",
+          objectName: path,
+          contentType: "application/octet-stream",
+        }),
+      },
+      null,
+      signal
+    );
+    const location = created.header("Location");
+    if (created.status !== 201 || !location) {
+      throw new UploadError(`Failed to upload ${path}: ${created.status}`, created.status);
+    }
+
+    url = new URL(location, TUS_ENDPOINT).toString();
+    onUploadUrl?.(url);
+  }
+
+  onProgress?.(blob.size > 0 ? offset / blob.size : 0);
+  while (offset < blob.size) {
+    const start = offset;
+    const chunk = blob.slice(start, start + TUS_CHUNK_SIZE);
+    const patched = await tusRequest(
+      "PATCH",
+      url,
+      { ...auth, "Upload-Offset": String(start), "Content-Type": "application/offset+octet-stream" },
+      chunk,
+      signal,
+      (loaded) => onProgress?.((start + loaded) / blob.size)
+    );
+    if (patched.status === 409) {
+      // The server holds a different amount than expected; carry on from there
+      const head = await tusRequest("HEAD", url, auth, null, signal);
+      if (head.status < 200 || head.status >= 300) {
+        throw new UploadError(`Failed to resume ${path}: ${head.status}`, head.status);
+      }
+      offset = Number(head.header("Upload-Offset") ?? 0);
+      continue;
+    }
+    if (patched.status !== 204) {
+      throw new UploadError(`Failed to upload ${path}: ${patched.status}`, patched.status);
+    }
+    offset = Number(patched.header("Upload-Offset") ?? start + chunk.size);
+  }
+  onProgress?.(1);
+}
@@ -0,0 +1,310 @@
+// Encrypted thumbnails of photos and their versions
+//
+// A few downscaled JPEGs are made in the browser when a photo or version is
+// saved and sealed under the object's own data key, each bound to the object
+// and its size. Grids decrypt these instead of the original, which is only
+// downloaded when the photo is opened.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  ObjectBinding,
+  TamperError,
+  asTamperError,
+  decryptBlob,
+  decryptFile,
+  encryptBlob,
+  objectAad,
+  thumbnailAad,
+  unwrapKey,
+} from "@/lib/encryption";
+import { openObjectStream } from "@/lib/storage";
+
+// Shorter edge of each thumbnail in pixels, smallest first
+export const THUMBNAIL_SIZES = [256, 768];
+
+const THUMBNAIL_TYPE = "image/jpeg";
+const THUMBNAIL_QUALITY = 0.82;
+
+// Size in pixels to object path, as stored in thumbnail_paths
+export type ThumbnailPaths = Record<string, string>;
+
+export interface EncryptedThumbnail {
+  size: number;
+  path: string;
+  blob: Blob;
+}
+
+const thumbnailPath = (binding: ObjectBinding, size: number) =>
+  binding.version === 0
+    ? `${binding.userId}/thumbnails/${binding.photoId}-${size}.encrypted`
+    : `${binding.userId}/thumbnails/${binding.photoId}-v${binding.version}-${size}.encrypted`;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode thumbnail"))),
+      THUMBNAIL_TYPE,
+      THUMBNAIL_QUALITY
+    );
+  });
+
+/**
+ * Downscales an image to each size it is large enough for, largest first so
+ * each is drawn from the one before. The smallest size is always made. Files
+ * the browser cannot decode get none.
+ */
+async function renderThumbnails(image: Blob): Promise<Map<number, Blob>> {
+  const thumbnails = new Map<number, Blob>();
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image, { imageOrientation: "from-image" });
+  } catch {
+    return thumbnails;
+  }
+
+  try {
+    const shorter = Math.min(bitmap.width, bitmap.height);
+    const sizes = THUMBNAIL_SIZES.filter((size, i) => i === 0 || shorter >= size).reverse();
+
+    let source: CanvasImageSource = bitmap;
+    for (const size of sizes) {
+      const scale = Math.min(1, size / shorter);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+      const context = canvas.getContext("2d");
+      if (!context) break;
+      context.imageSmoothingQuality = "high";
+      context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+      thumbnails.set(size, await canvasToBlob(canvas));
+      source = canvas;
+    }
+  } finally {
+    bitmap.close();
+  }
+  return thumbnails;
+}
+
+/**
+ * Makes thumbnails of an image and encrypts them under its object's data key
+ */
+export async function encryptThumbnails(
+  image: Blob,
+  dataKey: CryptoKey,
+  binding: ObjectBinding
+): Promise<EncryptedThumbnail[]> {
+  const rendered = await renderThumbnails(image);
+
+  return Promise.all(
+    [...rendered].map(async ([size, thumbnail]) => ({
+      size,
+      path: thumbnailPath(binding, size),
+      blob: await encryptBlob(thumbnail, dataKey, { aad: thumbnailAad({ ...binding, size }) }),
+    }))
+  );
+}
+
+/**
+ * Stores encrypted thumbnails, replacing any an earlier attempt left behind
+ */
+export async function storeThumbnails(thumbnails: EncryptedThumbnail[]): Promise<void> {
+  for (const { path, blob } of thumbnails) {
+    const { error } = await supabase.storage.from("photos").upload(path, blob, { upsert: true });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Lists thumbnails by size for a row's thumbnail_paths. An empty map marks an
+ * object no thumbnail could be made for.
+ */
+export function thumbnailPaths(thumbnails: EncryptedThumbnail[]): ThumbnailPaths {
+  return Object.fromEntries(thumbnails.map(({ size, path }) => [String(size), path]));
+}
+
+/**
+ * Returns every thumbnail path of a row, for removing them with the object
+ */
+export function listThumbnailPaths(paths: Json | null): string[] {
+  if (!paths || typeof paths !== "object" || Array.isArray(paths)) return [];
+  return Object.values(paths).filter((path): path is string => typeof path === "string");
+}
+
+/**
+ * Picks the smallest thumbnail at least this many pixels on its shorter edge,
+ * or else the largest there is
+ */
+function pickThumbnail(paths: Json | null, pixels: number): { size: number; path: string } | null {
+  if (!paths || typeof paths !== "object" || Array.isArray(paths)) return null;
+
+  const sizes = Object.keys(paths)
+    .map(Number)
+    .filter((size) => Number.isInteger(size) && typeof paths[String(size)] === "string")
+    .sort((a, b) => a - b);
+  if (sizes.length === 0) return null;
+
+  const size = sizes.find((candidate) => candidate >= pixels) ?? sizes[sizes.length - 1];
+  return { size, path: paths[String(size)] as string };
+}
+
+/**
+ * Decrypts the thumbnail of an object that best fits the given size, or
+ * returns null if it has none. The data key is unwrapped bound to the object
+ * as when opening the object itself.
+ */
+export async function openThumbnail(
+  paths: Json | null,
+  pixels: number,
+  wrappedKey: string,
+  wrappingKey: CryptoKey,
+  binding: ObjectBinding
+): Promise<Blob | null> {
+  const thumbnail = pickThumbnail(paths, pixels);
+  if (!thumbnail) return null;
+
+  try {
+    const dataKey = await unwrapKey(wrappedKey, wrappingKey, { aad: objectAad(binding), requireAad: true });
+    const encrypted = await new Response(await openObjectStream(thumbnail.path)).blob();
+    const data = await decryptBlob(encrypted, dataKey, {
+      aad: thumbnailAad({ ...binding, size: thumbnail.size }),
+      requireAad: true,
+    });
+    return new Blob([data], { type: THUMBNAIL_TYPE });
+  } catch (error) {
+    throw asTamperError(error);
+  }
+}
+
+interface BackfillRow {
+  id: string;
+  table: "photos" | "photo_versions";
+  storage_path: string;
+  wrapped_key: string;
+  binding: ObjectBinding;
+  wrappingKey: CryptoKey | null;
+}
+
+/**
+ * Makes and stores thumbnails for each row in turn, returning how many were
+ * done. Rows without their wrapping key, or that fail to authenticate, are
+ * skipped rather than holding up the rest.
+ */
+async function backfillRows(rows: BackfillRow[], signal?: AbortSignal): Promise<number> {
+  let done = 0;
+  for (const row of rows) {
+    if (signal?.aborted) break;
+    if (!row.wrappingKey) continue;
+
+    const aad = objectAad(row.binding);
+    let thumbnails: EncryptedThumbnail[];
+    try {
+      const { blob } = await decryptFile(await openObjectStream(row.storage_path), row.wrapped_key, row.wrappingKey, {
+        aad,
+        requireAad: true,
+        signal,
+      });
+      const dataKey = await unwrapKey(row.wrapped_key, row.wrappingKey, { aad, requireAad: true });
+      thumbnails = await encryptThumbnails(blob, dataKey, row.binding);
+    } catch (error) {
+      if (error instanceof TamperError) continue;
+      throw error;
+    }
+
+    await storeThumbnails(thumbnails);
+    const { error } = await supabase
+      .from(row.table)
+      .update({ thumbnail_paths: thumbnailPaths(thumbnails) })
+      .eq("id", row.id);
+
+    if (error) throw error;
+    done++;
+  }
+  return done;
+}
+
+/**
+ * Makes thumbnails for personal photos and for versions saved before
+ * thumbnails existed, one object at a time, and returns how many were done.
+ * Space photos are left to backfillSpaceThumbnails, since the master key does
+ * not wrap them.
+ */
+export async function backfillThumbnails(
+  userId: string,
+  resolveMasterKey: (id: string | null) => CryptoKey | null,
+  signal?: AbortSignal
+): Promise<number> {
+  const [photos, versions] = await Promise.all([
+    supabase
+      .from("photos")
+      .select("id, user_id, storage_path, wrapped_key, master_key_id")
+      .eq("user_id", userId)
+      .is("space_id", null)
+      .eq("aad_bound", true)
+      .not("wrapped_key", "is", null)
+      .is("thumbnail_paths", null),
+    supabase
+      .from("photo_versions")
+      .select("id, user_id, photo_id, version_number, storage_path, wrapped_key, master_key_id")
+      .eq("user_id", userId)
+      .eq("aad_bound", true)
+      .not("wrapped_key", "is", null)
+      .is("thumbnail_paths", null),
+  ]);
+
+  if (photos.error) throw photos.error;
+  if (versions.error) throw versions.error;
+
+  return backfillRows(
+    [
+      ...(photos.data || []).map((photo) => ({
+        ...photo,
+        table: "photos" as const,
+        binding: { userId: photo.user_id, photoId: photo.id, version: 0 },
+        wrappingKey: resolveMasterKey(photo.master_key_id),
+      })),
+      ...(versions.data || []).map((version) => ({
+        ...version,
+        table: "photo_versions" as const,
+        binding: { userId: version.user_id, photoId: version.photo_id, version: version.version_number },
+        wrappingKey: resolveMasterKey(version.master_key_id),
+      })),
+    ],
+    signal
+  );
+}
+
+/**
+ * Makes thumbnails for photos this account uploaded to spaces before
+ * thumbnails existed, using the space key versions it holds. Only the
+ * uploader can, since thumbnails are stored in the uploader's folder.
+ */
+export async function backfillSpaceThumbnails(
+  userId: string,
+  resolveSpaceKey: (spaceId: string, keyVersion: number | null) => CryptoKey | null,
+  signal?: AbortSignal
+): Promise<number> {
+  const { data, error } = await supabase
+    .from("photos")
+    .select("id, user_id, storage_path, wrapped_key, space_id, space_key_version")
+    .eq("user_id", userId)
+    .not("space_id", "is", null)
+    .eq("aad_bound", true)
+    .not("wrapped_key", "is", null)
+    .is("thumbnail_paths", null);
+
+  if (error) throw error;
+
+  return backfillRows(
+    (data || []).map((photo) => ({
+      ...photo,
+      table: "photos" as const,
+      binding: { userId: photo.user_id, photoId: photo.id, version: 0 },
+      wrappingKey: resolveSpaceKey(photo.space_id, photo.space_key_version),
+    })),
+    signal
+  );
+}
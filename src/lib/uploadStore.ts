@@ -0,0 +1,82 @@
+// Unfinished uploads, kept in IndexedDB across page loads
+//
+// Only what is already encrypted is kept: the ciphertext and its thumbnails,
+// the wrapped data key and the sealed metadata, never the original file or any
+// key. After a reload the upload queue picks these up and continues each one
+// from where the server says it stopped, without encrypting anything again.
+
+import type { EncryptedThumbnail } from "@/lib/thumbnails";
+
+const DB_NAME = "photovault-uploads";
+const DB_VERSION = 1;
+const STORE = "uploads";
+
+export interface PendingUpload {
+  photoId: string;
+  userId: string;
+  storagePath: string;
+  encryptedBlob: Blob;
+  wrappedKey: string;
+  encryptedMetadata: string;
+  thumbnails?: EncryptedThumbnail[];
+  masterKeyId: string | null;
+  spaceId: string | null;
+  spaceKeyVersion: number | null;
+  albumId: string | null;
+  // Shown in the queue in place of the file, which is not kept
+  name: string;
+  // The resumable upload on the server, once one was created
+  uploadUrl: string | null;
+  stored: boolean;
+  createdAt: number;
+}
+
+let opening: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (opening) return opening;
+
+  opening = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "photoId" }).createIndex("userId", "userId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      opening = null;
+      reject(request.error);
+    };
+  });
+  return opening;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Saves an upload, replacing any earlier state for the same photo
+ */
+export async function savePendingUpload(upload: PendingUpload): Promise<void> {
+  await run("readwrite", (store) => store.put(upload));
+}
+
+/**
+ * Lists an account's unfinished uploads, oldest first
+ */
+export async function listPendingUploads(userId: string): Promise<PendingUpload[]> {
+  const uploads = await run<PendingUpload[]>("readonly", (store) => store.index("userId").getAll(userId));
+  return uploads.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Forgets an upload once it has finished or been abandoned
+ */
+export async function deletePendingUpload(photoId: string): Promise<void> {
+  await run("readwrite", (store) => store.delete(photoId));
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { decryptFileInThread, encryptFileInThread, generateKey, objectAad } from "@/lib/encryption";
+import { PreparedUpload, UploadTarget, rewrapUpload } from "@/lib/uploads";
+
+// The client needs a project URL and browser storage, neither of which a test has
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const binding = { userId: "user-1", photoId: "photo-1", version: 0 };
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => i & 0xff);
+
+// An upload saved before a rotation, with its data key under the previous master key
+async function savedUpload(previousKey: CryptoKey, target: Partial<UploadTarget> = {}) {
+  const file = new File([bytes(100)], "photo.jpg", { type: "image/jpeg" });
+  const { encryptedBlob, wrappedKey } = await encryptFileInThread(file, previousKey, { aad: objectAad(binding) });
+
+  const prepared: PreparedUpload = {
+    photoId: binding.photoId,
+    storagePath: `${binding.userId}/${binding.photoId}.encrypted`,
+    encryptedBlob,
+    wrappedKey,
+    encryptedMetadata: "",
+    thumbnails: [],
+  };
+  return {
+    prepared,
+    target: { userId: binding.userId, masterKeyId: "previous", spaceId: null, spaceKeyVersion: null, ...target },
+  };
+}
+
+describe("rewrapUpload", () => {
+  it("moves an upload saved before a rotation onto the current master key", async () => {
+    const previousKey = await generateKey();
+    const current = { id: "current", key: await generateKey() };
+    const saved = await savedUpload(previousKey);
+
+    const { prepared, target } = await rewrapUpload(saved.prepared, saved.target, previousKey, current);
+    expect(target.masterKeyId).toBe("current");
+    expect(prepared.encryptedBlob).toBe(saved.prepared.encryptedBlob);
+
+    const { blob } = await decryptFileInThread(prepared.encryptedBlob, prepared.wrappedKey, current.key, {
+      aad: objectAad(binding),
+    });
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(bytes(100));
+    await expect(
+      decryptFileInThread(prepared.encryptedBlob, prepared.wrappedKey, previousKey, { aad: objectAad(binding) })
+    ).rejects.toThrow();
+  });
+
+  it("rejects a previous key that did not wrap the upload", async () => {
+    const saved = await savedUpload(await generateKey());
+
+    await expect(
+      rewrapUpload(saved.prepared, saved.target, await generateKey(), { id: "current", key: await generateKey() })
+    ).rejects.toThrow();
+  });
+
+  it("leaves space uploads and uploads already under the current key alone", async () => {
+    const key = await generateKey();
+    const current = { id: "current", key: await generateKey() };
+    const space = await savedUpload(key, { masterKeyId: null, spaceId: "space-1", spaceKeyVersion: 1 });
+    const up = await savedUpload(current.key, { masterKeyId: "current" });
+
+    expect(await rewrapUpload(space.prepared, space.target, key, current)).toEqual(space);
+    expect(await rewrapUpload(up.prepared, up.target, current.key, current)).toEqual(up);
+  });
+});
@@ -0,0 +1,184 @@
+// Uploading one photo, split into steps a queue can retry separately
+//
+// A photo is encrypted, its ciphertext stored, its row inserted, and then it is
+// optionally filed in an album. Thumbnails are made and encrypted with the
+// photo and stored alongside it. The result of each step is kept by the caller,
+// so a retry resumes from the step that failed instead of encrypting the file
+// again. Storing is itself resumable, chunk by chunk.
+
+import { supabase } from "@/integrations/supabase/client";
+import { OpenedAlbum, addPhotosToAlbum } from "@/lib/albums";
+import { encryptFile, fileInfoFromFile, objectAad, unwrapKey, wrapKey } from "@/lib/encryption";
+import { applyMetadataPolicy, exifForPolicy, readExif } from "@/lib/exif";
+import { PhotoMetadata, encryptMetadata } from "@/lib/metadata";
+import { UploadOptions, uploadObject } from "@/lib/storage";
+import { EncryptedThumbnail, encryptThumbnails, storeThumbnails, thumbnailPaths } from "@/lib/thumbnails";
+import { listPendingUploads, savePendingUpload } from "@/lib/uploadStore";
+import type { MasterKey } from "@/lib/vault";
+
+// Where a photo goes
+export interface UploadTarget {
+  userId: string;
+  // Set for the personal vault, where the master key wraps the photo
+  masterKeyId: string | null;
+  // Set for a space, whose current key wraps the photo
+  spaceId: string | null;
+  spaceKeyVersion: number | null;
+}
+
+export interface PreparedUpload {
+  photoId: string;
+  storagePath: string;
+  encryptedBlob: Blob;
+  wrappedKey: string;
+  encryptedMetadata: string;
+  thumbnails: EncryptedThumbnail[];
+}
+
+export interface UploadStepOptions {
+  signal?: AbortSignal;
+  // Reports how much of the step is done, from 0 to 1
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Encrypts a file and its metadata for a target, wrapping the data key under
+ * the master key or the space's current key. The id is chosen here so the
+ * ciphertext can be bound to it. EXIF is read before the metadata policy
+ * strips the file, and kept with the metadata as far as the policy allows.
+ */
+export async function prepareUpload(
+  file: File,
+  target: UploadTarget,
+  wrappingKey: CryptoKey,
+  metadata: PhotoMetadata,
+  options: UploadStepOptions = {}
+): Promise<PreparedUpload> {
+  const photoId = crypto.randomUUID();
+  const binding = { userId: target.userId, photoId, version: 0 };
+  const aad = objectAad(binding);
+
+  const policy = metadata.metadataPolicy ?? "keep";
+  const exif = await readExif(file);
+  const stored = await applyMetadataPolicy(file, policy, exif);
+
+  const { encryptedBlob, wrappedKey, dataKey } = await encryptFile(stored, wrappingKey, {
+    aad,
+    // The camera's capture time beats the file's modification time
+    fileInfo: { ...fileInfoFromFile(stored), ...(exif?.capturedAt && { capturedAt: exif.capturedAt }) },
+    signal: options.signal,
+    onProgress: options.onProgress,
+  });
+
+  return {
+    photoId,
+    // Named after the photo so concurrent uploads never collide
+    storagePath: `${target.userId}/${photoId}.encrypted`,
+    encryptedBlob,
+    wrappedKey,
+    // Title and description are stored encrypted, never in plaintext
+    encryptedMetadata: await encryptMetadata({ ...metadata, exif: exifForPolicy(exif, policy) }, dataKey, aad),
+    thumbnails: await encryptThumbnails(stored, dataKey, binding),
+  };
+}
+
+/**
+ * Re-wraps a personal upload's data key under the current master key. An
+ * upload encrypted before a rotation would otherwise be inserted under a key
+ * the rotation retires. Space uploads and uploads already under the key are
+ * returned as they are.
+ */
+export async function rewrapUpload(
+  prepared: PreparedUpload,
+  target: UploadTarget,
+  previousKey: CryptoKey,
+  current: MasterKey
+): Promise<{ prepared: PreparedUpload; target: UploadTarget }> {
+  if (!target.masterKeyId || target.masterKeyId === current.id) return { prepared, target };
+
+  const aad = objectAad({ userId: target.userId, photoId: prepared.photoId, version: 0 });
+  const dataKey = await unwrapKey(prepared.wrappedKey, previousKey, { aad, requireAad: true });
+  return {
+    prepared: { ...prepared, wrappedKey: await wrapKey(dataKey, current.key, { aad }) },
+    target: { ...target, masterKeyId: current.id },
+  };
+}
+
+/**
+ * Re-wraps the data keys of the account's unfinished uploads saved in this
+ * browser, so a rotation does not leave them under the key it retires
+ */
+export async function rewrapPendingUploads(
+  userId: string,
+  resolveMasterKey: (id: string | null) => CryptoKey | null,
+  target: MasterKey
+): Promise<void> {
+  // Without IndexedDB nothing was saved to move
+  const uploads = await listPendingUploads(userId).catch(() => []);
+
+  for (const upload of uploads) {
+    if (!upload.masterKeyId || upload.masterKeyId === target.id) continue;
+
+    const previousKey = resolveMasterKey(upload.masterKeyId);
+    if (!previousKey) {
+      console.error(`No master key available for upload ${upload.photoId}`);
+      continue;
+    }
+
+    const saved = { ...upload, thumbnails: upload.thumbnails ?? [] };
+    const { prepared } = await rewrapUpload(saved, upload, previousKey, target);
+    await savePendingUpload({ ...upload, wrappedKey: prepared.wrappedKey, masterKeyId: target.id });
+  }
+}
+
+/**
+ * Stores a prepared upload's ciphertext, continuing options.uploadUrl if given
+ */
+export async function storeUpload(prepared: PreparedUpload, options: UploadOptions = {}): Promise<void> {
+  await uploadObject(prepared.storagePath, prepared.encryptedBlob, options);
+}
+
+/**
+ * Stores a prepared upload's thumbnails once its ciphertext is stored
+ */
+export async function storeUploadThumbnails(prepared: PreparedUpload): Promise<void> {
+  await storeThumbnails(prepared.thumbnails);
+}
+
+/**
+ * Inserts the row for a stored upload
+ */
+export async function insertUpload(prepared: PreparedUpload, target: UploadTarget): Promise<void> {
+  const { error } = await supabase.from("photos").insert({
+    id: prepared.photoId,
+    user_id: target.userId,
+    encrypted_metadata: prepared.encryptedMetadata,
+    storage_path: prepared.storagePath,
+    thumbnail_paths: thumbnailPaths(prepared.thumbnails),
+    wrapped_key: prepared.wrappedKey,
+    master_key_id: target.masterKeyId,
+    space_id: target.spaceId,
+    space_key_version: target.spaceKeyVersion,
+    aad_bound: true,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Files an inserted upload in one of the account's albums
+ */
+export async function addUploadToAlbum(
+  prepared: PreparedUpload,
+  target: UploadTarget,
+  album: OpenedAlbum,
+  resolveMasterKey: (id: string | null) => CryptoKey | null
+): Promise<void> {
+  const photo = {
+    id: prepared.photoId,
+    user_id: target.userId,
+    wrapped_key: prepared.wrappedKey,
+    master_key_id: target.masterKeyId,
+  };
+  await addPhotosToAlbum(album, [photo], resolveMasterKey);
+}
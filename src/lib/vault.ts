@@ -0,0 +1,953 @@
+// Vault key management backed by the profiles table and the photos bucket
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, TablesUpdate } from "@/integrations/supabase/types";
+import {
+  KdfId,
+  KdfParams,
+  PBKDF2_KDF_PARAMS,
+  albumAad,
+  decryptBlob,
+  encryptBlob,
+  fromBase64,
+  generateKey,
+  hasExternalAad,
+  kdfIdFor,
+  parseKdfParams,
+  objectAad,
+  openContainer,
+  sealContainer,
+  toBase64,
+  unwrapKey,
+  wrapKey,
+} from "@/lib/encryption";
+import { EditMetadata, PhotoMetadata, encryptMetadata } from "@/lib/metadata";
+import { createSharingKeyPair, rewrapSharingPrivateKey, unwrapSharingPrivateKey } from "@/lib/sharing";
+import { rewrapEmergencyKeys } from "@/lib/emergencyAccess";
+
+const KEY_CHECK_PLAINTEXT = "photovault-key-check-v1";
+
+export class IncorrectPassphraseError extends Error {
+  constructor() {
+    super("Incorrect passphrase");
+    this.name = "IncorrectPassphraseError";
+  }
+}
+
+export interface VaultProfile {
+  kdfSalt: Uint8Array | null;
+  kdfParams: KdfParams;
+  legacyRekeyPending: boolean;
+  wrappedMasterKey: string | null;
+  masterKeyId: string | null;
+  pendingWrappedMasterKey: string | null;
+  pendingMasterKeyId: string | null;
+  keyCheck: string | null;
+  recoveryWrappedMasterKey: string | null;
+  pendingRecoveryWrappedMasterKey: string | null;
+  wrappedRecoveryKey: string | null;
+  recoveryKeyCreatedAt: string | null;
+  sharingPublicKey: string | null;
+  wrappedSharingPrivateKey: string | null;
+}
+
+export interface VaultKeySettings {
+  salt: Uint8Array;
+  params: KdfParams;
+  wrappedMasterKey: string;
+  masterKeyId: string;
+  keyCheck: string;
+  legacyRekeyPending?: boolean;
+}
+
+export interface MasterKey {
+  id: string;
+  key: CryptoKey;
+}
+
+export interface DeviceKey {
+  id: string;
+  credentialId: string;
+  label: string;
+  prfSalt: Uint8Array;
+  wrappedMasterKey: string;
+  masterKeyId: string;
+  pendingWrappedMasterKey: string | null;
+  pendingMasterKeyId: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+type ObjectTable = "photos" | "photo_versions";
+
+interface UnwrappedObject {
+  table: ObjectTable;
+  id: string;
+  storage_path: string;
+  aad: Uint8Array;
+}
+
+interface WrappedKeyRow {
+  table: ObjectTable | "albums";
+  id: string;
+  wrapped_key: string;
+  master_key_id: string | null;
+  aad: Uint8Array;
+}
+
+// Rows are selected with user_id, and versions with photo_id and
+// version_number, so their additional data can be rebuilt
+const photoAad = (row: { id: string; user_id: string }) =>
+  objectAad({ userId: row.user_id, photoId: row.id, version: 0 });
+
+const versionAad = (row: { user_id: string; photo_id: string; version_number: number }) =>
+  objectAad({ userId: row.user_id, photoId: row.photo_id, version: row.version_number });
+
+/**
+ * Loads the vault key settings stored on the user's profile
+ */
+export async function fetchVaultProfile(userId: string): Promise<VaultProfile> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return {
+    kdfSalt: data?.kdf_salt ? fromBase64(data.kdf_salt) : null,
+    // Profiles from before stored settings used PBKDF2
+    kdfParams: data?.kdf_params ? parseKdfParams(data.kdf_params) : PBKDF2_KDF_PARAMS,
+    legacyRekeyPending: data?.legacy_rekey_pending ?? false,
+    wrappedMasterKey: data?.wrapped_master_key ?? null,
+    masterKeyId: data?.master_key_id ?? null,
+    pendingWrappedMasterKey: data?.pending_wrapped_master_key ?? null,
+    pendingMasterKeyId: data?.pending_master_key_id ?? null,
+    keyCheck: data?.key_check ?? null,
+    recoveryWrappedMasterKey: data?.recovery_wrapped_master_key ?? null,
+    pendingRecoveryWrappedMasterKey: data?.pending_recovery_wrapped_master_key ?? null,
+    wrappedRecoveryKey: data?.wrapped_recovery_key ?? null,
+    recoveryKeyCreatedAt: data?.recovery_key_created_at ?? null,
+    sharingPublicKey: data?.sharing_public_key ?? null,
+    wrappedSharingPrivateKey: data?.wrapped_sharing_private_key ?? null,
+  };
+}
+
+/**
+ * Returns true once the user has a vault to unlock, including legacy accounts
+ * whose photos predate the per-user salt
+ */
+export async function vaultExists(userId: string): Promise<boolean> {
+  const profile = await fetchVaultProfile(userId);
+  return profile.kdfSalt !== null || (await hasUnwrappedObjects(userId));
+}
+
+/**
+ * Encrypts the known plaintext under a passphrase key, bound to the user
+ */
+export async function createKeyCheck(userId: string, kek: CryptoKey, params: KdfParams): Promise<string> {
+  const sealed = await sealContainer(new TextEncoder().encode(KEY_CHECK_PLAINTEXT), kek, {
+    kdf: kdfIdFor(params),
+    aad: new TextEncoder().encode(userId),
+  });
+  return toBase64(sealed);
+}
+
+/**
+ * Throws IncorrectPassphraseError unless the key check opens with this key
+ */
+export async function verifyKeyCheck(userId: string, keyCheck: string, kek: CryptoKey): Promise<void> {
+  try {
+    const plaintext = await openContainer(fromBase64(keyCheck), kek, {
+      aad: new TextEncoder().encode(userId),
+    });
+    if (new TextDecoder().decode(plaintext) === KEY_CHECK_PLAINTEXT) return;
+  } catch {
+    // Authentication failure means the key is wrong
+  }
+  throw new IncorrectPassphraseError();
+}
+
+/**
+ * Stores a key check for profiles created before verifiers existed
+ */
+export async function saveKeyCheck(userId: string, kek: CryptoKey, params: KdfParams): Promise<void> {
+  const { error } = await supabase
+    .from("profiles")
+    .update({ key_check: await createKeyCheck(userId, kek, params) })
+    .eq("id", userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Stores a freshly generated salt, its parameters and the master key it wraps
+ */
+export async function saveKdfSettings(userId: string, settings: VaultKeySettings): Promise<void> {
+  const { error } = await supabase
+    .from("profiles")
+    .upsert({
+      id: userId,
+      kdf_salt: toBase64(settings.salt),
+      kdf_params: settings.params as Json,
+      wrapped_master_key: settings.wrappedMasterKey,
+      master_key_id: settings.masterKeyId,
+      key_check: settings.keyCheck,
+      legacy_rekey_pending: settings.legacyRekeyPending ?? false,
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Generates a master key for a profile that predates envelope encryption
+ */
+export async function createMasterKey(userId: string, kek: CryptoKey, params: KdfParams): Promise<MasterKey> {
+  const masterKey: MasterKey = { id: crypto.randomUUID(), key: await generateKey() };
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({
+      wrapped_master_key: await wrapKey(masterKey.key, kek, { kdf: kdfIdFor(params) }),
+      master_key_id: masterKey.id,
+    })
+    .eq("id", userId);
+
+  if (error) throw error;
+  return masterKey;
+}
+
+/**
+ * Unwraps the master key, failing with a readable error on a wrong passphrase
+ */
+export async function unlockMasterKey(wrappedMasterKey: string, kek: CryptoKey): Promise<CryptoKey> {
+  try {
+    return await unwrapKey(wrappedMasterKey, kek);
+  } catch {
+    throw new IncorrectPassphraseError();
+  }
+}
+
+/**
+ * Clears the pending flag once no object is left under the legacy key
+ */
+export async function completeLegacyRekey(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from("profiles")
+    .update({ legacy_rekey_pending: false })
+    .eq("id", userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Lists photos and versions still encrypted directly with a passphrase key
+ */
+async function listUnwrappedObjects(userId: string): Promise<UnwrappedObject[]> {
+  const [photos, versions] = await Promise.all([
+    supabase
+      .from("photos")
+      .select("id, user_id, storage_path")
+      .eq("user_id", userId)
+      .is("wrapped_key", null),
+    supabase
+      .from("photo_versions")
+      .select("id, user_id, photo_id, version_number, storage_path")
+      .eq("user_id", userId)
+      .is("wrapped_key", null),
+  ]);
+
+  if (photos.error) throw photos.error;
+  if (versions.error) throw versions.error;
+
+  return [
+    ...(photos.data || []).map((row) => ({
+      table: "photos" as const,
+      id: row.id,
+      storage_path: row.storage_path,
+      aad: photoAad(row),
+    })),
+    ...(versions.data || []).map((row) => ({
+      table: "photo_versions" as const,
+      id: row.id,
+      storage_path: row.storage_path,
+      aad: versionAad(row),
+    })),
+  ];
+}
+
+async function tryDecrypt(blob: Blob, keys: CryptoKey[]): Promise<ArrayBuffer | null> {
+  for (const key of keys) {
+    try {
+      return await decryptBlob(blob, key);
+    } catch {
+      // Try the next candidate key
+    }
+  }
+  return null;
+}
+
+async function downloadObject(path: string): Promise<Blob> {
+  const { data, error } = await supabase.storage.from("photos").download(path);
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Returns true if the user has objects that predate envelope encryption
+ */
+export async function hasUnwrappedObjects(userId: string): Promise<boolean> {
+  const objects = await listUnwrappedObjects(userId);
+  return objects.length > 0;
+}
+
+/**
+ * Checks the candidate passphrase keys against the first unwrapped object
+ * A wrong passphrase fails here, before anything is written
+ */
+export async function verifyPassphraseKeys(userId: string, keys: CryptoKey[]): Promise<boolean> {
+  const [first] = await listUnwrappedObjects(userId);
+  if (!first) return true;
+
+  const blob = await downloadObject(first.storage_path);
+  return (await tryDecrypt(blob, keys)) !== null;
+}
+
+/**
+ * Moves every object encrypted directly with a passphrase key onto its own
+ * data key wrapped by the master key. Each object is written to a new path
+ * before its row is switched over, so an interrupted run loses nothing and
+ * simply continues with the remaining rows next time.
+ */
+export async function migrateUnwrappedObjects(
+  userId: string,
+  passphraseKeys: CryptoKey[],
+  masterKey: MasterKey,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const objects = await listUnwrappedObjects(userId);
+
+  for (let i = 0; i < objects.length; i++) {
+    const { table, id, storage_path: oldPath, aad } = objects[i];
+    const plaintext = await tryDecrypt(await downloadObject(oldPath), passphraseKeys);
+    if (plaintext === null) {
+      throw new Error(`Unable to decrypt ${oldPath} with the current passphrase`);
+    }
+
+    const dataKey = await generateKey();
+    const sealed = await encryptBlob(new Blob([plaintext]), dataKey, { aad });
+    const newPath = `${oldPath.slice(0, oldPath.lastIndexOf("/"))}/${crypto.randomUUID()}.encrypted`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("photos")
+      .upload(newPath, sealed);
+
+    if (uploadError) throw uploadError;
+
+    const { error: dbError } = await supabase
+      .from(table)
+      .update({
+        storage_path: newPath,
+        wrapped_key: await wrapKey(dataKey, masterKey.key, { aad }),
+        master_key_id: masterKey.id,
+        aad_bound: true,
+      })
+      .eq("id", id);
+
+    if (dbError) throw dbError;
+
+    await supabase.storage.from("photos").remove([oldPath]);
+    onProgress?.(i + 1, objects.length);
+  }
+}
+
+/**
+ * Lists rows whose wrapped key and metadata are not yet bound to the row
+ */
+async function listUnboundRows(userId: string) {
+  const [photos, versions] = await Promise.all([
+    supabase
+      .from("photos")
+      .select("id, user_id, wrapped_key, master_key_id, encrypted_metadata")
+      .eq("user_id", userId)
+      .not("wrapped_key", "is", null)
+      .eq("aad_bound", false),
+    supabase
+      .from("photo_versions")
+      .select("id, user_id, photo_id, version_number, wrapped_key, master_key_id, encrypted_metadata")
+      .eq("user_id", userId)
+      .not("wrapped_key", "is", null)
+      .eq("aad_bound", false),
+  ]);
+
+  if (photos.error) throw photos.error;
+  if (versions.error) throw versions.error;
+
+  return [
+    ...(photos.data || []).map((row) => ({ table: "photos" as const, ...row, aad: photoAad(row) })),
+    ...(versions.data || []).map((row) => ({ table: "photo_versions" as const, ...row, aad: versionAad(row) })),
+  ];
+}
+
+/**
+ * Returns true if any wrapped key predates binding to its row
+ */
+export async function hasUnboundObjects(userId: string): Promise<boolean> {
+  const rows = await listUnboundRows(userId);
+  return rows.length > 0;
+}
+
+/**
+ * Re-wraps each data key and re-seals its metadata bound to the row's owner,
+ * photo id and version. The file itself is left as is: its data key never
+ * encrypted anything else, so binding the key is enough to stop swaps.
+ */
+export async function bindObjectKeys(
+  userId: string,
+  resolveMasterKey: (id: string | null) => CryptoKey | null,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const rows = await listUnboundRows(userId);
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const masterKey = resolveMasterKey(row.master_key_id);
+    if (!masterKey) {
+      throw new Error(`No master key available for ${row.table} ${row.id}`);
+    }
+
+    // aad_bound only picks the rows to look at. A key already sealed to its
+    // row must still open against it, so clearing the column downgrades nothing.
+    const bound = hasExternalAad(fromBase64(row.wrapped_key));
+    const dataKey = await unwrapKey(row.wrapped_key, masterKey, { aad: row.aad, requireAad: bound });
+    let encryptedMetadata = row.encrypted_metadata;
+    if (encryptedMetadata) {
+      const plaintext = await openContainer(fromBase64(encryptedMetadata), dataKey, {
+        aad: row.aad,
+        requireAad: bound,
+      });
+      encryptedMetadata = toBase64(await sealContainer(plaintext, dataKey, { aad: row.aad }));
+    }
+
+    const { error } = await supabase
+      .from(row.table)
+      .update({
+        wrapped_key: await wrapKey(dataKey, masterKey, { aad: row.aad }),
+        encrypted_metadata: encryptedMetadata,
+        aad_bound: true,
+      })
+      .eq("id", row.id);
+
+    if (error) throw error;
+    onProgress?.(i + 1, rows.length);
+  }
+}
+
+/**
+ * Lists photos and versions that still carry plaintext metadata
+ */
+async function listPlaintextMetadataRows(userId: string) {
+  const [photos, versions] = await Promise.all([
+    supabase
+      .from("photos")
+      .select("id, user_id, title, description, wrapped_key, master_key_id")
+      .eq("user_id", userId)
+      .not("wrapped_key", "is", null)
+      .or("title.not.is.null,description.not.is.null"),
+    supabase
+      .from("photo_versions")
+      .select("id, user_id, photo_id, version_number, edit_metadata, wrapped_key, master_key_id")
+      .eq("user_id", userId)
+      .not("wrapped_key", "is", null)
+      .not("edit_metadata", "is", null),
+  ]);
+
+  if (photos.error) throw photos.error;
+  if (versions.error) throw versions.error;
+  return { photos: photos.data || [], versions: versions.data || [] };
+}
+
+/**
+ * Returns true if any title, description or edit settings are still stored in plaintext
+ */
+export async function hasPlaintextMetadata(userId: string): Promise<boolean> {
+  const { photos, versions } = await listPlaintextMetadataRows(userId);
+  return photos.length + versions.length > 0;
+}
+
+/**
+ * Encrypts plaintext metadata in place under each row's data key and clears
+ * the plaintext columns in the same update, so rows are moved one at a time.
+ * Runs after bindObjectKeys, so every key is already bound to its row.
+ */
+export async function encryptPlaintextMetadata(
+  userId: string,
+  resolveMasterKey: (id: string | null) => CryptoKey | null,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const { photos, versions } = await listPlaintextMetadataRows(userId);
+  const total = photos.length + versions.length;
+  let done = 0;
+
+  const dataKeyFor = async (row: Omit<WrappedKeyRow, "table">) => {
+    const masterKey = resolveMasterKey(row.master_key_id);
+    if (!masterKey) {
+      throw new Error(`No master key available for ${row.id}`);
+    }
+    return unwrapKey(row.wrapped_key, masterKey, { aad: row.aad, requireAad: true });
+  };
+
+  for (const photo of photos) {
+    const metadata: PhotoMetadata = { title: photo.title, description: photo.description };
+    const aad = photoAad(photo);
+    const { error } = await supabase
+      .from("photos")
+      .update({
+        encrypted_metadata: await encryptMetadata(metadata, await dataKeyFor({ ...photo, aad }), aad),
+        title: null,
+        description: null,
+      })
+      .eq("id", photo.id);
+
+    if (error) throw error;
+    onProgress?.(++done, total);
+  }
+
+  for (const version of versions) {
+    const metadata = version.edit_metadata as EditMetadata;
+    const aad = versionAad(version);
+    const { error } = await supabase
+      .from("photo_versions")
+      .update({
+        encrypted_metadata: await encryptMetadata(metadata, await dataKeyFor({ ...version, aad }), aad),
+        edit_metadata: null,
+      })
+      .eq("id", version.id);
+
+    if (error) throw error;
+    onProgress?.(++done, total);
+  }
+}
+
+/**
+ * Re-wraps the current master key under a new passphrase. With a rotation key
+ * it is also stored as pending until every data key has been re-wrapped.
+ */
+export async function savePassphrase(
+  userId: string,
+  passphraseKek: { salt: Uint8Array; params: KdfParams; key: CryptoKey },
+  current: MasterKey,
+  rotation: MasterKey | null
+): Promise<void> {
+  // Keep the recovery key able to reach the pending master key as well
+  const { wrappedRecoveryKey } = await fetchVaultProfile(userId);
+  let pendingRecoveryWrappedMasterKey: string | null = null;
+  if (rotation && wrappedRecoveryKey) {
+    const recoveryKey = await unwrapKey(wrappedRecoveryKey, current.key);
+    pendingRecoveryWrappedMasterKey = await wrapKey(rotation.key, recoveryKey, { kdf: KdfId.RECOVERY_KEY });
+  }
+
+  // Passkeys too, before the profile points at the pending key
+  const known = new Map([[current.id, current.key]]);
+  if (rotation) known.set(rotation.id, rotation.key);
+  await updateDeviceKeys(userId, (id) => known.get(id) ?? null, async (deviceKey) => ({
+    pending_wrapped_master_key: rotation
+      ? await wrapKey(rotation.key, deviceKey, { kdf: KdfId.PASSKEY_PRF })
+      : null,
+    pending_master_key_id: rotation?.id ?? null,
+  }));
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({
+      kdf_salt: toBase64(passphraseKek.salt),
+      kdf_params: passphraseKek.params as Json,
+      wrapped_master_key: await wrapKey(current.key, passphraseKek.key, { kdf: kdfIdFor(passphraseKek.params) }),
+      master_key_id: current.id,
+      key_check: await createKeyCheck(userId, passphraseKek.key, passphraseKek.params),
+      pending_wrapped_master_key: rotation
+        ? await wrapKey(rotation.key, passphraseKek.key, { kdf: kdfIdFor(passphraseKek.params) })
+        : null,
+      pending_master_key_id: rotation?.id ?? null,
+      pending_recovery_wrapped_master_key: pendingRecoveryWrappedMasterKey,
+    })
+    .eq("id", userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Lists every photo, version and album whose key is not yet under the given master key
+ */
+async function listRowsToRewrap(userId: string, masterKeyId: string): Promise<WrappedKeyRow[]> {
+  const filter = `master_key_id.is.null,master_key_id.neq.${masterKeyId}`;
+  const [photos, versions, albums] = await Promise.all([
+    // Space photos are wrapped under their space's key instead
+    supabase
+      .from("photos")
+      .select("id, user_id, wrapped_key, master_key_id")
+      .eq("user_id", userId)
+      .is("space_id", null)
+      .not("wrapped_key", "is", null)
+      .or(filter),
+    supabase
+      .from("photo_versions")
+      .select("id, user_id, photo_id, version_number, wrapped_key, master_key_id")
+      .eq("user_id", userId)
+      .not("wrapped_key", "is", null)
+      .or(filter),
+    // Album keys wrap their photos' keys, so those stay as they are
+    supabase
+      .from("albums")
+      .select("id, user_id, wrapped_key, master_key_id")
+      .eq("user_id", userId)
+      .or(filter),
+  ]);
+
+  if (photos.error) throw photos.error;
+  if (versions.error) throw versions.error;
+  if (albums.error) throw albums.error;
+
+  return [
+    ...(photos.data || []).map((row) => ({
+      table: "photos" as const,
+      id: row.id,
+      wrapped_key: row.wrapped_key,
+      master_key_id: row.master_key_id,
+      aad: photoAad(row),
+    })),
+    ...(versions.data || []).map((row) => ({
+      table: "photo_versions" as const,
+      id: row.id,
+      wrapped_key: row.wrapped_key,
+      master_key_id: row.master_key_id,
+      aad: versionAad(row),
+    })),
+    ...(albums.data || []).map((row) => ({
+      table: "albums" as const,
+      id: row.id,
+      wrapped_key: row.wrapped_key,
+      master_key_id: row.master_key_id,
+      aad: albumAad({ userId: row.user_id, albumId: row.id }),
+    })),
+  ];
+}
+
+/**
+ * Re-wraps every data and album key under the pending master key. Rows are
+ * updated one at a time and stamped with the new key id, so the job can be resumed.
+ */
+export async function rewrapDataKeys(
+  userId: string,
+  resolveMasterKey: (id: string | null) => CryptoKey | null,
+  target: MasterKey,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const rows = await listRowsToRewrap(userId, target.id);
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const wrappingKey = resolveMasterKey(row.master_key_id);
+    if (!wrappingKey) {
+      throw new Error(`No master key available for ${row.table} ${row.id}`);
+    }
+
+    const dataKey = await unwrapKey(row.wrapped_key, wrappingKey, { aad: row.aad, requireAad: true });
+    const { error } = await supabase
+      .from(row.table)
+      .update({
+        wrapped_key: await wrapKey(dataKey, target.key, { aad: row.aad }),
+        master_key_id: target.id,
+      })
+      .eq("id", row.id);
+
+    if (error) throw error;
+    onProgress?.(i + 1, rows.length);
+  }
+}
+
+/**
+ * Promotes the pending master key once nothing is left under the old one
+ */
+export async function completeRotation(
+  userId: string,
+  resolveMasterKey: (id: string | null) => CryptoKey | null,
+  target: MasterKey
+): Promise<void> {
+  const remaining = await listRowsToRewrap(userId, target.id);
+  if (remaining.length > 0) {
+    throw new Error("Some photos are still wrapped under the previous master key");
+  }
+
+  const profile = await fetchVaultProfile(userId);
+
+  // The recovery key moves over to the new master key with everything else
+  let wrappedRecoveryKey = profile.wrappedRecoveryKey;
+  const previousKey = resolveMasterKey(profile.masterKeyId);
+  if (wrappedRecoveryKey && previousKey) {
+    const recoveryKey = await unwrapKey(wrappedRecoveryKey, previousKey);
+    wrappedRecoveryKey = await wrapKey(recoveryKey, target.key);
+  }
+
+  // So does the sharing private key
+  let wrappedSharingPrivateKey = profile.wrappedSharingPrivateKey;
+  if (wrappedSharingPrivateKey && previousKey) {
+    wrappedSharingPrivateKey = await rewrapSharingPrivateKey(
+      userId,
+      wrappedSharingPrivateKey,
+      previousKey,
+      target.key
+    );
+  }
+
+  // Emergency contacts get the new key escrowed before the old one is retired
+  await rewrapEmergencyKeys(userId, target);
+
+  // Passkeys move first; until the profile follows, resuming repeats this step
+  await updateDeviceKeys(userId, resolveMasterKey, async (deviceKey) => ({
+    wrapped_master_key: await wrapKey(target.key, deviceKey, { kdf: KdfId.PASSKEY_PRF }),
+    master_key_id: target.id,
+    pending_wrapped_master_key: null,
+    pending_master_key_id: null,
+    wrapped_device_key: await wrapKey(deviceKey, target.key),
+  }));
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({
+      wrapped_master_key: profile.pendingWrappedMasterKey,
+      master_key_id: target.id,
+      pending_wrapped_master_key: null,
+      pending_master_key_id: null,
+      recovery_wrapped_master_key: profile.pendingRecoveryWrappedMasterKey ?? profile.recoveryWrappedMasterKey,
+      pending_recovery_wrapped_master_key: null,
+      wrapped_recovery_key: wrappedRecoveryKey,
+      wrapped_sharing_private_key: wrappedSharingPrivateKey,
+    })
+    .eq("id", userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Stores a new recovery key, replacing any previous one. During a rotation the
+ * pending master key is wrapped too, so recovery works at any point.
+ */
+export async function saveRecoveryKey(
+  userId: string,
+  recoveryKey: CryptoKey,
+  current: MasterKey,
+  pending: MasterKey | null
+): Promise<void> {
+  const { error } = await supabase
+    .from("profiles")
+    .update({
+      recovery_wrapped_master_key: await wrapKey(current.key, recoveryKey, { kdf: KdfId.RECOVERY_KEY }),
+      pending_recovery_wrapped_master_key: pending
+        ? await wrapKey(pending.key, recoveryKey, { kdf: KdfId.RECOVERY_KEY })
+        : null,
+      wrapped_recovery_key: await wrapKey(recoveryKey, current.key),
+      recovery_key_created_at: new Date().toISOString(),
+    })
+    .eq("id", userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Unwraps the master keys with a recovery key instead of the passphrase
+ */
+export async function unlockWithRecoveryKey(
+  profile: VaultProfile,
+  recoveryKey: CryptoKey
+): Promise<{ current: MasterKey; pending: MasterKey | null }> {
+  if (!profile.recoveryWrappedMasterKey || !profile.masterKeyId) {
+    throw new Error("No recovery key has been set up for this vault");
+  }
+
+  try {
+    const current: MasterKey = {
+      id: profile.masterKeyId,
+      key: await unwrapKey(profile.recoveryWrappedMasterKey, recoveryKey),
+    };
+    const pending: MasterKey | null =
+      profile.pendingRecoveryWrappedMasterKey && profile.pendingMasterKeyId
+        ? {
+            id: profile.pendingMasterKeyId,
+            key: await unwrapKey(profile.pendingRecoveryWrappedMasterKey, recoveryKey),
+          }
+        : null;
+
+    return { current, pending };
+  } catch {
+    throw new Error("This recovery key does not belong to this vault");
+  }
+}
+
+/**
+ * Returns the sharing private key, generating the key pair for vaults that
+ * predate sharing. It is wrapped under the current master key.
+ */
+export async function loadSharingKey(userId: string, current: MasterKey): Promise<CryptoKey> {
+  const profile = await fetchVaultProfile(userId);
+  if (profile.wrappedSharingPrivateKey && profile.sharingPublicKey) {
+    return unwrapSharingPrivateKey(userId, profile.wrappedSharingPrivateKey, current.key);
+  }
+
+  const keyPair = await createSharingKeyPair(userId, current.key);
+  const { error } = await supabase
+    .from("profiles")
+    .update({
+      sharing_public_key: keyPair.publicKey,
+      wrapped_sharing_private_key: keyPair.wrappedPrivateKey,
+    })
+    .eq("id", userId);
+
+  if (error) throw error;
+  return unwrapSharingPrivateKey(userId, keyPair.wrappedPrivateKey, current.key);
+}
+
+/**
+ * Lists the passkeys that can unlock the vault
+ */
+export async function listDeviceKeys(userId: string): Promise<DeviceKey[]> {
+  const { data, error } = await supabase
+    .from("device_keys")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    credentialId: row.credential_id,
+    label: row.label,
+    prfSalt: fromBase64(row.prf_salt),
+    wrappedMasterKey: row.wrapped_master_key,
+    masterKeyId: row.master_key_id,
+    pendingWrappedMasterKey: row.pending_wrapped_master_key,
+    pendingMasterKeyId: row.pending_master_key_id,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  }));
+}
+
+/**
+ * Applies an update to every passkey, given its device key. The device key is
+ * escrowed under the master key its row currently holds.
+ */
+async function updateDeviceKeys(
+  userId: string,
+  resolveMasterKey: (id: string | null) => CryptoKey | null,
+  update: (deviceKey: CryptoKey) => Promise<TablesUpdate<"device_keys">>
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("device_keys")
+    .select("id, master_key_id, wrapped_device_key")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  for (const row of data || []) {
+    const masterKey = resolveMasterKey(row.master_key_id);
+    if (!masterKey) {
+      throw new Error(`No master key available for passkey ${row.id}`);
+    }
+
+    const deviceKey = await unwrapKey(row.wrapped_device_key, masterKey);
+    const { error: updateError } = await supabase
+      .from("device_keys")
+      .update(await update(deviceKey))
+      .eq("id", row.id);
+
+    if (updateError) throw updateError;
+  }
+}
+
+/**
+ * Stores a passkey's copy of the master keys. During a rotation the pending
+ * master key is wrapped too, like the recovery key.
+ */
+export async function saveDeviceKey(
+  userId: string,
+  passkey: { credentialId: string; label: string; prfSalt: Uint8Array; key: CryptoKey },
+  current: MasterKey,
+  pending: MasterKey | null
+): Promise<void> {
+  const { error } = await supabase
+    .from("device_keys")
+    .upsert(
+      {
+        user_id: userId,
+        credential_id: passkey.credentialId,
+        label: passkey.label,
+        prf_salt: toBase64(passkey.prfSalt),
+        wrapped_master_key: await wrapKey(current.key, passkey.key, { kdf: KdfId.PASSKEY_PRF }),
+        master_key_id: current.id,
+        pending_wrapped_master_key: pending
+          ? await wrapKey(pending.key, passkey.key, { kdf: KdfId.PASSKEY_PRF })
+          : null,
+        pending_master_key_id: pending?.id ?? null,
+        wrapped_device_key: await wrapKey(passkey.key, current.key),
+      },
+      { onConflict: "user_id,credential_id" }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * Removes a passkey; the passphrase and other passkeys are unaffected
+ */
+export async function deleteDeviceKey(id: string): Promise<void> {
+  const { error } = await supabase.from("device_keys").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Records when a passkey last unlocked the vault
+ */
+export async function markDeviceKeyUsed(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("device_keys")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+/**
+ * Unwraps the master keys with a passkey's device key instead of the passphrase
+ */
+export async function unlockWithDeviceKey(
+  profile: VaultProfile,
+  deviceKey: DeviceKey,
+  key: CryptoKey
+): Promise<{ current: MasterKey; pending: MasterKey | null }> {
+  const wraps = new Map([[deviceKey.masterKeyId, deviceKey.wrappedMasterKey]]);
+  if (deviceKey.pendingMasterKeyId && deviceKey.pendingWrappedMasterKey) {
+    wraps.set(deviceKey.pendingMasterKeyId, deviceKey.pendingWrappedMasterKey);
+  }
+
+  const { masterKeyId, pendingMasterKeyId } = profile;
+  const wrappedCurrent = masterKeyId ? wraps.get(masterKeyId) : undefined;
+  const wrappedPending = pendingMasterKeyId ? wraps.get(pendingMasterKeyId) : null;
+  if (!masterKeyId || !wrappedCurrent || wrappedPending === undefined) {
+    // Only an interrupted rotation leaves a passkey on a different master key
+    throw new Error("Unlock with your passphrase to finish the interrupted key rotation first");
+  }
+
+  try {
+    const current: MasterKey = { id: masterKeyId, key: await unwrapKey(wrappedCurrent, key) };
+    const pending: MasterKey | null =
+      wrappedPending && pendingMasterKeyId
+        ? { id: pendingMasterKeyId, key: await unwrapKey(wrappedPending, key) }
+        : null;
+
+    return { current, pending };
+  } catch {
+    throw new Error("This passkey does not belong to this vault");
+  }
+}
@@ -2,9 +2,15 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
 import { EncryptionProvider } from "./hooks/useEncryption";
+import { SpacesProvider } from "./hooks/useSpaces";
+import { UploadQueueProvider } from "./hooks/useUploadQueue";
 
 createRoot(document.getElementById("root")!).render(
   <EncryptionProvider>
-    <App />
+    <SpacesProvider>
+      <UploadQueueProvider>
+        <App />
+      </UploadQueueProvider>
+    </SpacesProvider>
   </EncryptionProvider>
 );
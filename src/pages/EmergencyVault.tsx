@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { ArrowLeft, Camera, Download, Loader2, Shield } from "lucide-react";
+import { toast } from "sonner";
+import { useEncryption } from "@/hooks/useEncryption";
+import { FileInfo, TamperError, decryptFile, objectAad } from "@/lib/encryption";
+import { PhotoMetadata, decryptMetadata } from "@/lib/metadata";
+import { openObjectStream } from "@/lib/storage";
+import { EmergencyContact, listEmergencyGrants, openEmergencyAccess } from "@/lib/emergencyAccess";
+import type { MasterKey } from "@/lib/vault";
+import { PhotoViewer } from "@/components/PhotoViewer";
+
+interface GrantorPhoto {
+  id: string;
+  user_id: string;
+  storage_path: string;
+  encrypted_metadata: string | null;
+  wrapped_key: string | null;
+  master_key_id: string | null;
+  created_at: string;
+}
+
+interface DecryptedPhoto {
+  url: string;
+  info: FileInfo | null;
+  metadata: PhotoMetadata | null;
+}
+
+const EmergencyVault = () => {
+  const { contactId } = useParams<{ contactId: string }>();
+  const [grant, setGrant] = useState<EmergencyContact | null>(null);
+  const [photos, setPhotos] = useState<GrantorPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [decrypted, setDecrypted] = useState<Map<string, DecryptedPhoto>>(new Map());
+  const [failed, setFailed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<GrantorPhoto | null>(null);
+  const navigate = useNavigate();
+  const { sharingKey, createObjectUrl } = useEncryption();
+  // Cancels queued and running decryptions when the page goes away
+  const decryptAbort = useRef<AbortController | null>(null);
+
+  const decryptPhoto = useCallback(async (photo: GrantorPhoto, masterKey: MasterKey) => {
+    try {
+      // Photos still under an older master key stay out of reach
+      if (!photo.wrapped_key || (photo.master_key_id && photo.master_key_id !== masterKey.id)) {
+        throw new Error(`Photo ${photo.id} is not wrapped under the released master key`);
+      }
+
+      const aad = objectAad({ userId: photo.user_id, photoId: photo.id, version: 0 });
+      const stream = await openObjectStream(photo.storage_path);
+      const { blob, info } = await decryptFile(stream, photo.wrapped_key, masterKey.key, {
+        aad,
+        signal: decryptAbort.current?.signal,
+      });
+      const metadata = photo.encrypted_metadata
+        ? await decryptMetadata<PhotoMetadata>(photo.encrypted_metadata, photo.wrapped_key, masterKey.key, aad)
+        : null;
+
+      setDecrypted((prev) => new Map(prev).set(photo.id, { url: createObjectUrl(blob), info, metadata }));
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      console.error("Emergency photo decryption error:", error);
+      setFailed((prev) => new Set(prev).add(photo.id));
+      if (error instanceof TamperError) {
+        toast.error("A photo failed its integrity check and was not shown", { id: "tamper-error" });
+      } else {
+        toast.error("Failed to decrypt a photo", { id: "decrypt-error" });
+      }
+    }
+  }, [createObjectUrl]);
+
+  const fetchVault = useCallback(async () => {
+    if (!sharingKey) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        navigate("/auth");
+        return;
+      }
+
+      const found = (await listEmergencyGrants(user.id)).find((other) => other.id === contactId) ?? null;
+      setGrant(found);
+      if (!found || found.status !== "granted") return;
+
+      const masterKey = await openEmergencyAccess(found, sharingKey);
+      const { data, error } = await supabase
+        .from("photos")
+        .select("id, user_id, storage_path, encrypted_metadata, wrapped_key, master_key_id, created_at")
+        .eq("user_id", found.grantor_id)
+        .is("space_id", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setPhotos(data || []);
+      (data || []).forEach((photo) => decryptPhoto(photo, masterKey));
+    } catch (error) {
+      console.error("Error opening emergency access:", error);
+      toast.error("Failed to open this vault");
+    } finally {
+      setLoading(false);
+    }
+  }, [sharingKey, contactId, navigate, decryptPhoto]);
+
+  const handleDownload = (photo: GrantorPhoto) => {
+    const entry = decrypted.get(photo.id);
+    if (!entry) return;
+
+    const a = document.createElement("a");
+    a.href = entry.url;
+    a.download = entry.info?.name || entry.metadata?.title || "photo";
+    a.click();
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    decryptAbort.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    fetchVault();
+  }, [fetchVault]);
+
+  const selectedEntry = selected ? decrypted.get(selected.id) : undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 bg-[var(--gradient-mesh)] opacity-30 pointer-events-none" />
+
+      <header className="sticky top-0 z-40 w-full border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container flex h-16 items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-primary/10">
+              <Camera className="h-6 w-6 text-primary" />
+            </div>
+            <h1 className="text-2xl font-bold bg-[var(--gradient-primary)] bg-clip-text text-transparent">
+              PhotoVault
+            </h1>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => navigate("/settings")}
+            className="border-border hover:bg-secondary/80"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to settings
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 relative z-10">
+        {grant && (
+          <h2 className="text-2xl font-bold text-foreground mb-6 truncate">
+            {grant.grantor_email ?? "Another account"}'s vault
+          </h2>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center min-h-[400px]">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !sharingKey ? (
+          <p className="text-center py-20 text-muted-foreground text-lg">
+            Unlock your own vault first to open one shared through emergency access.
+          </p>
+        ) : grant?.status !== "granted" ? (
+          <p className="text-center py-20 text-muted-foreground text-lg">
+            Access to this vault has not been released to you.
+          </p>
+        ) : photos.length === 0 ? (
+          <p className="text-center py-20 text-muted-foreground text-lg">This vault has no photos.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {photos.map((photo) => {
+              const entry = decrypted.get(photo.id);
+
+              return (
+                <Card
+                  key={photo.id}
+                  className="group overflow-hidden cursor-pointer bg-card border-border hover:shadow-[var(--shadow-elegant)] transition-all duration-300 hover:scale-[1.02]"
+                  onClick={() => setSelected(photo)}
+                >
+                  <div className="aspect-square overflow-hidden relative">
+                    {entry ? (
+                      <img
+                        src={entry.url}
+                        alt={entry.metadata?.title || "Photo"}
+                        className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500"
+                      />
+                    ) : failed.has(photo.id) ? (
+                      <div className="w-full h-full flex items-center justify-center bg-secondary/20">
+                        <Shield className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center bg-secondary/20">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                      </div>
+                    )}
+                  </div>
+                  {entry?.metadata?.title && (
+                    <div className="p-3 bg-card/95 backdrop-blur-sm">
+                      <h3 className="font-medium truncate text-foreground">{entry.metadata.title}</h3>
+                    </div>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <Dialog open={!!selected} onOpenChange={() => setSelected(null)}>
+        <DialogContent className="max-w-7xl bg-background border-border p-0 overflow-hidden">
+          {selected && (
+            <>
+              {selectedEntry ? (
+                <PhotoViewer
+                  imageUrl={selectedEntry.url}
+                  alt={selectedEntry.metadata?.title || "Photo"}
+                  onClose={() => setSelected(null)}
+                />
+              ) : (
+                <div className="w-full h-[60vh] flex items-center justify-center bg-secondary/20">
+                  <Loader2 className="h-12 w-12 animate-spin text-primary" />
+                </div>
+              )}
+
+              {selectedEntry && (
+                <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-background via-background/80 to-transparent">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      {selectedEntry.metadata?.title && (
+                        <h2 className="text-2xl font-bold mb-2 text-foreground">{selectedEntry.metadata.title}</h2>
+                      )}
+                      {selectedEntry.metadata?.description && (
+                        <p className="text-muted-foreground">{selectedEntry.metadata.description}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground mt-2">
+                        {new Date(selectedEntry.info?.capturedAt ?? selected.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      onClick={() => handleDownload(selected)}
+                      className="shadow-lg"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EmergencyVault;
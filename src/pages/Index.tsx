@@ -3,21 +3,44 @@ import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { User, Session } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PhotoUpload } from "@/components/PhotoUpload";
 import { PhotoGallery } from "@/components/PhotoGallery";
+import { SharedWithMe } from "@/components/SharedWithMe";
 import { EncryptionSetup } from "@/components/EncryptionSetup";
-import { Camera, LogOut, Upload } from "lucide-react";
+import { ChangePassphrase } from "@/components/ChangePassphrase";
+import { RecoveryKey } from "@/components/RecoveryKey";
+import { AutoLockSettings } from "@/components/AutoLockSettings";
+import { Passkeys } from "@/components/Passkeys";
+import { SpaceSwitcher } from "@/components/SpaceSwitcher";
+import { SpaceMembers } from "@/components/SpaceMembers";
+import { UploadQueue } from "@/components/UploadQueue";
+import { Camera, Fingerprint, KeyRound, LifeBuoy, Link2, Lock, LogOut, Settings, Timer, Upload, Users } from "lucide-react";
 import { toast } from "sonner";
 import { useEncryption } from "@/hooks/useEncryption";
+import { useSpaces } from "@/hooks/useSpaces";
+import { useUploadQueue } from "@/hooks/useUploadQueue";
+import { canUploadToSpace, isRotationPending } from "@/lib/spaces";
+import { filesFromDataTransfer, folderOf, splitImages } from "@/lib/folderImport";
 
 const Index = () => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [uploadOpen, setUploadOpen] = useState(false);
+  const [changePassphraseOpen, setChangePassphraseOpen] = useState(false);
+  const [recoveryKeyOpen, setRecoveryKeyOpen] = useState(false);
+  const [autoLockOpen, setAutoLockOpen] = useState(false);
+  const [passkeysOpen, setPasskeysOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [dragging, setDragging] = useState(false);
   const navigate = useNavigate();
-  const { isEncryptionReady } = useEncryption();
+  const { isEncryptionReady, rotationPending, lockVault } = useEncryption();
+  const { activeSpace } = useSpaces();
+  const { enqueue, completedCount } = useUploadQueue();
+  const spaceRotationPending = !!activeSpace && isRotationPending(activeSpace);
+  const canUpload = !activeSpace || (canUploadToSpace(activeSpace.role) && !spaceRotationPending);
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -45,13 +68,44 @@ const Index = () => {
   }, [loading, user, session, navigate]);
 
   const handleSignOut = async () => {
+    lockVault();
     await supabase.auth.signOut();
     toast.success("Signed out successfully");
     navigate("/auth");
   };
 
-  const handleUploadComplete = () => {
-    setRefreshTrigger(prev => prev + 1);
+  useEffect(() => {
+    if (completedCount > 0) setRefreshTrigger(prev => prev + 1);
+  }, [completedCount]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canUpload || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between children fires leave events on the way
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setDragging(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (!canUpload) return;
+
+    // Dropped folders are walked too; use the upload dialog to make albums of them
+    const { images, skipped } = splitImages(await filesFromDataTransfer(e.dataTransfer));
+    if (skipped.length > 0) {
+      toast.warning(
+        `Skipped ${skipped.length} ${skipped.length === 1 ? "file that is not an image" : "files that are not images"}`
+      );
+    }
+    if (images.length > 0) {
+      enqueue(images.map(({ file, path }) => ({ file, metadata: { path: folderOf(path) ? path : null } })));
+    }
   };
 
   // Show loading state while checking auth
@@ -91,13 +145,84 @@ const Index = () => {
           </div>
           
           <div className="flex items-center gap-3">
+            <SpaceSwitcher />
+            {activeSpace && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setMembersOpen(true)}
+                title="Space members"
+                className="border-border hover:bg-secondary/80"
+              >
+                <Users className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               onClick={() => setUploadOpen(true)}
+              disabled={!canUpload}
               className="bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity shadow-[var(--shadow-glow)]"
             >
               <Upload className="h-4 w-4 mr-2" />
               Upload
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate("/links")}
+              className="border-border hover:bg-secondary/80"
+            >
+              <Link2 className="h-4 w-4 mr-2" />
+              Links
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setChangePassphraseOpen(true)}
+              className="border-border hover:bg-secondary/80"
+            >
+              <KeyRound className="h-4 w-4 mr-2" />
+              Passphrase
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setRecoveryKeyOpen(true)}
+              className="border-border hover:bg-secondary/80"
+            >
+              <LifeBuoy className="h-4 w-4 mr-2" />
+              Recovery
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setPasskeysOpen(true)}
+              className="border-border hover:bg-secondary/80"
+            >
+              <Fingerprint className="h-4 w-4 mr-2" />
+              Passkeys
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => navigate("/settings")}
+              title="Settings"
+              className="border-border hover:bg-secondary/80"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setAutoLockOpen(true)}
+              title="Auto-lock settings"
+              className="border-border hover:bg-secondary/80"
+            >
+              <Timer className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              onClick={lockVault}
+              className="border-border hover:bg-secondary/80"
+            >
+              <Lock className="h-4 w-4 mr-2" />
+              Lock now
+            </Button>
             <Button
               variant="outline"
               onClick={handleSignOut}
@@ -110,14 +235,88 @@ const Index = () => {
         </div>
       </header>
 
-      <main className="container py-8 relative z-10">
-        <PhotoGallery refreshTrigger={refreshTrigger} />
+      <main
+        className="container py-8 relative z-10"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {dragging && (
+          <div className="absolute inset-4 z-20 flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-primary bg-background/80 backdrop-blur-sm pointer-events-none">
+            <Upload className="h-12 w-12 text-primary" />
+            <p className="text-lg text-foreground">
+              Drop photos to encrypt and upload them{activeSpace ? ` to ${activeSpace.name}` : ""}
+            </p>
+          </div>
+        )}
+        {rotationPending && (
+          <div className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-border bg-secondary/30 p-4">
+            <p className="text-sm text-muted-foreground">
+              A master key rotation was interrupted before every photo was re-wrapped.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setChangePassphraseOpen(true)}>
+              Resume
+            </Button>
+          </div>
+        )}
+        {spaceRotationPending && canUploadToSpace(activeSpace.role) && (
+          <div className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-border bg-secondary/30 p-4">
+            <p className="text-sm text-muted-foreground">
+              {activeSpace.role === "owner"
+                ? "Removing a member was interrupted before this space's key was rotated. Uploads are paused until it is finished."
+                : "Uploads are paused until an owner finishes rotating this space's key."}
+            </p>
+            {activeSpace.role === "owner" && (
+              <Button variant="outline" size="sm" onClick={() => setMembersOpen(true)}>
+                Resume
+              </Button>
+            )}
+          </div>
+        )}
+        <Tabs defaultValue="mine">
+          <TabsList className="mb-6">
+            <TabsTrigger value="mine">{activeSpace ? activeSpace.name : "My Photos"}</TabsTrigger>
+            <TabsTrigger value="shared">Shared with me</TabsTrigger>
+          </TabsList>
+          <TabsContent value="mine">
+            <PhotoGallery refreshTrigger={refreshTrigger} />
+          </TabsContent>
+          <TabsContent value="shared">
+            <SharedWithMe />
+          </TabsContent>
+        </Tabs>
       </main>
 
       <PhotoUpload
         open={uploadOpen}
         onOpenChange={setUploadOpen}
-        onUploadComplete={handleUploadComplete}
+      />
+
+      <UploadQueue />
+
+      <ChangePassphrase
+        open={changePassphraseOpen}
+        onOpenChange={setChangePassphraseOpen}
+      />
+
+      <RecoveryKey
+        open={recoveryKeyOpen}
+        onOpenChange={setRecoveryKeyOpen}
+      />
+
+      <AutoLockSettings
+        open={autoLockOpen}
+        onOpenChange={setAutoLockOpen}
+      />
+
+      <Passkeys
+        open={passkeysOpen}
+        onOpenChange={setPasskeysOpen}
+      />
+
+      <SpaceMembers
+        open={membersOpen}
+        onOpenChange={setMembersOpen}
       />
     </div>
   );
@@ -0,0 +1,433 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Camera, HeartHandshake, History, Loader2, ShieldOff, UserMinus, Vault } from "lucide-react";
+import { toast } from "sonner";
+import { useEncryption } from "@/hooks/useEncryption";
+import {
+  EmergencyAccessEvent,
+  EmergencyAccessEventKind,
+  EmergencyAccessStatus,
+  EmergencyContact,
+  emergencyAccessReleaseDate,
+  listEmergencyAccessEvents,
+  listEmergencyContacts,
+  listEmergencyGrants,
+  nominateEmergencyContact,
+  removeEmergencyContact,
+  requestEmergencyAccess,
+  vetoEmergencyAccess,
+} from "@/lib/emergencyAccess";
+
+const WAIT_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "3", label: "3 days" },
+  { value: "7", label: "7 days" },
+  { value: "14", label: "14 days" },
+  { value: "30", label: "30 days" },
+];
+
+const STATUS_LABELS: Record<EmergencyAccessStatus, string> = {
+  idle: "Standing by",
+  requested: "Access requested",
+  granted: "Access granted",
+};
+
+// Describes an event from the point of view of the account reading the log
+const describeEvent = (event: EmergencyAccessEvent, userId: string | null) => {
+  const asGrantor = event.grantor_id === userId;
+  const other = (asGrantor ? event.grantee_email : event.grantor_email) ?? "another account";
+
+  switch (event.kind as EmergencyAccessEventKind) {
+    case "nominated":
+      return asGrantor ? `You named ${other} as an emergency contact` : `${other} named you as an emergency contact`;
+    case "requested":
+      return asGrantor ? `${other} requested emergency access` : `You requested emergency access to ${other}'s vault`;
+    case "vetoed":
+      return asGrantor ? `You turned down ${other}'s request` : `${other} turned down your request`;
+    case "granted":
+      return asGrantor ? `${other} was given access to your vault` : `You were given access to ${other}'s vault`;
+    case "revoked":
+      return asGrantor ? `${other} is no longer your emergency contact` : `You are no longer ${other}'s emergency contact`;
+    default:
+      return event.kind;
+  }
+};
+
+const Settings = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [grants, setGrants] = useState<EmergencyContact[]>([]);
+  const [events, setEvents] = useState<EmergencyAccessEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [waitDays, setWaitDays] = useState("7");
+  const [nominating, setNominating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { masterKey, masterKeyId } = useEncryption();
+
+  const fetchEmergencyAccess = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        navigate("/auth");
+        return;
+      }
+
+      setUserId(user.id);
+      const [nextContacts, nextGrants, nextEvents] = await Promise.all([
+        listEmergencyContacts(user.id),
+        listEmergencyGrants(user.id),
+        listEmergencyAccessEvents(),
+      ]);
+      setContacts(nextContacts);
+      setGrants(nextGrants);
+      setEvents(nextEvents);
+    } catch (error) {
+      console.error("Error fetching emergency access:", error);
+      toast.error("Failed to load emergency access");
+    } finally {
+      setLoading(false);
+    }
+  }, [navigate]);
+
+  const handleNominate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !masterKey || !masterKeyId) return;
+
+    setNominating(true);
+    try {
+      const contact = await nominateEmergencyContact(
+        userId,
+        { id: masterKeyId, key: masterKey },
+        email,
+        Number(waitDays)
+      );
+      if (!contact) {
+        toast.error("No PhotoVault account with that email can receive shares yet");
+        return;
+      }
+
+      toast.success(`${email.trim()} is now your emergency contact`);
+      setEmail("");
+      fetchEmergencyAccess();
+    } catch (error) {
+      console.error("Nominate error:", error);
+      toast.error("Failed to add emergency contact");
+    } finally {
+      setNominating(false);
+    }
+  };
+
+  // Runs one action against a contact, then reloads both lists and the log
+  const runAction = async (id: string, action: () => Promise<void>, success: string, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast.success(success);
+      fetchEmergencyAccess();
+    } catch (error) {
+      console.error("Emergency access error:", error);
+      toast.error(failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  useEffect(() => {
+    fetchEmergencyAccess();
+  }, [fetchEmergencyAccess]);
+
+  // Requests, vetoes and releases show up without reloading
+  useEffect(() => {
+    const channel = supabase
+      .channel("emergency-access-events")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "emergency_access_events" }, () => {
+        fetchEmergencyAccess();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchEmergencyAccess]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 bg-[var(--gradient-mesh)] opacity-30 pointer-events-none" />
+
+      <header className="sticky top-0 z-40 w-full border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container flex h-16 items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-primary/10">
+              <Camera className="h-6 w-6 text-primary" />
+            </div>
+            <h1 className="text-2xl font-bold bg-[var(--gradient-primary)] bg-clip-text text-transparent">
+              PhotoVault
+            </h1>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/")} className="border-border hover:bg-secondary/80">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to photos
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 relative z-10 max-w-3xl space-y-10">
+        <section>
+          <h2 className="text-2xl font-bold text-foreground flex items-center gap-2 mb-2">
+            <HeartHandshake className="h-5 w-5 text-primary" />
+            Emergency Access
+          </h2>
+          <p className="text-muted-foreground mb-6">
+            A trusted contact can ask for access to your vault. If you do not turn the request down within the
+            waiting period, they receive your master key and can read your personal photos.
+          </p>
+
+          {masterKey ? (
+            <form onSubmit={handleNominate} className="flex items-end gap-2 mb-6">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="emergency-email">Email</Label>
+                <Input
+                  id="emergency-email"
+                  type="email"
+                  placeholder="someone@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="bg-secondary/50 border-border"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="emergency-wait">Waiting period</Label>
+                <Select value={waitDays} onValueChange={setWaitDays}>
+                  <SelectTrigger id="emergency-wait" className="w-[130px] bg-secondary/50 border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WAIT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                type="submit"
+                disabled={nominating}
+                className="bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+              >
+                {nominating ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add contact"}
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-muted-foreground mb-6">
+              Unlock your vault from the photos page to add an emergency contact.
+            </p>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center min-h-[120px]">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : contacts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You have not named an emergency contact.</p>
+          ) : (
+            <ul className="space-y-3">
+              {contacts.map((contact) => {
+                const releaseDate = emergencyAccessReleaseDate(contact);
+
+                return (
+                  <li
+                    key={contact.id}
+                    className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card/95 p-4"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-foreground truncate">
+                          {contact.grantee_email ?? "Unknown account"}
+                        </p>
+                        <Badge variant={contact.status === "idle" ? "secondary" : "destructive"}>
+                          {STATUS_LABELS[contact.status as EmergencyAccessStatus]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {releaseDate
+                          ? `Released ${releaseDate.toLocaleString()} unless you turn it down`
+                          : `${contact.wait_days} day waiting period`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {contact.status !== "idle" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            runAction(
+                              contact.id,
+                              () => vetoEmergencyAccess(contact.id),
+                              contact.status === "granted"
+                                ? "Access withdrawn. Rotate your master key to lock out a copy already read."
+                                : "Request turned down",
+                              "Failed to turn down the request"
+                            )
+                          }
+                          disabled={busyId === contact.id}
+                          className="border-border hover:bg-secondary/80"
+                        >
+                          <ShieldOff className="h-4 w-4 mr-2" />
+                          {contact.status === "granted" ? "Withdraw" : "Turn down"}
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          runAction(
+                            contact.id,
+                            () => removeEmergencyContact(contact.id),
+                            "Emergency contact removed",
+                            "Failed to remove emergency contact"
+                          )
+                        }
+                        disabled={busyId === contact.id}
+                        title="Remove contact"
+                      >
+                        {busyId === contact.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <UserMinus className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {contacts.some((contact) => contact.status === "granted") && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Withdrawing cannot take back your master key from a contact who already opened your vault, or the
+              photos they saved. Change your passphrase with a new master key so their copy no longer works.
+            </p>
+          )}
+        </section>
+
+        {grants.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-foreground flex items-center gap-2 mb-4">
+              <Vault className="h-5 w-5 text-primary" />
+              Vaults You Can Request
+            </h2>
+            <ul className="space-y-3">
+              {grants.map((grant) => {
+                const releaseDate = emergencyAccessReleaseDate(grant);
+
+                return (
+                  <li
+                    key={grant.id}
+                    className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card/95 p-4"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-foreground truncate">
+                          {grant.grantor_email ?? "Unknown account"}
+                        </p>
+                        <Badge variant={grant.status === "granted" ? "default" : "secondary"}>
+                          {STATUS_LABELS[grant.status as EmergencyAccessStatus]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {releaseDate
+                          ? `Released ${releaseDate.toLocaleString()} unless they turn it down`
+                          : `${grant.wait_days} day waiting period`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {grant.status === "idle" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            runAction(
+                              grant.id,
+                              () => requestEmergencyAccess(grant.id),
+                              "Access requested. They have been notified.",
+                              "Failed to request access"
+                            )
+                          }
+                          disabled={busyId === grant.id}
+                          className="border-border hover:bg-secondary/80"
+                        >
+                          Request access
+                        </Button>
+                      )}
+                      {grant.status === "granted" && (
+                        <Button
+                          size="sm"
+                          onClick={() => navigate(`/emergency/${grant.id}`)}
+                          disabled={!masterKey}
+                          className="bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+                        >
+                          Open vault
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          runAction(
+                            grant.id,
+                            () => removeEmergencyContact(grant.id),
+                            "You are no longer their emergency contact",
+                            "Failed to step down"
+                          )
+                        }
+                        disabled={busyId === grant.id}
+                        title="Step down"
+                      >
+                        {busyId === grant.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <UserMinus className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        {events.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-foreground flex items-center gap-2 mb-4">
+              <History className="h-5 w-5 text-primary" />
+              Activity
+            </h2>
+            <ul className="space-y-2">
+              {events.map((event) => (
+                <li key={event.id} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-foreground">{describeEvent(event, userId)}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {new Date(event.created_at).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Camera, KeyRound, Link2, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useEncryption } from "@/hooks/useEncryption";
+import { objectAad } from "@/lib/encryption";
+import { PhotoMetadata, decryptMetadata } from "@/lib/metadata";
+import { ShareLink, isShareLinkSpent, listShareLinks, revokeShareLink } from "@/lib/shareLinks";
+
+const ShareLinks = () => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [titles, setTitles] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { masterKey, resolveMasterKey } = useEncryption();
+
+  // Titles are encrypted, so they only show while the vault is unlocked
+  const loadTitles = useCallback(async (photoIds: string[]) => {
+    const { data, error } = await supabase
+      .from("photos")
+      .select("id, user_id, encrypted_metadata, wrapped_key, master_key_id")
+      .in("id", photoIds);
+
+    if (error) throw error;
+
+    const next = new Map<string, string>();
+    for (const photo of data || []) {
+      if (!photo.encrypted_metadata || !photo.wrapped_key) continue;
+      try {
+        const aad = objectAad({ userId: photo.user_id, photoId: photo.id, version: 0 });
+        const metadata = await decryptMetadata<PhotoMetadata>(
+          photo.encrypted_metadata,
+          photo.wrapped_key,
+          resolveMasterKey(photo.master_key_id),
+          aad
+        );
+        if (metadata.title) next.set(photo.id, metadata.title);
+      } catch (error) {
+        console.error("Link title decryption error:", error);
+      }
+    }
+    setTitles(next);
+  }, [resolveMasterKey]);
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        navigate("/auth");
+        return;
+      }
+
+      const next = await listShareLinks(user.id);
+      setLinks(next);
+      if (masterKey && next.length > 0) {
+        await loadTitles([...new Set(next.map((link) => link.photo_id))]);
+      }
+    } catch (error) {
+      console.error("Error fetching links:", error);
+      toast.error("Failed to load links");
+    } finally {
+      setLoading(false);
+    }
+  }, [masterKey, navigate, loadTitles]);
+
+  const handleRevoke = async (id: string) => {
+    setRevokingId(id);
+    try {
+      await revokeShareLink(id);
+      setLinks((prev) => prev.filter((link) => link.id !== id));
+      toast.success("Link revoked");
+    } catch (error) {
+      console.error("Revoke link error:", error);
+      toast.error("Failed to revoke link");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 bg-[var(--gradient-mesh)] opacity-30 pointer-events-none" />
+
+      <header className="sticky top-0 z-40 w-full border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container flex h-16 items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-primary/10">
+              <Camera className="h-6 w-6 text-primary" />
+            </div>
+            <h1 className="text-2xl font-bold bg-[var(--gradient-primary)] bg-clip-text text-transparent">
+              PhotoVault
+            </h1>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/")} className="border-border hover:bg-secondary/80">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to photos
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-8 relative z-10 max-w-3xl">
+        <h2 className="text-2xl font-bold text-foreground flex items-center gap-2 mb-2">
+          <Link2 className="h-5 w-5 text-primary" />
+          Share Links
+        </h2>
+        <p className="text-muted-foreground mb-6">
+          Anyone holding one of these links can view its photo. Revoking a link stops it working straight away.
+        </p>
+
+        {loading ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : links.length === 0 ? (
+          <div className="text-center py-20">
+            <p className="text-muted-foreground text-lg">
+              No links yet. Create one from a photo's detail view.
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {links.map((link) => {
+              const spent = isShareLinkSpent(link);
+
+              return (
+                <li
+                  key={link.id}
+                  className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card/95 p-4"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground truncate">
+                        {titles.get(link.photo_id) ?? (masterKey ? "Untitled photo" : "Encrypted photo")}
+                      </p>
+                      <Badge variant={spent ? "secondary" : "default"}>{spent ? "Expired" : "Active"}</Badge>
+                      {link.password_salt && (
+                        <KeyRound className="h-4 w-4 text-muted-foreground" aria-label="Password protected" />
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created {new Date(link.created_at).toLocaleDateString()}
+                      {" · "}
+                      {link.expires_at
+                        ? `${spent ? "Expired" : "Expires"} ${new Date(link.expires_at).toLocaleString()}`
+                        : "No expiry"}
+                      {" · "}
+                      {link.max_views !== null
+                        ? `${link.view_count} of ${link.max_views} views`
+                        : `${link.view_count} views`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRevoke(link.id)}
+                    disabled={revokingId === link.id}
+                    title={spent ? "Delete link" : "Revoke link"}
+                  >
+                    {revokingId === link.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ShareLinks;
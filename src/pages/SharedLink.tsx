@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Camera, Download, Loader2, Lock, Shield } from "lucide-react";
+import { FileInfo, TamperError, decryptFile, objectAad } from "@/lib/encryption";
+import { PhotoMetadata, decryptMetadata } from "@/lib/metadata";
+import {
+  OpenedShareLink,
+  ShareLinkUnavailableError,
+  countShareLinkView,
+  openShareLink,
+  unlockShareLink,
+} from "@/lib/shareLinks";
+import { IncorrectPassphraseError } from "@/lib/vault";
+
+type Status = "loading" | "password" | "decrypting" | "ready" | "error";
+
+// Marks a link whose view this tab already counted, so reloads are free
+const VIEWED_STORAGE_PREFIX = "share_link_viewed:";
+
+interface OpenedPhoto {
+  link: OpenedShareLink;
+  ciphertext: Blob;
+}
+
+interface SharedPhoto {
+  url: string;
+  info: FileInfo | null;
+  metadata: PhotoMetadata | null;
+}
+
+const SharedLink = () => {
+  const { token } = useParams<{ token: string }>();
+  const [status, setStatus] = useState<Status>("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [photo, setPhoto] = useState<SharedPhoto | null>(null);
+  // The download URL is short-lived, so the ciphertext is fetched once and kept
+  const opened = useRef<OpenedPhoto | null>(null);
+  const fragmentKey = window.location.hash.slice(1);
+
+  // Only a photo that decrypted counts as a view
+  const countView = useCallback((wrappedKey: string) => {
+    const viewedKey = `${VIEWED_STORAGE_PREFIX}${token}`;
+    if (sessionStorage.getItem(viewedKey)) return;
+
+    countShareLinkView(token, fragmentKey, wrappedKey)
+      .then(() => sessionStorage.setItem(viewedKey, "true"))
+      .catch((err) => console.error("Shared link view count error:", err));
+  }, [token, fragmentKey]);
+
+  const decrypt = useCallback(async ({ link, ciphertext }: OpenedPhoto, linkPassword?: string) => {
+    setStatus("decrypting");
+    try {
+      const { key, wrappedKey } = await unlockShareLink(link, fragmentKey, linkPassword);
+      const aad = objectAad({ userId: link.ownerId, photoId: link.photoId, version: 0 });
+
+      const { blob, info } = await decryptFile(ciphertext, wrappedKey, key, { aad });
+      const metadata = link.encryptedMetadata
+        ? await decryptMetadata<PhotoMetadata>(link.encryptedMetadata, wrappedKey, key, aad)
+        : null;
+
+      setPhoto({ url: URL.createObjectURL(blob), info, metadata });
+      setStatus("ready");
+      countView(wrappedKey);
+    } catch (err) {
+      if (err instanceof IncorrectPassphraseError) {
+        setPasswordError("Incorrect password. Please try again.");
+        setStatus("password");
+        return;
+      }
+      console.error("Shared link decryption error:", err);
+      setError(
+        err instanceof TamperError
+          ? "This photo failed its integrity check and was not shown."
+          : "This photo could not be decrypted. Check that the whole link was copied."
+      );
+      setStatus("error");
+    }
+  }, [fragmentKey, countView]);
+
+  useEffect(() => {
+    if (!token || !fragmentKey) {
+      setError("This link is incomplete. Ask for the full link, including the part after #.");
+      setStatus("error");
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const link = await openShareLink(token);
+
+        // The download URL only lasts a minute, so fetch before any password prompt
+        const response = await fetch(link.signedUrl);
+        if (!response.ok) throw new Error(`Failed to download photo: ${response.status}`);
+        opened.current = { link, ciphertext: await response.blob() };
+
+        if (link.passwordSalt) {
+          setStatus("password");
+        } else {
+          await decrypt(opened.current);
+        }
+      } catch (err) {
+        console.error("Shared link error:", err);
+        setError(err instanceof ShareLinkUnavailableError ? err.message : "Failed to open this link.");
+        setStatus("error");
+      }
+    };
+
+    load();
+  }, [token, fragmentKey, decrypt]);
+
+  useEffect(() => {
+    return () => {
+      if (photo) URL.revokeObjectURL(photo.url);
+    };
+  }, [photo]);
+
+  const handlePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!opened.current) return;
+    setPasswordError(null);
+    decrypt(opened.current, password);
+  };
+
+  const handleDownload = () => {
+    if (!photo) return;
+
+    const a = document.createElement("a");
+    a.href = photo.url;
+    a.download = photo.info?.name || photo.metadata?.title || "photo";
+    a.click();
+  };
+
+  if (status === "ready" && photo) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="absolute inset-0 bg-[var(--gradient-mesh)] opacity-30 pointer-events-none" />
+
+        <header className="sticky top-0 z-40 w-full border-b border-border/50 bg-background/80 backdrop-blur-xl">
+          <div className="container flex h-16 items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-primary/10">
+                <Camera className="h-6 w-6 text-primary" />
+              </div>
+              <h1 className="text-2xl font-bold bg-[var(--gradient-primary)] bg-clip-text text-transparent">
+                PhotoVault
+              </h1>
+            </div>
+            <Button variant="outline" onClick={handleDownload} className="border-border hover:bg-secondary/80">
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+          </div>
+        </header>
+
+        <main className="container py-8 relative z-10 space-y-4">
+          <img
+            src={photo.url}
+            alt={photo.metadata?.title || "Shared photo"}
+            className="max-h-[75vh] mx-auto rounded-lg shadow-[var(--shadow-elegant)] object-contain"
+          />
+          {photo.metadata?.title && (
+            <h2 className="text-2xl font-bold text-center text-foreground">{photo.metadata.title}</h2>
+          )}
+          {photo.metadata?.description && (
+            <p className="text-center text-muted-foreground">{photo.metadata.description}</p>
+          )}
+        </main>
+      </div>
+    );
+  }
+
+  if (status === "loading" || (status === "decrypting" && !opened.current?.link.passwordSalt)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">{status === "loading" ? "Opening link..." : "Decrypting..."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+      <div className="absolute inset-0 bg-[var(--gradient-mesh)] opacity-50" />
+
+      <Card className="w-full max-w-md relative z-10 border-border/50 shadow-[var(--shadow-elegant)]">
+        <CardHeader className="space-y-2 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="p-3 rounded-2xl bg-primary/10">
+              {status === "error" ? (
+                <Shield className="h-10 w-10 text-primary" />
+              ) : (
+                <Lock className="h-10 w-10 text-primary" />
+              )}
+            </div>
+          </div>
+          <CardTitle className="text-3xl font-bold bg-[var(--gradient-primary)] bg-clip-text text-transparent">
+            {status === "error" ? "Link Unavailable" : "Password Required"}
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            {status === "error" ? error : "The person who shared this photo protected it with a password."}
+          </CardDescription>
+        </CardHeader>
+
+        {status !== "error" && (
+          <CardContent>
+            <form onSubmit={handlePassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="link-password">Password</Label>
+                <Input
+                  id="link-password"
+                  type="password"
+                  placeholder="Enter the password"
+                  value={password}
+                  onChange={(e) => {
+                    setPassword(e.target.value);
+                    setPasswordError(null);
+                  }}
+                  required
+                  autoFocus
+                  className="bg-secondary/50 border-border"
+                />
+                {passwordError && <p className="text-sm text-destructive">{passwordError}</p>}
+              </div>
+
+              <Button
+                type="submit"
+                disabled={status === "decrypting"}
+                className="w-full bg-[var(--gradient-primary)] hover:opacity-90 transition-opacity"
+              >
+                {status === "decrypting" ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Decrypting...
+                  </>
+                ) : (
+                  "View photo"
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default SharedLink;
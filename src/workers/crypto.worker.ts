@@ -0,0 +1,59 @@
+// Encrypts and decrypts files off the main thread for the crypto pool
+
+import {
+  FileInfo,
+  OpenOptions,
+  StreamSealOptions,
+  decryptFileInThread,
+  encryptFileInThread,
+} from "@/lib/encryption";
+
+// Files arrive as Blobs or transferred streams and leave as Blobs, so neither
+// side ever holds a whole file in an ArrayBuffer
+export type CryptoTask =
+  | { type: "encrypt"; file: Blob; masterKey: CryptoKey; options: StreamSealOptions }
+  | {
+      type: "decrypt";
+      source: Blob | ReadableStream<Uint8Array>;
+      wrappedKey: string;
+      masterKey: CryptoKey;
+      options: OpenOptions;
+    };
+
+export interface CryptoResults {
+  encrypt: { blob: Blob; wrappedKey: string; dataKey: CryptoKey };
+  decrypt: { blob: Blob; info: FileInfo | null };
+}
+
+export type CryptoRequest = CryptoTask & { id: number };
+
+export type CryptoResponse =
+  | { id: number; result: CryptoResults[CryptoTask["type"]] }
+  | { id: number; error: { name: string; message: string } }
+  | { id: number; progress: number };
+
+const run = async (id: number, task: CryptoTask): Promise<CryptoResults[CryptoTask["type"]]> => {
+  if (task.type === "encrypt") {
+    const { encryptedBlob, wrappedKey, dataKey } = await encryptFileInThread(
+      task.file,
+      task.masterKey,
+      task.options,
+      (progress) => self.postMessage({ id, progress } satisfies CryptoResponse)
+    );
+    return { blob: encryptedBlob, wrappedKey, dataKey };
+  }
+
+  return decryptFileInThread(task.source, task.wrappedKey, task.masterKey, task.options);
+};
+
+self.addEventListener("message", async (event: MessageEvent<CryptoRequest>) => {
+  const { id, ...task } = event.data;
+
+  try {
+    const result = await run(id, task);
+    self.postMessage({ id, result } satisfies CryptoResponse);
+  } catch (error) {
+    const { name, message } = error instanceof Error ? error : new Error("Crypto task failed");
+    self.postMessage({ id, error: { name, message } } satisfies CryptoResponse);
+  }
+});
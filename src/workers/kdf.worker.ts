@@ -0,0 +1,52 @@
+// Runs Argon2id off the main thread so the unlock and setup forms stay responsive
+
+import { argon2id } from "hash-wasm";
+import type { Argon2idParams } from "@/lib/encryption";
+import { KDF_LIMITS } from "@/lib/kdfLimits";
+
+export interface KdfRequest {
+  id: number;
+  passphrase: string;
+  salt: Uint8Array;
+  params: Argon2idParams;
+}
+
+export type KdfResponse =
+  | { id: number; key: CryptoKey }
+  | { id: number; error: string };
+
+self.addEventListener("message", async (event: MessageEvent<KdfRequest>) => {
+  const { id, passphrase, salt, params } = event.data;
+
+  try {
+    // Checked again here so nothing can make the worker allocate past the cap
+    const [, maxMemoryKiB] = KDF_LIMITS.argon2MemoryKiB;
+    const [, maxIterations] = KDF_LIMITS.argon2Iterations;
+    const [, maxParallelism] = KDF_LIMITS.argon2Parallelism;
+    if (params.memoryKiB > maxMemoryKiB || params.iterations > maxIterations || params.parallelism > maxParallelism) {
+      throw new Error("Key derivation settings exceed the allowed limits");
+    }
+
+    const bytes = await argon2id({
+      password: passphrase,
+      salt,
+      memorySize: params.memoryKiB,
+      iterations: params.iterations,
+      parallelism: params.parallelism,
+      hashLength: 32,
+      outputType: "binary",
+    });
+
+    // Only the non-extractable key leaves the worker
+    const key = await crypto.subtle.importKey("raw", bytes, { name: "AES-GCM" }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+    bytes.fill(0);
+
+    self.postMessage({ id, key } satisfies KdfResponse);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Key derivation failed";
+    self.postMessage({ id, error: message } satisfies KdfResponse);
+  }
+});
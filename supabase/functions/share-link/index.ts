@@ -0,0 +1,80 @@
+// Opens a share link for someone without an account. The link's token is
+// exchanged for the wrapped key and a short-lived URL to the ciphertext; the
+// key that unwraps it stays in the link's fragment and never arrives here.
+// Opening a link does not count a view. The viewer counts it afterwards with
+// a proof that only the key and the link's password can produce.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Long enough to download one photo
+const SIGNED_URL_TTL_SECONDS = 60;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token, proof } = await req.json();
+    if (typeof token !== "string" || token.length === 0) {
+      return json({ error: "Missing token" }, 400);
+    }
+    if (proof !== undefined && (typeof proof !== "string" || proof.length === 0)) {
+      return json({ error: "Invalid proof" }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    if (proof !== undefined) {
+      const { data: counted, error } = await supabase.rpc("count_share_link_view", {
+        link_token: token,
+        view_proof: proof,
+      });
+      if (error) throw error;
+      return counted ? json({ counted }) : json({ error: "This link has expired or is no longer available" }, 404);
+    }
+
+    // Expired, exhausted and revoked links return nothing
+    const { data, error } = await supabase.rpc("open_share_link", { link_token: token });
+    if (error) throw error;
+
+    const link = data?.[0];
+    if (!link) {
+      return json({ error: "This link has expired or is no longer available" }, 404);
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from("photos")
+      .createSignedUrl(link.storage_path, SIGNED_URL_TTL_SECONDS);
+
+    if (signError) throw signError;
+
+    return json({
+      photoId: link.photo_id,
+      ownerId: link.owner_id,
+      wrappedKey: link.wrapped_key,
+      passwordSalt: link.password_salt,
+      kdfParams: link.kdf_params,
+      encryptedMetadata: link.encrypted_metadata,
+      signedUrl: signed.signedUrl,
+    });
+  } catch (error) {
+    console.error("share-link error:", error);
+    return json({ error: "Failed to open link" }, 500);
+  }
+});
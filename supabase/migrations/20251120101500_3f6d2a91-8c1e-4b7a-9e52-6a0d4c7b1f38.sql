@@ -0,0 +1,6 @@
+-- Per-user key derivation settings. The salt is random for every account and
+-- the parameters are kept alongside it so they can be raised later.
+ALTER TABLE public.profiles
+  ADD COLUMN kdf_salt TEXT,
+  ADD COLUMN kdf_params JSONB,
+  ADD COLUMN legacy_rekey_pending BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,11 @@
+-- Envelope encryption: a random master key wrapped by the passphrase-derived
+-- key, and a random data key per photo and version wrapped by the master key
+ALTER TABLE public.profiles ADD COLUMN wrapped_master_key TEXT;
+ALTER TABLE public.photos ADD COLUMN wrapped_key TEXT;
+ALTER TABLE public.photo_versions ADD COLUMN wrapped_key TEXT;
+
+-- Existing versions are re-encrypted under data keys on the next unlock
+CREATE POLICY "Users can update their own photo versions"
+ON public.photo_versions
+FOR UPDATE
+USING (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- Master key rotation. Every wrapped data key records which master key wrapped
+-- it, so a rotation can re-wrap row by row and resume where it left off.
+ALTER TABLE public.profiles
+  ADD COLUMN master_key_id TEXT,
+  ADD COLUMN pending_wrapped_master_key TEXT,
+  ADD COLUMN pending_master_key_id TEXT;
+
+ALTER TABLE public.photos ADD COLUMN master_key_id TEXT;
+ALTER TABLE public.photo_versions ADD COLUMN master_key_id TEXT;
+
+-- Existing master keys get an id and their data keys are stamped with it
+UPDATE public.profiles
+SET master_key_id = gen_random_uuid()::text
+WHERE wrapped_master_key IS NOT NULL;
+
+UPDATE public.photos p
+SET master_key_id = pr.master_key_id
+FROM public.profiles pr
+WHERE pr.id = p.user_id AND p.wrapped_key IS NOT NULL;
+
+UPDATE public.photo_versions v
+SET master_key_id = pr.master_key_id
+FROM public.profiles pr
+WHERE pr.id = v.user_id AND v.wrapped_key IS NOT NULL;
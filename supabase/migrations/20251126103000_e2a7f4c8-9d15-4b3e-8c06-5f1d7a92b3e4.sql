@@ -0,0 +1,2 @@
+-- Encrypted known plaintext used to reject a wrong passphrase on unlock
+ALTER TABLE public.profiles ADD COLUMN key_check TEXT;
@@ -0,0 +1,8 @@
+-- Recovery key: a random key shown to the user once as a mnemonic, which
+-- independently wraps the master key. It is also kept wrapped under the master
+-- key so that a rotation can re-wrap the recovery copy without asking for it.
+ALTER TABLE public.profiles
+  ADD COLUMN recovery_wrapped_master_key TEXT,
+  ADD COLUMN pending_recovery_wrapped_master_key TEXT,
+  ADD COLUMN wrapped_recovery_key TEXT,
+  ADD COLUMN recovery_key_created_at TIMESTAMPTZ;
@@ -0,0 +1,5 @@
+-- Titles, descriptions and edit settings are encrypted client-side under each
+-- row's data key. The plaintext columns stay only until the client has moved
+-- existing rows over, which it does on the next unlock.
+ALTER TABLE public.photos ADD COLUMN encrypted_metadata TEXT;
+ALTER TABLE public.photo_versions ADD COLUMN encrypted_metadata TEXT;
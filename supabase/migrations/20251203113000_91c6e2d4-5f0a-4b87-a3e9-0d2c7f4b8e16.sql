@@ -0,0 +1,5 @@
+-- Wrapped data keys, new files and their metadata are bound to the row's owner,
+-- photo id and version number as AES-GCM additional data. Existing rows are
+-- re-wrapped by the client on the next unlock and flagged here once done.
+ALTER TABLE public.photos ADD COLUMN aad_bound BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.photo_versions ADD COLUMN aad_bound BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,19 @@
+-- The photos bucket becomes private. Objects are only readable by their owner,
+-- through authenticated downloads or short-lived signed URLs.
+UPDATE storage.buckets SET public = false WHERE id = 'photos';
+
+DROP POLICY "Anyone can view photos" ON storage.objects;
+
+CREATE POLICY "Users can view their own photos"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'photos' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+-- Stored public URLs no longer resolve; objects are addressed by storage_path
+ALTER TABLE public.photos ALTER COLUMN url DROP NOT NULL;
+ALTER TABLE public.photo_versions ALTER COLUMN url DROP NOT NULL;
+
+UPDATE public.photos SET url = NULL;
+UPDATE public.photo_versions SET url = NULL;
@@ -0,0 +1,47 @@
+-- Passkey unlock: each registered passkey derives a key from its WebAuthn PRF
+-- output, which wraps the master key the same way the passphrase does. That
+-- device key is also kept wrapped under the master key, like the recovery key,
+-- so a rotation can re-wrap every device copy without the authenticator. Each
+-- wrap records the master key id it holds, so a half-finished rotation is
+-- detected instead of unlocking with the wrong key.
+CREATE TABLE public.device_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  credential_id TEXT NOT NULL,
+  label TEXT NOT NULL,
+  prf_salt TEXT NOT NULL,
+  wrapped_master_key TEXT NOT NULL,
+  master_key_id TEXT NOT NULL,
+  pending_wrapped_master_key TEXT,
+  pending_master_key_id TEXT,
+  wrapped_device_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, credential_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.device_keys ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own device keys"
+ON public.device_keys
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own device keys"
+ON public.device_keys
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own device keys"
+ON public.device_keys
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own device keys"
+ON public.device_keys
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_device_keys_user_id ON public.device_keys(user_id);
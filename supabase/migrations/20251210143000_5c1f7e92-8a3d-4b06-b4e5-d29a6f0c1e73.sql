@@ -0,0 +1,90 @@
+-- Sharing key pair: an ECDH public key others can share with, and its private
+-- half wrapped under the owner's master key
+ALTER TABLE public.profiles
+  ADD COLUMN sharing_public_key TEXT,
+  ADD COLUMN wrapped_sharing_private_key TEXT;
+
+-- A share wraps one photo's data key for one recipient, under a key agreed
+-- between a one-time sender key and the recipient's sharing key
+CREATE TABLE public.shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_email TEXT,
+  recipient_email TEXT,
+  wrapped_key TEXT NOT NULL,
+  ephemeral_public_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (photo_id, recipient_id)
+);
+
+ALTER TABLE public.shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and recipients can view shares"
+ON public.shares
+FOR SELECT
+USING (auth.uid() = owner_id OR auth.uid() = recipient_id);
+
+CREATE POLICY "Users can share their own photos"
+ON public.shares
+FOR INSERT
+WITH CHECK (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM public.photos WHERE photos.id = photo_id AND photos.user_id = auth.uid())
+);
+
+-- Owners revoke a share; recipients may remove it from their list
+CREATE POLICY "Owners and recipients can delete shares"
+ON public.shares
+FOR DELETE
+USING (auth.uid() = owner_id OR auth.uid() = recipient_id);
+
+CREATE INDEX idx_shares_photo_id ON public.shares(photo_id);
+CREATE INDEX idx_shares_recipient_id ON public.shares(recipient_id);
+
+-- Emails shown on a share come from the profiles, not from the client
+CREATE OR REPLACE FUNCTION public.set_share_emails()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.owner_email := (SELECT email FROM public.profiles WHERE id = NEW.owner_id);
+  NEW.recipient_email := (SELECT email FROM public.profiles WHERE id = NEW.recipient_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_share_emails
+  BEFORE INSERT ON public.shares
+  FOR EACH ROW EXECUTE FUNCTION public.set_share_emails();
+
+-- Recipients can read the row and the ciphertext of photos shared with them
+CREATE POLICY "Recipients can view photos shared with them"
+  ON public.photos FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.shares WHERE shares.photo_id = photos.id AND shares.recipient_id = auth.uid())
+  );
+
+CREATE POLICY "Recipients can view shared photo objects"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'photos' AND
+    EXISTS (
+      SELECT 1 FROM public.shares
+      JOIN public.photos ON photos.id = shares.photo_id
+      WHERE photos.storage_path = name AND shares.recipient_id = auth.uid()
+    )
+  );
+
+-- Looks up one account's sharing key by exact email, without exposing profiles
+CREATE OR REPLACE FUNCTION public.find_share_recipient(recipient_email TEXT)
+RETURNS TABLE (id UUID, sharing_public_key TEXT) AS $$
+  SELECT profiles.id, profiles.sharing_public_key
+  FROM public.profiles
+  WHERE lower(profiles.email) = lower(recipient_email)
+    AND profiles.sharing_public_key IS NOT NULL
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Signed-in users only, so the key directory cannot be probed anonymously
+REVOKE EXECUTE ON FUNCTION public.find_share_recipient(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_share_recipient(TEXT) TO authenticated;
@@ -0,0 +1,86 @@
+-- Share links: anyone holding /s/<token>#<key> can view one photo. The key in
+-- the fragment never reaches the server; the row only holds the photo's data
+-- key wrapped under it, and under a password-derived key as well if one is set.
+CREATE TABLE public.share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  password_salt TEXT,
+  kdf_params JSONB,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_views INTEGER,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  -- Hash of what a viewer sends to count a view, which only the link key and
+  -- the password can produce
+  view_proof_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+-- Only owners touch rows directly; viewers go through the share-link function
+CREATE POLICY "Users can view their own share links"
+ON public.share_links
+FOR SELECT
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can create links to their own photos"
+ON public.share_links
+FOR INSERT
+WITH CHECK (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM public.photos WHERE photos.id = photo_id AND photos.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own share links"
+ON public.share_links
+FOR DELETE
+USING (auth.uid() = owner_id);
+
+CREATE INDEX idx_share_links_owner_id ON public.share_links(owner_id);
+
+-- Returns the link unless it has expired or run out of views. Looking a link
+-- up does not count a view, so a reload, a wrong password or a broken link
+-- costs the owner nothing.
+CREATE OR REPLACE FUNCTION public.open_share_link(link_token TEXT)
+RETURNS TABLE (
+  photo_id UUID,
+  owner_id UUID,
+  wrapped_key TEXT,
+  password_salt TEXT,
+  kdf_params JSONB,
+  storage_path TEXT,
+  encrypted_metadata TEXT
+) AS $$
+  SELECT share_links.photo_id, share_links.owner_id, share_links.wrapped_key, share_links.password_salt,
+    share_links.kdf_params, photos.storage_path, photos.encrypted_metadata
+  FROM public.share_links
+  JOIN public.photos ON photos.id = share_links.photo_id
+  WHERE share_links.token = link_token
+    AND (share_links.expires_at IS NULL OR share_links.expires_at > now())
+    AND (share_links.max_views IS NULL OR share_links.view_count < share_links.max_views);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Counts a view once the viewer has decrypted the photo. The proof is derived
+-- from the key in the link's fragment and the password, so the token alone
+-- cannot use up a link's views.
+CREATE OR REPLACE FUNCTION public.count_share_link_view(link_token TEXT, view_proof TEXT)
+RETURNS BOOLEAN AS $$
+  WITH counted AS (
+    UPDATE public.share_links
+    SET view_count = view_count + 1
+    WHERE token = link_token
+      AND view_proof_hash = encode(sha256(decode(view_proof, 'base64')), 'base64')
+      AND (expires_at IS NULL OR expires_at > now())
+      AND (max_views IS NULL OR view_count < max_views)
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM counted);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.open_share_link(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.open_share_link(TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.count_share_link_view(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.count_share_link_view(TEXT, TEXT) TO service_role;
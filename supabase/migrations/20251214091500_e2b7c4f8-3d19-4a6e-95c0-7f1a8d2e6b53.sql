@@ -0,0 +1,78 @@
+-- Albums have their own key, wrapped under the owner's master key. The album
+-- name and cover are sealed under the album key, and each member photo's data
+-- key is wrapped under it too, so an album can be shared by handing over one key
+CREATE TABLE public.albums (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  master_key_id TEXT NOT NULL,
+  encrypted_metadata TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.albums ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own albums"
+ON public.albums
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own albums"
+ON public.albums
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own albums"
+ON public.albums
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own albums"
+ON public.albums
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_albums_user_id ON public.albums(user_id);
+
+-- A photo's place in an album, with its data key wrapped under the album key
+CREATE TABLE public.album_photos (
+  album_id UUID NOT NULL REFERENCES public.albums(id) ON DELETE CASCADE,
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (album_id, photo_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.album_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own album photos"
+ON public.album_photos
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Both the album and the photo must belong to the user
+CREATE POLICY "Users can add their own photos to their own albums"
+ON public.album_photos
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (SELECT 1 FROM public.albums WHERE albums.id = album_id AND albums.user_id = auth.uid()) AND
+  EXISTS (SELECT 1 FROM public.photos WHERE photos.id = photo_id AND photos.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own album photos"
+ON public.album_photos
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own album photos"
+ON public.album_photos
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_album_photos_photo_id ON public.album_photos(photo_id);
+CREATE INDEX idx_album_photos_user_id ON public.album_photos(user_id);
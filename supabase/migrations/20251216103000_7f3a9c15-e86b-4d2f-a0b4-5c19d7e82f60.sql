@@ -0,0 +1,315 @@
+-- Shared spaces: one vault that several accounts contribute to. Every key
+-- version of a space is wrapped for each member under their sharing public
+-- key; removing a member starts a new key version for future uploads.
+CREATE TABLE public.spaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Sealed under the key version below
+  encrypted_name TEXT NOT NULL,
+  key_version INTEGER NOT NULL DEFAULT 1,
+  -- Set while removing a member, until the next key version is in place.
+  -- Uploads wait meanwhile, since the current key may be known to them.
+  pending_key_version INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.space_members (
+  space_id UUID NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (space_id, user_id)
+);
+
+-- One row per member and key version, wrapped like a share
+CREATE TABLE public.space_keys (
+  space_id UUID NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  key_version INTEGER NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  ephemeral_public_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (space_id, key_version, user_id)
+);
+
+-- Space photos have their data keys wrapped under a space key version
+-- instead of the uploader's master key. They go with the space, whose keys
+-- are the only way to open them.
+ALTER TABLE public.photos
+  ADD COLUMN space_id UUID REFERENCES public.spaces(id) ON DELETE CASCADE,
+  ADD COLUMN space_key_version INTEGER;
+
+-- The current user's role in a space, or NULL. Policies on space_members use
+-- it too, so it reads the table without row level security.
+CREATE OR REPLACE FUNCTION public.space_role(target_space UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM public.space_members WHERE space_id = target_space AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE public.spaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.space_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.space_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their spaces"
+ON public.spaces
+FOR SELECT
+USING (auth.uid() = created_by OR public.space_role(id) IS NOT NULL);
+
+CREATE POLICY "Users can create spaces"
+ON public.spaces
+FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Owners can update their spaces"
+ON public.spaces
+FOR UPDATE
+USING (public.space_role(id) = 'owner');
+
+CREATE POLICY "Members can view fellow members"
+ON public.space_members
+FOR SELECT
+USING (public.space_role(space_id) IS NOT NULL);
+
+CREATE POLICY "Owners can add members"
+ON public.space_members
+FOR INSERT
+WITH CHECK (public.space_role(space_id) = 'owner');
+
+CREATE POLICY "Owners can change roles"
+ON public.space_members
+FOR UPDATE
+USING (public.space_role(space_id) = 'owner')
+WITH CHECK (public.space_role(space_id) = 'owner');
+
+-- Members are removed through remove_space_member below, never directly
+CREATE POLICY "Members can view their own space keys"
+ON public.space_keys
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Owners can wrap space keys for members"
+ON public.space_keys
+FOR INSERT
+WITH CHECK (
+  public.space_role(space_id) = 'owner' AND
+  EXISTS (
+    SELECT 1 FROM public.space_members
+    WHERE space_members.space_id = space_keys.space_id AND space_members.user_id = space_keys.user_id
+  )
+);
+
+CREATE POLICY "Owners can delete space keys"
+ON public.space_keys
+FOR DELETE
+USING (public.space_role(space_id) = 'owner');
+
+CREATE INDEX idx_space_members_user_id ON public.space_members(user_id);
+CREATE INDEX idx_space_keys_user_id ON public.space_keys(user_id);
+CREATE INDEX idx_photos_space_id ON public.photos(space_id);
+
+-- The creator becomes the first owner, and member emails come from profiles
+CREATE OR REPLACE FUNCTION public.add_space_creator()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.space_members (space_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_space_creator
+  AFTER INSERT ON public.spaces
+  FOR EACH ROW EXECUTE FUNCTION public.add_space_creator();
+
+CREATE OR REPLACE FUNCTION public.set_space_member_email()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.email := (SELECT email FROM public.profiles WHERE id = NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_space_member_email
+  BEFORE INSERT ON public.space_members
+  FOR EACH ROW EXECUTE FUNCTION public.set_space_member_email();
+
+-- A space always keeps an owner, since only owners manage members and rotate
+-- keys. Memberships stay in their space, and go freely with a deleted space
+-- or account.
+CREATE OR REPLACE FUNCTION public.keep_space_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (NEW.space_id <> OLD.space_id OR NEW.user_id <> OLD.user_id) THEN
+    RAISE EXCEPTION 'Memberships cannot be moved' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') OR
+     NOT EXISTS (SELECT 1 FROM public.spaces WHERE id = OLD.space_id) OR
+     NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Serializes owner changes, so two owners cannot demote each other at once
+  PERFORM 1 FROM public.spaces WHERE id = OLD.space_id FOR UPDATE;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.space_members
+    WHERE space_id = OLD.space_id AND user_id <> OLD.user_id AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'A space needs at least one owner' USING ERRCODE = '42501';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER keep_space_owner
+  BEFORE UPDATE OR DELETE ON public.space_members
+  FOR EACH ROW EXECUTE FUNCTION public.keep_space_owner();
+
+-- Removes a member and records the key version the space moves to in one
+-- step, so uploads stop under the key the member held the moment they leave.
+-- The owner then wraps the new version for everyone who remains.
+CREATE OR REPLACE FUNCTION public.remove_space_member(target_space UUID, member UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  pending INTEGER;
+BEGIN
+  IF public.space_role(target_space) IS DISTINCT FROM 'owner' OR member = auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to remove this member' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.spaces
+  SET pending_key_version = coalesce(pending_key_version, key_version + 1)
+  WHERE id = target_space
+  RETURNING pending_key_version INTO pending;
+
+  DELETE FROM public.space_members WHERE space_id = target_space AND user_id = member;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this space';
+  END IF;
+  DELETE FROM public.space_keys WHERE space_id = target_space AND user_id = member;
+
+  RETURN pending;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.remove_space_member(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.remove_space_member(UUID, UUID) TO authenticated;
+
+-- A pending key version only clears by becoming the current one, so uploads
+-- cannot resume under the key a removed member holds
+CREATE OR REPLACE FUNCTION public.check_space_rotation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.pending_key_version IS NOT NULL AND NEW.pending_key_version IS NULL AND
+     NEW.key_version IS DISTINCT FROM OLD.pending_key_version THEN
+    RAISE EXCEPTION 'Finish the key rotation to clear it' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_space_rotation
+  BEFORE UPDATE OF pending_key_version ON public.spaces
+  FOR EACH ROW EXECUTE FUNCTION public.check_space_rotation();
+
+-- Sharing keys of a space's members, for wrapping a new key version
+CREATE OR REPLACE FUNCTION public.space_member_keys(target_space UUID)
+RETURNS TABLE (user_id UUID, sharing_public_key TEXT) AS $$
+  SELECT m.user_id, p.sharing_public_key
+  FROM public.space_members m
+  JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.space_id = target_space
+    AND p.sharing_public_key IS NOT NULL
+    AND public.space_role(target_space) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only owners and editors may add photos to a space, and only under its
+-- current key version once no rotation is pending, so removed members cannot
+-- read new uploads. The object
+-- must sit in the uploader's own folder, so a row cannot claim someone else's.
+DROP POLICY "Users can insert their own photos" ON public.photos;
+DROP POLICY "Users can update their own photos" ON public.photos;
+
+CREATE POLICY "Users can insert their own photos"
+  ON public.photos FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    (storage.foldername(storage_path))[1] = auth.uid()::text AND
+    (
+      space_id IS NULL OR (
+        public.space_role(space_id) IN ('owner', 'editor') AND
+        space_key_version = (
+          SELECT key_version FROM public.spaces WHERE spaces.id = space_id AND spaces.pending_key_version IS NULL
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can update their own photos"
+  ON public.photos FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    (storage.foldername(storage_path))[1] = auth.uid()::text
+  );
+
+-- Moving a photo into a space or onto another key version is held to the
+-- same rules as uploading it there. A trigger rather than the policy, since
+-- photos keep their old key version after a rotation and only changes count.
+CREATE OR REPLACE FUNCTION public.check_photo_space()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.space_id IS NOT NULL AND (
+    NEW.space_id IS DISTINCT FROM OLD.space_id OR
+    NEW.space_key_version IS DISTINCT FROM OLD.space_key_version
+  ) AND (
+    coalesce(public.space_role(NEW.space_id), '') NOT IN ('owner', 'editor') OR
+    NEW.space_key_version IS DISTINCT FROM (
+      SELECT key_version FROM public.spaces WHERE id = NEW.space_id AND pending_key_version IS NULL
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to add photos to this space' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_photo_space
+  BEFORE UPDATE OF space_id, space_key_version ON public.photos
+  FOR EACH ROW EXECUTE FUNCTION public.check_photo_space();
+
+CREATE POLICY "Members can view space photos"
+  ON public.photos FOR SELECT
+  USING (space_id IS NOT NULL AND public.space_role(space_id) IS NOT NULL);
+
+CREATE POLICY "Space owners can delete space photos"
+  ON public.photos FOR DELETE
+  USING (space_id IS NOT NULL AND public.space_role(space_id) = 'owner');
+
+CREATE POLICY "Members can view space photo objects"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'photos' AND
+    EXISTS (
+      SELECT 1 FROM public.photos
+      WHERE photos.storage_path = name AND photos.space_id IS NOT NULL AND public.space_role(photos.space_id) IS NOT NULL AND
+        (storage.foldername(name))[1] = photos.user_id::text
+    )
+  );
+
+CREATE POLICY "Space owners can delete space photo objects"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'photos' AND
+    EXISTS (
+      SELECT 1 FROM public.photos
+      WHERE photos.storage_path = name AND photos.space_id IS NOT NULL AND public.space_role(photos.space_id) = 'owner' AND
+        (storage.foldername(name))[1] = photos.user_id::text
+    )
+  );
+
+-- Members pick up new spaces and rotated keys without reloading
+ALTER PUBLICATION supabase_realtime ADD TABLE public.spaces;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.space_keys;
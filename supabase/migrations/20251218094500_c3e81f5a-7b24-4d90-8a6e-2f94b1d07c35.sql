@@ -0,0 +1,275 @@
+-- Emergency access: an account nominates a trusted contact, whose copy of the
+-- master key is escrowed at once but withheld until they ask for it and the
+-- waiting period passes without a veto.
+CREATE TABLE public.emergency_contacts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  grantor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  grantee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  grantor_email TEXT,
+  grantee_email TEXT,
+  wait_days INTEGER NOT NULL CHECK (wait_days BETWEEN 1 AND 90),
+  status TEXT NOT NULL DEFAULT 'idle' CHECK (status IN ('idle', 'requested', 'granted')),
+  requested_at TIMESTAMP WITH TIME ZONE,
+  granted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (grantor_id, grantee_id),
+  CHECK (grantor_id <> grantee_id)
+);
+
+-- The grantor's master key wrapped for the grantee like a share. Kept apart
+-- from the contact so the grantee cannot read it before it is released.
+CREATE TABLE public.emergency_keys (
+  contact_id UUID NOT NULL PRIMARY KEY REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  grantor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  master_key_id TEXT NOT NULL,
+  wrapped_master_key TEXT NOT NULL,
+  ephemeral_public_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- What happened to each contact, shown to both sides. Entries outlive the
+-- contact they describe.
+CREATE TABLE public.emergency_access_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  grantor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  grantee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  grantor_email TEXT,
+  grantee_email TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('nominated', 'requested', 'vetoed', 'granted', 'revoked')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.emergency_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.emergency_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.emergency_access_events ENABLE ROW LEVEL SECURITY;
+
+-- Status changes go through the functions below, never direct updates
+CREATE POLICY "Grantors and grantees can view emergency contacts"
+ON public.emergency_contacts
+FOR SELECT
+USING (auth.uid() = grantor_id OR auth.uid() = grantee_id);
+
+CREATE POLICY "Users can nominate emergency contacts"
+ON public.emergency_contacts
+FOR INSERT
+WITH CHECK (auth.uid() = grantor_id AND status = 'idle');
+
+-- Grantors revoke a contact; grantees may step down
+CREATE POLICY "Grantors and grantees can delete emergency contacts"
+ON public.emergency_contacts
+FOR DELETE
+USING (auth.uid() = grantor_id OR auth.uid() = grantee_id);
+
+CREATE POLICY "Grantors can view their escrowed keys"
+ON public.emergency_keys
+FOR SELECT
+USING (auth.uid() = grantor_id);
+
+CREATE POLICY "Grantees can view released keys"
+ON public.emergency_keys
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.emergency_contacts
+    WHERE emergency_contacts.id = contact_id
+      AND emergency_contacts.grantee_id = auth.uid()
+      AND emergency_contacts.status = 'granted'
+  )
+);
+
+CREATE POLICY "Grantors can escrow keys for their contacts"
+ON public.emergency_keys
+FOR INSERT
+WITH CHECK (
+  auth.uid() = grantor_id AND
+  EXISTS (
+    SELECT 1 FROM public.emergency_contacts
+    WHERE emergency_contacts.id = contact_id AND emergency_contacts.grantor_id = auth.uid()
+  )
+);
+
+-- Re-escrowed when the master key is rotated, still for one of the grantor's own contacts
+CREATE POLICY "Grantors can update their escrowed keys"
+ON public.emergency_keys
+FOR UPDATE
+USING (auth.uid() = grantor_id)
+WITH CHECK (
+  auth.uid() = grantor_id AND
+  EXISTS (
+    SELECT 1 FROM public.emergency_contacts
+    WHERE emergency_contacts.id = contact_id AND emergency_contacts.grantor_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Grantors and grantees can view emergency access events"
+ON public.emergency_access_events
+FOR SELECT
+USING (auth.uid() = grantor_id OR auth.uid() = grantee_id);
+
+CREATE INDEX idx_emergency_contacts_grantor_id ON public.emergency_contacts(grantor_id);
+CREATE INDEX idx_emergency_contacts_grantee_id ON public.emergency_contacts(grantee_id);
+CREATE INDEX idx_emergency_access_events_grantor_id ON public.emergency_access_events(grantor_id);
+CREATE INDEX idx_emergency_access_events_grantee_id ON public.emergency_access_events(grantee_id);
+
+CREATE OR REPLACE FUNCTION public.log_emergency_access(contact public.emergency_contacts, event_kind TEXT)
+RETURNS VOID AS $$
+  INSERT INTO public.emergency_access_events (contact_id, grantor_id, grantee_id, grantor_email, grantee_email, kind)
+  VALUES (
+    CASE WHEN event_kind = 'revoked' THEN NULL ELSE contact.id END,
+    contact.grantor_id,
+    contact.grantee_id,
+    contact.grantor_email,
+    contact.grantee_email,
+    event_kind
+  );
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.log_emergency_access(public.emergency_contacts, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Emails come from the profiles, and nominations and removals are logged
+CREATE OR REPLACE FUNCTION public.set_emergency_contact_emails()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.grantor_email := (SELECT email FROM public.profiles WHERE id = NEW.grantor_id);
+  NEW.grantee_email := (SELECT email FROM public.profiles WHERE id = NEW.grantee_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_emergency_contact_emails
+  BEFORE INSERT ON public.emergency_contacts
+  FOR EACH ROW EXECUTE FUNCTION public.set_emergency_contact_emails();
+
+CREATE OR REPLACE FUNCTION public.log_emergency_contact_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_emergency_access(NEW, 'nominated');
+    RETURN NEW;
+  END IF;
+
+  -- Nothing is logged when the contact goes with a deleted account
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.grantor_id) AND
+     EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.grantee_id) THEN
+    PERFORM public.log_emergency_access(OLD, 'revoked');
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_emergency_contact_change
+  AFTER INSERT OR DELETE ON public.emergency_contacts
+  FOR EACH ROW EXECUTE FUNCTION public.log_emergency_contact_change();
+
+-- Called by the grantee to start the waiting period
+CREATE OR REPLACE FUNCTION public.request_emergency_access(contact UUID)
+RETURNS VOID AS $$
+DECLARE
+  updated public.emergency_contacts;
+BEGIN
+  UPDATE public.emergency_contacts
+  SET status = 'requested', requested_at = now()
+  WHERE id = contact AND grantee_id = auth.uid() AND status = 'idle'
+  RETURNING * INTO updated;
+
+  IF updated.id IS NULL THEN
+    RAISE EXCEPTION 'Emergency access cannot be requested for this contact';
+  END IF;
+
+  PERFORM public.log_emergency_access(updated, 'requested');
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Called by the grantor to turn down a pending request or end a release; the
+-- escrowed key stays for a later request. Ending a release hides the key and
+-- the photos again but cannot take back a key the grantee already read. Only
+-- rotating the master key does that.
+CREATE OR REPLACE FUNCTION public.veto_emergency_access(contact UUID)
+RETURNS VOID AS $$
+DECLARE
+  updated public.emergency_contacts;
+BEGIN
+  UPDATE public.emergency_contacts
+  SET status = 'idle', requested_at = NULL, granted_at = NULL
+  WHERE id = contact AND grantor_id = auth.uid() AND status IN ('requested', 'granted')
+  RETURNING * INTO updated;
+
+  IF updated.id IS NULL THEN
+    RAISE EXCEPTION 'There is no emergency access request to veto';
+  END IF;
+
+  PERFORM public.log_emergency_access(updated, 'vetoed');
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Releases every request whose waiting period has passed. Run on a schedule.
+CREATE OR REPLACE FUNCTION public.release_emergency_access()
+RETURNS INTEGER AS $$
+DECLARE
+  released public.emergency_contacts;
+  released_count INTEGER := 0;
+BEGIN
+  FOR released IN
+    UPDATE public.emergency_contacts
+    SET status = 'granted', granted_at = now()
+    WHERE status = 'requested' AND requested_at + make_interval(days => wait_days) <= now()
+    RETURNING *
+  LOOP
+    PERFORM public.log_emergency_access(released, 'granted');
+    released_count := released_count + 1;
+  END LOOP;
+
+  RETURN released_count;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.release_emergency_access() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_emergency_access() TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('release-emergency-access', '*/15 * * * *', 'SELECT public.release_emergency_access()');
+
+-- Sharing keys of an account's emergency contacts, for re-escrowing after a
+-- master key rotation
+CREATE OR REPLACE FUNCTION public.emergency_contact_keys()
+RETURNS TABLE (contact_id UUID, sharing_public_key TEXT) AS $$
+  SELECT c.id, p.sharing_public_key
+  FROM public.emergency_contacts c
+  JOIN public.profiles p ON p.id = c.grantee_id
+  WHERE c.grantor_id = auth.uid() AND p.sharing_public_key IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Once released, the grantee can read the grantor's personal photos
+CREATE POLICY "Emergency contacts can view released photos"
+  ON public.photos FOR SELECT
+  USING (
+    space_id IS NULL AND
+    EXISTS (
+      SELECT 1 FROM public.emergency_contacts
+      WHERE emergency_contacts.grantor_id = photos.user_id
+        AND emergency_contacts.grantee_id = auth.uid()
+        AND emergency_contacts.status = 'granted'
+    )
+  );
+
+-- Only the objects of those photos: not space photos, whose members the
+-- grantee may not be among, nor thumbnails or versions
+CREATE POLICY "Emergency contacts can view released photo objects"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'photos' AND
+    EXISTS (
+      SELECT 1 FROM public.photos
+      JOIN public.emergency_contacts ON emergency_contacts.grantor_id = photos.user_id
+      WHERE photos.storage_path = name AND photos.space_id IS NULL AND
+        (storage.foldername(name))[1] = photos.user_id::text
+        AND emergency_contacts.grantee_id = auth.uid()
+        AND emergency_contacts.status = 'granted'
+    )
+  );
+
+-- Both sides see requests, vetoes and releases as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE public.emergency_access_events;
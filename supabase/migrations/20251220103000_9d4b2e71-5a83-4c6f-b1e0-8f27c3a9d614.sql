@@ -0,0 +1,57 @@
+-- Encrypted thumbnails: each photo and version keeps a few downscaled copies,
+-- sealed under its own data key. Maps each size in pixels to its object path;
+-- an empty map marks a photo no thumbnail could be made for.
+ALTER TABLE public.photos ADD COLUMN thumbnail_paths JSONB;
+ALTER TABLE public.photo_versions ADD COLUMN thumbnail_paths JSONB;
+
+-- Every path must be a file directly in the row owner's thumbnails folder.
+-- Otherwise a row could point at someone else's objects, which the storage
+-- policies below would then open to every member of its space.
+CREATE OR REPLACE FUNCTION public.thumbnail_paths_owned(paths JSONB, owner_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT paths IS NULL OR (
+    jsonb_typeof(paths) = 'object' AND
+    NOT EXISTS (
+      SELECT 1 FROM jsonb_each_text(paths)
+      WHERE value IS NULL OR value !~ ('^' || owner_id::text || '/thumbnails/[^/]+$')
+    )
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+ALTER TABLE public.photos
+  ADD CONSTRAINT photos_thumbnail_paths_owned CHECK (public.thumbnail_paths_owned(thumbnail_paths, user_id));
+ALTER TABLE public.photo_versions
+  ADD CONSTRAINT photo_versions_thumbnail_paths_owned CHECK (public.thumbnail_paths_owned(thumbnail_paths, user_id));
+
+-- Thumbnails are stored under the uploader's folder like the photo itself, so
+-- space members reach them through the photo row. The folder is checked here
+-- as well as on the row.
+CREATE POLICY "Members can view space photo thumbnails"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'photos' AND
+    EXISTS (
+      SELECT 1 FROM public.photos
+      WHERE photos.space_id IS NOT NULL
+        AND public.space_role(photos.space_id) IS NOT NULL
+        AND photos.thumbnail_paths IS NOT NULL
+        AND name IN (SELECT value FROM jsonb_each_text(photos.thumbnail_paths))
+        AND (storage.foldername(name))[1] = photos.user_id::text
+        AND (storage.foldername(name))[2] = 'thumbnails'
+    )
+  );
+
+CREATE POLICY "Space owners can delete space photo thumbnails"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'photos' AND
+    EXISTS (
+      SELECT 1 FROM public.photos
+      WHERE photos.space_id IS NOT NULL
+        AND public.space_role(photos.space_id) = 'owner'
+        AND photos.thumbnail_paths IS NOT NULL
+        AND name IN (SELECT value FROM jsonb_each_text(photos.thumbnail_paths))
+        AND (storage.foldername(name))[1] = photos.user_id::text
+        AND (storage.foldername(name))[2] = 'thumbnails'
+    )
+  );